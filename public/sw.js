@@ -0,0 +1,68 @@
+// Service worker - lets the app shell load without a connection
+// Book data is kept by the app itself (IndexedDB), so requests to Supabase are left alone
+
+// Cache name - bump to drop everything cached by an older version
+const CACHE_NAME = 'booktracker-shell-v1';
+
+// Files the app can't start without, cached on install
+const SHELL_FILES = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg', '/favicon.ico'];
+
+// Cache the shell with the hashed JS and CSS bundles the built index.html loads
+// The page that registers this worker loaded them before the worker controlled it, so they
+// wouldn't be cached on fetch and the first visit wouldn't work offline
+const precacheShell = async () => {
+  const cache = await caches.open(CACHE_NAME);
+  await cache.addAll(SHELL_FILES);
+  const html = await (await cache.match('/index.html')).text();
+  const assets = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map((match) => match[1]);
+  await cache.addAll(assets);
+};
+
+// Cache the shell, then take over from any older service worker straight away
+self.addEventListener('install', (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+// Remove caches left by older versions and start handling open tabs
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) => Promise.all(names.filter((name) => name !== CACHE_NAME).map((name) => caches.delete(name))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Fetch from the network and keep a copy of successful responses
+const fetchAndCache = async (request) => {
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(CACHE_NAME);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // Only same-origin GETs - the API, auth and anything else cross-origin go straight to the network
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  // Pages: the latest index.html when online, the cached one otherwise (the app routes on the client)
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetchAndCache(new Request('/index.html')).catch(() => caches.match('/index.html'))
+    );
+    return;
+  }
+
+  // Built assets have content hashes in their names, so a cached copy never goes stale
+  if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(caches.match(request).then((cached) => cached ?? fetchAndCache(request)));
+    return;
+  }
+
+  // Everything else: the network first, the cache when offline
+  event.respondWith(fetchAndCache(request).catch(() => caches.match(request)));
+});
@@ -1,11 +1,20 @@
-// Import Link and useNavigate for navigation
-import { Link, useNavigate } from 'react-router-dom';
+// Import Link, useLocation and useNavigate for navigation
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 // Import icons from lucide-react
-import { Heart, Pencil, Trash2 } from 'lucide-react';
+import { Heart, Pencil, RotateCcw, Trash2 } from 'lucide-react';
 // Import Card components from shadcn/ui
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
-// Import Button component
+// Import Button and Badge components
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 // Import AlertDialog for delete confirmation
 import {
   AlertDialog,
@@ -22,20 +31,36 @@ import {
 import StatusBadge from './StatusBadge';
 import StarRating from './StarRating';
 import ProgressBar from './ProgressBar';
+import SearchSnippet from './SearchSnippet';
+import BookCover from './BookCover';
 // Import utility function for merging class names
 import { cn } from '@/lib/utils';
 
+// Define type for book reading status - matches database enum
+type BookStatus = 'want_to_read' | 'reading' | 'read';
+
 // Define props interface for BookCard component
 interface BookCardProps {
   id: string; // Unique book identifier for linking
   title: string; // Book title (required)
   author: string | null; // Author name (optional)
-  status: 'want_to_read' | 'reading' | 'read'; // Reading status
-  rating: number | null; // User rating 1-5 (optional)
+  coverUrl?: string | null; // Cover thumbnail URL (a placeholder is shown without one)
+  status: BookStatus; // Reading status
+  rating: number | null; // Headline rating 1-5, possibly fractional when averaged (optional)
+  readCount?: number; // Number of finished readings (optional)
   isFavorite: boolean; // Whether book is marked as favorite
-  readingProgress?: number; // Reading progress percentage (optional)
+  currentPage?: number; // Page the reader is currently on (optional)
+  pageCount?: number | null; // Total pages in the book (optional)
+  legacyProgress?: number | null; // Percentage kept from before progress was tracked by page (optional)
+  shelves?: string[]; // Names of the shelves the book is on (optional)
+  snippet?: string; // Highlighted review extract matching the current search (optional)
   index?: number; // Index in list for staggered animation delay
   onDelete?: (id: string) => void; // Callback for delete action
+  onToggleFavorite?: (id: string) => void; // Callback for the favourite button (optional)
+  onStatusChange?: (id: string, status: BookStatus) => void; // Callback for the status menu (optional)
+  selectionMode?: boolean; // Whether clicking the card selects it instead of opening it
+  selected?: boolean; // Whether the card is selected
+  onSelect?: (id: string, range: boolean) => void; // Callback for selecting (range when shift-clicked)
 }
 
 // BookCard component - displays a book summary card in the library grid
@@ -43,21 +68,35 @@ const BookCard = ({
   id,
   title,
   author,
+  coverUrl,
   status,
   rating,
   isFavorite,
-  readingProgress = 0, // Default to 0 if not provided
+  readCount = 0, // Default to no finished readings
+  currentPage = 0, // Default to 0 if not provided
+  pageCount = null, // Default to unknown page count
+  legacyProgress = null, // Default to no kept percentage
+  shelves = [], // Default to no shelves
+  snippet,
   index = 0, // Default to 0 for animation delay calculation
   onDelete,
+  onToggleFavorite,
+  onStatusChange,
+  selectionMode = false,
+  selected = false,
+  onSelect,
 }: BookCardProps) => {
   // Hook for programmatic navigation
   const navigate = useNavigate();
+  // Current page, passed to the book page so it can return to the same filtered view
+  const location = useLocation();
+  const linkState = { from: `${location.pathname}${location.search}` };
 
   // Handle edit button click - navigate to book detail page
   const handleEdit = (e: React.MouseEvent) => {
     e.preventDefault(); // Prevent Link navigation
     e.stopPropagation(); // Prevent event bubbling
-    navigate(`/books/${id}`);
+    navigate(`/books/${id}`, { state: linkState });
   };
 
   // Handle delete confirmation
@@ -67,14 +106,29 @@ const BookCard = ({
     onDelete?.(id);
   };
 
+  // Handle favourite button click
+  const handleToggleFavorite = (e: React.MouseEvent) => {
+    e.preventDefault(); // Prevent Link navigation
+    e.stopPropagation(); // Prevent event bubbling
+    onToggleFavorite?.(id);
+  };
+
+  // Handle card click in selection mode - toggle selection instead of navigating
+  const handleClick = (e: React.MouseEvent) => {
+    if (!selectionMode) return;
+    e.preventDefault(); // Prevent Link navigation
+    onSelect?.(id, e.shiftKey);
+  };
+
   // Render the book card wrapped in a link
   return (
     // Link to book detail page
-    <Link to={`/books/${id}`}>
+    <Link to={`/books/${id}`} state={linkState} onClick={handleClick}>
       {/* Card container with hover effects and animation */}
       <Card
         className={cn(
           'group cursor-pointer transition-all duration-300 hover:shadow-soft hover:-translate-y-1 border-border/50 bg-card animate-slide-up',
+          selected && 'ring-2 ring-primary', // Highlight selected cards
         )}
         style={{ animationDelay: `${index * 50}ms` }}
       >
@@ -82,6 +136,12 @@ const BookCard = ({
         <CardHeader className="pb-2">
           {/* Flex container for title/author and favorite icon */}
           <div className="flex items-start justify-between gap-2">
+            {/* Selection checkbox (only shown in selection mode; the whole card toggles it) */}
+            {selectionMode && (
+              <Checkbox checked={selected} className="mt-1.5 pointer-events-none" aria-label={`Select ${title}`} />
+            )}
+            {/* Cover thumbnail, or the title's initials */}
+            <BookCover title={title} url={coverUrl} className="w-12 flex-shrink-0" />
             {/* Title and author container with overflow handling */}
             <div className="flex-1 min-w-0">
               {/* Book title with truncation for long titles */}
@@ -95,9 +155,24 @@ const BookCard = ({
                 </p>
               )}
             </div>
-            {/* Favorite heart icon (only shown if book is favorited) */}
-            {isFavorite && (
-              <Heart className="h-4 w-4 fill-destructive text-destructive flex-shrink-0" />
+            {/* Favorite heart - a toggle button when the card can update the book, otherwise only shown if favorited */}
+            {onToggleFavorite && !selectionMode ? (
+              <Button
+                variant="ghost"
+                size="icon"
+                className={cn(
+                  'h-7 w-7 -mr-1 -mt-1 flex-shrink-0',
+                  !isFavorite && 'opacity-0 group-hover:opacity-100 focus-visible:opacity-100', // Reveal on hover
+                )}
+                onClick={handleToggleFavorite}
+                aria-label={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+              >
+                <Heart
+                  className={cn('h-4 w-4', isFavorite ? 'fill-destructive text-destructive' : 'text-muted-foreground')}
+                />
+              </Button>
+            ) : (
+              isFavorite && <Heart className="h-4 w-4 fill-destructive text-destructive flex-shrink-0" />
             )}
           </div>
         </CardHeader>
@@ -105,17 +180,60 @@ const BookCard = ({
         <CardContent className="pt-0 space-y-3">
           {/* Row with status badge and star rating */}
           <div className="flex items-center justify-between">
-            {/* Status badge showing reading status */}
-            <StatusBadge status={status} />
+            {/* Status badge with a re-read count (only shown if read more than once) */}
+            <div className="flex items-center gap-2">
+              {/* Status badge opens a menu to change the status when the card can update the book */}
+              {onStatusChange && !selectionMode ? (
+                <DropdownMenu>
+                  <DropdownMenuTrigger
+                    onClick={(e) => e.preventDefault()}
+                    className="rounded-full focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                    aria-label="Change status"
+                  >
+                    <StatusBadge status={status} />
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="start" onClick={(e) => e.stopPropagation()}>
+                    <DropdownMenuRadioGroup
+                      value={status}
+                      onValueChange={(value) => onStatusChange(id, value as BookStatus)}
+                    >
+                      <DropdownMenuRadioItem value="want_to_read">Want to Read</DropdownMenuRadioItem>
+                      <DropdownMenuRadioItem value="reading">Reading</DropdownMenuRadioItem>
+                      <DropdownMenuRadioItem value="read">Read</DropdownMenuRadioItem>
+                    </DropdownMenuRadioGroup>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              ) : (
+                <StatusBadge status={status} />
+              )}
+              {readCount > 1 && (
+                <span className="inline-flex items-center text-xs text-muted-foreground">
+                  <RotateCcw className="h-3 w-3 mr-1" />
+                  read {readCount}×
+                </span>
+              )}
+            </div>
             {/* Star rating (only shown if rating exists) */}
-            {rating && <StarRating rating={rating} readonly size="sm" />}
+            {rating && <StarRating rating={Math.round(rating)} readonly size="sm" />}
           </div>
-          {/* Progress bar (only shown for books being read with progress > 0) */}
-          {status === 'reading' && readingProgress > 0 && (
-            <ProgressBar progress={readingProgress} />
+          {/* Progress bar (only shown for books being read with a page > 0 or a kept percentage) */}
+          {status === 'reading' && (currentPage > 0 || legacyProgress !== null) && (
+            <ProgressBar currentPage={currentPage} pageCount={pageCount} legacyProgress={legacyProgress} />
+          )}
+          {/* Shelf chips (only shown if the book is on any shelves) */}
+          {shelves.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {shelves.map((shelf) => (
+                <Badge key={shelf} variant="secondary" className="font-normal">
+                  {shelf}
+                </Badge>
+              ))}
+            </div>
           )}
-          {/* Action buttons row */}
-          <div className="flex items-center gap-2 pt-1">
+          {/* Review extract matching the search (only shown while searching) */}
+          {snippet && <SearchSnippet snippet={snippet} />}
+          {/* Action buttons row (hidden in selection mode) */}
+          <div className={cn('flex items-center gap-2 pt-1', selectionMode && 'hidden')}>
             {/* Edit button */}
             <Button
               variant="outline"
@@ -143,7 +261,7 @@ const BookCard = ({
                 <AlertDialogHeader>
                   <AlertDialogTitle>Delete Book</AlertDialogTitle>
                   <AlertDialogDescription>
-                    Are you sure you want to delete "{title}"? This action cannot be undone.
+                    Move "{title}" to the trash? You can restore it from there for 30 days.
                   </AlertDialogDescription>
                 </AlertDialogHeader>
                 <AlertDialogFooter>
@@ -0,0 +1,53 @@
+// Import React hooks for state management and side effects
+import { useState, useEffect } from 'react';
+// Import utility function for merging class names
+import { cn } from '@/lib/utils';
+// Import placeholder generator for books without covers
+import { getCoverPlaceholder } from '@/lib/covers';
+
+// Define props interface for BookCover component
+interface BookCoverProps {
+  title: string; // Book title, for the alt text and the placeholder
+  url?: string | null; // Cover image URL (the placeholder is shown without one)
+  className?: string; // Sizing classes - the cover keeps a 2:3 shape at any width
+}
+
+// BookCover component - a book's cover image, or its initials on a colour derived from the title
+const BookCover = ({ title, url, className }: BookCoverProps) => {
+  // State for a cover that failed to load (e.g. offline), shown as the placeholder instead
+  const [failedUrl, setFailedUrl] = useState<string | null>(null);
+  // Placeholder initials and colour for this title
+  const placeholder = getCoverPlaceholder(title);
+
+  // Effect to try again when a different cover comes in
+  useEffect(() => {
+    setFailedUrl(null);
+  }, [url]); // Re-run when the cover changes
+
+  // Render the image, or the placeholder
+  return url && failedUrl !== url ? (
+    <img
+      src={url}
+      alt={`Cover of ${title}`}
+      loading="lazy"
+      onError={() => setFailedUrl(url)}
+      className={cn('aspect-[2/3] rounded-md object-cover bg-muted shadow-sm', className)}
+    />
+  ) : (
+    <div
+      role="img"
+      aria-label={`${title} (no cover)`}
+      className={cn(
+        'aspect-[2/3] rounded-md shadow-sm flex items-center justify-center font-serif font-semibold text-white select-none [container-type:inline-size]',
+        className
+      )}
+      style={{ backgroundColor: placeholder.color }}
+    >
+      {/* Initials sized to the cover's width */}
+      <span className="text-[35cqw] leading-none">{placeholder.initials}</span>
+    </div>
+  );
+};
+
+// Export BookCover component as default export
+export default BookCover;
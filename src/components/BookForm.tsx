@@ -1,9 +1,9 @@
-// Import useState hook for form state management
-import { useState } from 'react';
+// Import React hooks for form state management and side effects
+import { useState, useEffect, useRef } from 'react';
 // Import navigation hook from React Router
 import { useNavigate } from 'react-router-dom';
-// Import loader icon for submit button loading state
-import { Loader2 } from 'lucide-react';
+// Import icons for loading states and the ISBN lookup
+import { Loader2, Search } from 'lucide-react';
 // Import UI components from shadcn/ui
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -17,11 +17,27 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
-import { Slider } from '@/components/ui/slider';
-// Import custom StarRating component
+// Import custom components
 import StarRating from './StarRating';
+import ShelfPicker from './ShelfPicker';
+import DatePicker from './DatePicker';
+import CoverField from './CoverField';
+// Import date helper for comparing start and finish dates
+import { startOfDay } from 'date-fns';
+// Import helpers for page-based progress input
+import { formatProgress, parseProgressInput } from '@/lib/progress';
+// Import helpers for ISBN input and lookup
+import { parseIsbn } from '@/lib/isbn';
+import { lookupIsbn } from '@/lib/bookLookup';
+import { importCover } from '@/lib/covers';
+// Import auth hook for uploading looked-up covers
+import { useAuth } from '@/hooks/useAuth';
 // Import toast hook for notifications
 import { useToast } from '@/hooks/use-toast';
+// Import shelves hook for the shelf picker
+import { useShelves } from '@/hooks/useShelves';
+// Import offline hook - lookups need a connection
+import { useIsOffline } from '@/hooks/useOffline';
 
 // Define type for book reading status
 type BookStatus = 'want_to_read' | 'reading' | 'read';
@@ -34,23 +50,50 @@ interface BookFormData {
   rating: number | null; // User rating 1-5
   review: string; // User's review text
   is_favorite: boolean; // Whether marked as favorite
-  reading_progress: number; // Progress percentage 0-100
+  page_count: number | null; // Total pages in the book
+  current_page: number; // Page the reader is currently on
+  shelf_ids: string[]; // Shelves the book is assigned to
+  started_at: string | null; // When the book was started (stamped automatically if empty)
+  finished_at: string | null; // When the book was finished (stamped automatically if empty)
+  cover_path: string | null; // Uploaded cover image (a placeholder is shown without one)
+  isbn: string | null; // ISBN-13 (ISBN-10s are converted)
+  publisher: string; // Publisher name
+  published_year: number | null; // Year the edition was published
 }
 
 // Define props interface for BookForm component
 interface BookFormProps {
+  bookId: string; // Book being added or edited, so covers can be uploaded before it is saved
   initialData?: Partial<BookFormData>; // Optional initial values for edit mode
+  legacyProgress?: number | null; // Percentage kept from before progress was tracked by page (optional)
   onSubmit: (data: BookFormData) => Promise<void>; // Async submit handler
   submitLabel: string; // Text for submit button
   isLoading?: boolean; // Whether form is being submitted
+  cancelTo?: string; // Where the cancel button goes (defaults to the library)
+  onDirtyChange?: (dirty: boolean) => void; // Called when the form gains or loses unsaved edits
 }
 
 // BookForm component - reusable form for adding/editing books
-const BookForm = ({ initialData, onSubmit, submitLabel, isLoading }: BookFormProps) => {
+const BookForm = ({
+  bookId,
+  initialData,
+  legacyProgress = null,
+  onSubmit,
+  submitLabel,
+  isLoading,
+  cancelTo = '/books',
+  onDirtyChange,
+}: BookFormProps) => {
   // Hook for programmatic navigation
   const navigate = useNavigate();
+  // Get current user from auth context
+  const { user } = useAuth();
   // Hook for displaying toast notifications
   const { toast } = useToast();
+  // Lookups need a connection
+  const isOffline = useIsOffline();
+  // User's shelves and shelf creation for the shelf picker
+  const { shelves, createShelf } = useShelves();
   // Form state initialized with initial data or defaults
   const [formData, setFormData] = useState<BookFormData>({
     title: initialData?.title || '', // Title from initial data or empty
@@ -59,8 +102,113 @@ const BookForm = ({ initialData, onSubmit, submitLabel, isLoading }: BookFormPro
     rating: initialData?.rating || null, // Rating from initial data or null
     review: initialData?.review || '', // Review from initial data or empty
     is_favorite: initialData?.is_favorite || false, // Favorite from initial data or false
-    reading_progress: initialData?.reading_progress || 0, // Progress from initial data or 0
+    page_count: initialData?.page_count || null, // Page count from initial data or unknown
+    current_page: initialData?.current_page || 0, // Current page from initial data or 0
+    shelf_ids: initialData?.shelf_ids || [], // Shelves from initial data or none
+    started_at: initialData?.started_at || null, // Start date from initial data or none
+    finished_at: initialData?.finished_at || null, // Finish date from initial data or none
+    cover_path: initialData?.cover_path || null, // Cover from initial data or none
+    isbn: initialData?.isbn || null, // ISBN from initial data or none
+    publisher: initialData?.publisher || '', // Publisher from initial data or empty
+    published_year: initialData?.published_year || null, // Year from initial data or unknown
   });
+  // Raw text of the progress input - accepts a page ("page 212") or a percentage ("33%")
+  const [progressInput, setProgressInput] = useState(
+    initialData?.current_page ? String(initialData.current_page) : ''
+  );
+  // Raw text of the ISBN input - accepts an ISBN-10 or ISBN-13, with or without hyphens
+  const [isbnInput, setIsbnInput] = useState(initialData?.isbn || '');
+  // State to track if the ISBN is being looked up
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  // Starting values, to tell when the form has unsaved edits
+  const [startingValues] = useState(() => JSON.stringify({ formData, progressInput, isbnInput }));
+  // Whether anything has been changed since the form was filled in
+  const isDirty = JSON.stringify({ formData, progressInput, isbnInput }) !== startingValues;
+  // Parse the progress input against the current page count on every render
+  const parsedProgress = parseProgressInput(progressInput, formData.page_count);
+  // Parse and check the ISBN input on every render
+  const parsedIsbn = parseIsbn(isbnInput);
+
+  // Latest dirty-state callback, so a parent passing a new function each render doesn't re-report
+  const onDirtyChangeRef = useRef(onDirtyChange);
+  onDirtyChangeRef.current = onDirtyChange;
+
+  // Effect to report when the form gains or loses unsaved edits
+  useEffect(() => {
+    onDirtyChangeRef.current?.(isDirty);
+  }, [isDirty]); // Re-run when the form becomes dirty or clean again
+
+  // Handler to fill the form in from the book's ISBN
+  const handleLookup = async () => {
+    // Lookups need a connection (Enter in the ISBN field gets here even while the button is disabled)
+    if (isOffline) {
+      toast({
+        title: "You're offline",
+        description: 'Books can be looked up once you are back online.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    // Validate that there is an ISBN to look up
+    if (!parsedIsbn.isbn13) {
+      // Show error toast explaining what's wrong with the ISBN
+      toast({
+        title: 'Invalid ISBN',
+        description: parsedIsbn.error ?? 'Enter an ISBN-10 or ISBN-13 to look up.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsLookingUp(true);
+    try {
+      const book = await lookupIsbn(parsedIsbn.isbn13);
+      if (!book) {
+        // Show error toast if no book has this ISBN
+        toast({
+          title: 'Book not found',
+          description: 'No details were found for this ISBN. You can still fill them in yourself.',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      // Fill in the details that were found, keeping what's already there for the rest
+      setFormData((prev) => ({
+        ...prev,
+        title: book.title,
+        author: book.authors.join(', ') || prev.author,
+        page_count: book.pageCount ?? prev.page_count,
+        publisher: book.publisher ?? prev.publisher,
+        published_year: book.publishedYear ?? prev.published_year,
+      }));
+
+      // Use the cover too, unless the book already has one
+      if (book.cover && !formData.cover_path) {
+        try {
+          const cover_path = await importCover(user!.id, bookId, book.cover);
+          setFormData((prev) => ({ ...prev, cover_path: prev.cover_path ?? cover_path }));
+        } catch (error) {
+          // Show error toast if the cover couldn't be saved (the other details are still filled in)
+          toast({
+            title: 'Cover not saved',
+            description: 'The book was found but its cover could not be uploaded.',
+            variant: 'destructive',
+          });
+        }
+      }
+    } catch (error) {
+      // Show error toast if the lookup failed
+      toast({
+        title: 'Error',
+        description: 'Failed to look up this ISBN. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
 
   // Form submission handler
   const handleSubmit = async (e: React.FormEvent) => {
@@ -78,9 +226,52 @@ const BookForm = ({ initialData, onSubmit, submitLabel, isLoading }: BookFormPro
       return; // Stop submission
     }
 
+    // Validate that the progress input could be understood (it's only shown while reading)
+    if (formData.status === 'reading' && parsedProgress.error) {
+      // Show error toast explaining the expected format
+      toast({
+        title: 'Invalid progress',
+        description: parsedProgress.error,
+        variant: 'destructive',
+      });
+      return; // Stop submission
+    }
+
+    // Validate that the ISBN's check digit matches
+    if (parsedIsbn.error) {
+      // Show error toast explaining what's wrong with the ISBN
+      toast({
+        title: 'Invalid ISBN',
+        description: parsedIsbn.error,
+        variant: 'destructive',
+      });
+      return; // Stop submission
+    }
+
+    // Validate that the book wasn't finished before it was started
+    if (
+      formData.started_at &&
+      formData.finished_at &&
+      new Date(formData.finished_at) < startOfDay(new Date(formData.started_at))
+    ) {
+      // Show error toast if the dates are out of order
+      toast({
+        title: 'Invalid dates',
+        description: 'The finish date cannot be before the start date.',
+        variant: 'destructive',
+      });
+      return; // Stop submission
+    }
+
     try {
-      // Call the onSubmit handler passed as prop
-      await onSubmit(formData);
+      // A hidden progress input that doesn't parse keeps the saved page, within a lowered page count
+      const currentPage = parsedProgress.currentPage ?? formData.current_page;
+      // Call the onSubmit handler passed as prop with the parsed current page and ISBN
+      await onSubmit({
+        ...formData,
+        current_page: formData.page_count ? Math.min(currentPage, formData.page_count) : currentPage,
+        isbn: parsedIsbn.isbn13,
+      });
     } catch (error) {
       // Show error toast if submission fails
       toast({
@@ -97,6 +288,64 @@ const BookForm = ({ initialData, onSubmit, submitLabel, isLoading }: BookFormPro
     <form onSubmit={handleSubmit} className="space-y-6">
       {/* Form fields container */}
       <div className="space-y-4">
+        {/* Cover image with upload and crop */}
+        <div className="space-y-2">
+          <Label>Cover</Label>
+          <CoverField
+            bookId={bookId}
+            title={formData.title}
+            value={formData.cover_path}
+            // Update cover in form state once uploaded or removed
+            onChange={(cover_path) => setFormData((prev) => ({ ...prev, cover_path }))}
+          />
+        </div>
+
+        {/* ISBN field with a lookup that fills in the rest of the form */}
+        <div className="space-y-2">
+          <Label htmlFor="isbn">ISBN</Label>
+          <div className="flex gap-2">
+            <Input
+              id="isbn"
+              value={isbnInput}
+              // Update raw ISBN text in state on change
+              onChange={(e) => setIsbnInput(e.target.value)}
+              // Look the book up on Enter instead of submitting the form
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleLookup();
+                }
+              }}
+              placeholder="ISBN-10 or ISBN-13"
+              className="bg-background"
+            />
+            <Button
+              type="button" // Prevent form submission
+              variant="outline"
+              onClick={handleLookup}
+              disabled={isOffline || isLookingUp || !parsedIsbn.isbn13}
+            >
+              {isLookingUp ? <Loader2 className="h-4 w-4 mr-1.5 animate-spin" /> : <Search className="h-4 w-4 mr-1.5" />}
+              Look up
+            </Button>
+          </div>
+          {/* Show either the checksum error or the ISBN in both formats */}
+          {parsedIsbn.error ? (
+            <p className="text-sm text-destructive">{parsedIsbn.error}</p>
+          ) : parsedIsbn.isbn13 ? (
+            <p className="text-sm text-muted-foreground">
+              ISBN-13 {parsedIsbn.isbn13}
+              {parsedIsbn.isbn10 && ` · ISBN-10 ${parsedIsbn.isbn10}`}
+            </p>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {isOffline
+                ? 'Books can be looked up once you are back online.'
+                : 'Look up the title, author, pages, publisher and cover by ISBN.'}
+            </p>
+          )}
+        </div>
+
         {/* Title field - required */}
         <div className="space-y-2">
           <Label htmlFor="title">Title *</Label>
@@ -145,25 +394,125 @@ const BookForm = ({ initialData, onSubmit, submitLabel, isLoading }: BookFormPro
           </Select>
         </div>
 
-        {/* Reading progress slider - only shown when status is 'reading' */}
+        {/* Start date picker - shown once the book has been started */}
+        {formData.status !== 'want_to_read' && (
+          <div className="space-y-2">
+            <Label htmlFor="started_at">Started</Label>
+            <DatePicker
+              id="started_at"
+              value={formData.started_at}
+              // Update start date in form state
+              onChange={(started_at) => setFormData({ ...formData, started_at })}
+              placeholder="Set automatically when you start"
+            />
+          </div>
+        )}
+
+        {/* Finish date picker - only shown when status is 'read' */}
+        {formData.status === 'read' && (
+          <div className="space-y-2">
+            <Label htmlFor="finished_at">Finished</Label>
+            <DatePicker
+              id="finished_at"
+              value={formData.finished_at}
+              // Update finish date in form state
+              onChange={(finished_at) => setFormData({ ...formData, finished_at })}
+              placeholder="Set automatically when you finish"
+            />
+          </div>
+        )}
+
+        {/* Page count field - optional, used to derive the progress percentage */}
+        <div className="space-y-2">
+          <Label htmlFor="page_count">Pages</Label>
+          <Input
+            id="page_count"
+            type="number"
+            min={1}
+            value={formData.page_count ?? ''}
+            // Store a positive whole number, or null when the field is cleared
+            onChange={(e) => {
+              const pageCount = parseInt(e.target.value, 10);
+              setFormData({ ...formData, page_count: pageCount > 0 ? pageCount : null });
+            }}
+            placeholder="Total number of pages"
+            className="bg-background"
+          />
+        </div>
+
+        {/* Publisher and year fields - optional */}
+        <div className="grid grid-cols-[1fr_7rem] gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="publisher">Publisher</Label>
+            <Input
+              id="publisher"
+              value={formData.publisher}
+              // Update publisher in form state on change
+              onChange={(e) => setFormData({ ...formData, publisher: e.target.value })}
+              placeholder="Enter publisher"
+              className="bg-background"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="published_year">Year</Label>
+            <Input
+              id="published_year"
+              type="number"
+              min={1}
+              max={9999}
+              value={formData.published_year ?? ''}
+              // Store a year, or null when the field is cleared
+              onChange={(e) => {
+                const year = parseInt(e.target.value, 10);
+                setFormData({ ...formData, published_year: year > 0 && year <= 9999 ? year : null });
+              }}
+              placeholder="e.g. 2012"
+              className="bg-background"
+            />
+          </div>
+        </div>
+
+        {/* Reading progress input - only shown when status is 'reading' */}
         {formData.status === 'reading' && (
-          <div className="space-y-3">
-            {/* Label showing current progress percentage */}
-            <Label>Reading Progress: {formData.reading_progress}%</Label>
-            {/* Slider for progress 0-100 with 5% steps */}
-            <Slider
-              value={[formData.reading_progress]} // Value as array (required by Slider)
-              // Update progress in form state (extract first value from array)
-              onValueChange={(value) =>
-                setFormData({ ...formData, reading_progress: value[0] })
-              }
-              max={100}
-              step={5}
-              className="py-2"
+          <div className="space-y-2">
+            <Label htmlFor="progress">Reading Progress</Label>
+            {/* Free-form input accepting a page or a percentage */}
+            <Input
+              id="progress"
+              value={progressInput}
+              // Update raw progress text in state on change
+              onChange={(e) => setProgressInput(e.target.value)}
+              placeholder='e.g. "page 212" or "33%"'
+              className="bg-background"
             />
+            {/* Show either the parse error or a preview of the derived progress */}
+            {parsedProgress.error ? (
+              <p className="text-sm text-destructive">{parsedProgress.error}</p>
+            ) : legacyProgress !== null && !progressInput.trim() ? (
+              // The kept percentage becomes a page once the page count is saved
+              <p className="text-sm text-muted-foreground">
+                {legacyProgress}% read - enter the total pages to keep it, or enter a page
+              </p>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {formatProgress(parsedProgress.currentPage, formData.page_count)}
+              </p>
+            )}
           </div>
         )}
 
+        {/* Shelves multi-select field */}
+        <div className="space-y-2">
+          <Label>Shelves</Label>
+          <ShelfPicker
+            shelves={shelves}
+            selectedIds={formData.shelf_ids}
+            // Update shelf selection in form state
+            onChange={(shelf_ids) => setFormData({ ...formData, shelf_ids })}
+            onCreate={createShelf}
+          />
+        </div>
+
         {/* Rating field using StarRating component */}
         <div className="space-y-2">
           <Label>Rating</Label>
@@ -212,11 +561,11 @@ const BookForm = ({ initialData, onSubmit, submitLabel, isLoading }: BookFormPro
 
       {/* Form action buttons */}
       <div className="flex gap-3">
-        {/* Cancel button - navigates back to books list */}
+        {/* Cancel button - navigates back to the library */}
         <Button
           type="button" // Prevent form submission
           variant="outline"
-          onClick={() => navigate('/books')}
+          onClick={() => navigate(cancelTo)}
           className="flex-1"
         >
           Cancel
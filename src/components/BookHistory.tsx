@@ -0,0 +1,129 @@
+// Import date formatting helper
+import { format } from 'date-fns';
+// Import icons from lucide-react icon library
+import { Loader2, Undo2 } from 'lucide-react';
+// Import UI components from shadcn/ui component library
+import { Button } from '@/components/ui/button';
+// Import generated database types
+import type { TablesUpdate } from '@/integrations/supabase/types';
+// Import custom hooks
+import { useToast } from '@/hooks/use-toast';
+import { BookDetailData, useBookHistory, useUpdateBook } from '@/hooks/useBooks';
+// Import helpers for reading a book's history
+import { buildHistory, FieldChange, formatEventDate } from '@/lib/bookHistory';
+// Import helpers for comparing and formatting column values
+import { BookConflictError, formatConflictValue, isSameValue } from '@/lib/conflicts';
+
+// Define props interface for BookHistory component
+interface BookHistoryProps {
+  book: BookDetailData; // Book as it is now - reverts are checked against this version
+}
+
+// BookHistory component - timeline of every change to a book, where a single column can be set back
+const BookHistory = ({ book }: BookHistoryProps) => {
+  // Hook for displaying toast notifications
+  const { toast } = useToast();
+  // Cached history query (refetched whenever the book changes)
+  const { data: events, isLoading, isError } = useBookHistory(book.id);
+  // Mutation that sets a column back (applied to the cache straight away)
+  const updateBook = useUpdateBook();
+  // Events as readable timeline entries, newest first
+  const entries = buildHistory(events ?? []);
+
+  // Handler to set one column back to its value before a change
+  const handleRevert = (change: FieldChange) => {
+    updateBook.mutate(
+      {
+        id: book.id,
+        changes: { [change.field]: change.from } as TablesUpdate<'books'>,
+        version: book.updated_at, // Don't overwrite a change made somewhere else since
+        base: book,
+      },
+      {
+        onSuccess: ({ queued }) => {
+          // Show success toast with the restored value
+          toast({
+            title: queued ? 'Saved offline' : 'Change reverted',
+            description: `${change.label} set back to ${formatConflictValue(change.field, change.from)}.`,
+          });
+        },
+        onError: (error) => {
+          // Show error toast if the revert failed (the book has been put back)
+          toast({
+            title: 'Error',
+            description:
+              error instanceof BookConflictError
+                ? 'This book was changed somewhere else. Check the latest version and try again.'
+                : 'Failed to revert the change. Please try again.',
+            variant: 'destructive',
+          });
+        },
+      }
+    );
+  };
+
+  // Show loading spinner while fetching the history
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  // Show an error message if the history couldn't be loaded
+  if (isError) {
+    return <p className="text-sm text-destructive text-center py-2">Failed to load the history of this book.</p>;
+  }
+
+  // Render the timeline of changes
+  return entries.length > 0 ? (
+    <ol className="relative border-l border-border ml-2 space-y-6">
+      {entries.map((entry) => (
+        <li key={entry.id} className="ml-5">
+          {/* Timeline dot */}
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+          {/* Sentences end with the date of the change, with the exact time on hover */}
+          <div className="space-y-1" title={format(new Date(entry.createdAt), 'MMM d, yyyy, h:mm a')}>
+            {/* What happened to the book as a whole */}
+            {entry.summary && (
+              <p className="text-sm font-medium text-foreground">
+                {entry.summary} on {formatEventDate(entry.createdAt)}
+              </p>
+            )}
+            {/* Each column changed, with a button to set it back */}
+            {entry.changes.map((change) => (
+              <div key={change.field} className="flex items-center justify-between gap-2">
+                <p className="text-sm text-foreground">
+                  {change.description} on {formatEventDate(entry.createdAt)}
+                </p>
+                {/* Hidden once the column already has the old value */}
+                {!isSameValue(change.field, book[change.field], change.from) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 shrink-0 text-muted-foreground hover:text-foreground"
+                    onClick={() => handleRevert(change)}
+                    disabled={updateBook.isPending}
+                    aria-label={`Revert ${change.label.toLowerCase()} to ${formatConflictValue(change.field, change.from)}`}
+                  >
+                    <Undo2 className="h-4 w-4 mr-1.5" />
+                    Revert
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </li>
+      ))}
+    </ol>
+  ) : (
+    // Empty state
+    <p className="text-sm text-muted-foreground text-center py-2">
+      No changes recorded yet. Edits to this book will show up here.
+    </p>
+  );
+};
+
+// Export BookHistory component as default export
+export default BookHistory;
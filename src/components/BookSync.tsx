@@ -0,0 +1,144 @@
+// Import React hooks for state management and side effects
+import { useEffect, useRef, useState } from 'react';
+// Import React Query hook for refreshing cached data
+import { useQueryClient } from '@tanstack/react-query';
+// Import custom components
+import ConflictDialog from '@/components/ConflictDialog';
+// Import custom hooks
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { bookKeys, useBookRealtime } from '@/hooks/useBooks';
+// Import conflict types
+import { BookConflict } from '@/lib/conflicts';
+// Import offline write queue
+import {
+  discardQueuedWrites,
+  getQueuedCount,
+  isOffline,
+  refreshQueuedCount,
+  replayQueuedWrites,
+  resolveQueuedConflicts,
+} from '@/lib/offlineQueue';
+// Import helpers for keeping a copy of the cache in the browser
+import { persistQueryCache, restoreQueryCache } from '@/lib/queryPersistence';
+
+// How often to retry sending queued changes while any are waiting
+const RETRY_INTERVAL_MS = 30_000;
+
+// BookSync component - keeps cached books up to date with other tabs and devices, keeps a copy of
+// the library for offline use and sends changes made offline once the connection is back
+const BookSync = () => {
+  // Get current user from auth context
+  const { user } = useAuth();
+  // Hook for displaying toast notifications
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // Queued changes that conflict with changes made elsewhere, waiting for the reader to merge them
+  const [conflicts, setConflicts] = useState<BookConflict[] | null>(null);
+  // Whether queued changes are being sent, or waiting on the conflict dialog
+  const syncing = useRef(false);
+  const userId = user?.id;
+
+  useBookRealtime();
+
+  // Send the queued changes and report what happened
+  const sync = async () => {
+    if (!userId || syncing.current || isOffline()) return;
+    syncing.current = true;
+    // Conflicts keep syncing paused until the reader has decided
+    let awaitingReader = false;
+    try {
+      const result = await replayQueuedWrites(userId);
+      if (result.synced + result.failures.length + result.conflicts.length === 0) return;
+      await queryClient.invalidateQueries({ queryKey: bookKeys.all });
+      if (result.synced > 0) {
+        // Show success toast with the number of changes sent
+        toast({
+          title: 'Back online',
+          description: `Synced ${result.synced} offline ${result.synced === 1 ? 'change' : 'changes'}.`,
+        });
+      }
+      if (result.failures.length > 0) {
+        // Show error toast for changes the server refused
+        toast({
+          title: 'Some offline changes could not be saved',
+          description: `${result.failures.length} ${result.failures.length === 1 ? 'change was' : 'changes were'} rejected and discarded.`,
+          variant: 'destructive',
+        });
+      }
+      if (result.conflicts.length > 0) {
+        setConflicts(result.conflicts);
+        awaitingReader = true;
+      }
+    } catch (error) {
+      // Leave the queue as it is - the next attempt picks it up
+    } finally {
+      if (!awaitingReader) syncing.current = false;
+    }
+  };
+
+  // Latest sync handler, so the listeners below always send with the current state
+  const syncRef = useRef(sync);
+  syncRef.current = sync;
+
+  // Effect to restore the saved library, keep it saved and send anything queued, while signed in
+  useEffect(() => {
+    const sync = () => syncRef.current();
+    if (!userId) return;
+    let stopPersisting: (() => void) | undefined;
+    let cancelled = false;
+    // Restore before saving, so an empty cache never overwrites the saved copy
+    // A browser without storage (e.g. private browsing) just works online only
+    restoreQueryCache(queryClient, userId)
+      .catch(() => undefined)
+      .then(() => {
+        if (cancelled) return;
+        stopPersisting = persistQueryCache(queryClient, userId);
+        return refreshQueuedCount(userId).then(sync);
+      })
+      .catch(() => undefined);
+
+    // Send queued changes when the connection returns, and retry now and then in case it was flaky
+    const handleOnline = () => sync();
+    const interval = setInterval(() => {
+      if (getQueuedCount() > 0) sync();
+    }, RETRY_INTERVAL_MS);
+    window.addEventListener('online', handleOnline);
+    return () => {
+      cancelled = true;
+      stopPersisting?.();
+      clearInterval(interval);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [userId, queryClient]); // Re-run when a different user signs in
+
+  // Handler to send the merge chosen in the conflict dialog, checked against their version
+  const handleResolve = async (resolved: BookConflict[]) => {
+    setConflicts(null);
+    await resolveQueuedConflicts(userId, resolved);
+    syncing.current = false;
+    sync();
+  };
+
+  // Handler to drop the conflicting changes, keeping the versions saved elsewhere
+  const handleDiscard = async () => {
+    const bookIds = conflicts.map((conflict) => conflict.bookId);
+    setConflicts(null);
+    await discardQueuedWrites(userId, bookIds);
+    syncing.current = false;
+    queryClient.invalidateQueries({ queryKey: bookKeys.all });
+  };
+
+  // Render the merge dialog for changes made offline
+  return (
+    <ConflictDialog
+      conflicts={conflicts}
+      onResolve={handleResolve}
+      onCancel={handleDiscard}
+      cancelLabel="Discard my changes"
+    />
+  );
+};
+
+// Export BookSync component as default export
+export default BookSync;
@@ -0,0 +1,172 @@
+// Import icons from lucide-react icon library
+import { Heart, HeartOff, Library, Loader2, Trash2, X } from 'lucide-react';
+// Import UI components from shadcn/ui component library
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+// Import shelf type
+import type { Shelf } from '@/lib/shelves';
+// Import bulk change type
+import type { BulkChanges } from '@/lib/bulk';
+
+// Define props interface for BulkActionBar component
+interface BulkActionBarProps {
+  selectedCount: number; // Number of selected books
+  filteredCount: number; // Number of books matching the current filters
+  allFavorite: boolean; // Whether every selected book is already a favourite
+  shelves: Shelf[]; // All of the user's shelves
+  isWorking: boolean; // Whether a bulk action is running
+  onSelectAll: () => void; // Selects every book matching the filters
+  onClear: () => void; // Clears the selection
+  onApply: (changes: BulkChanges) => void; // Applies a change to the selection
+  onDelete: () => void; // Moves the selection to the trash
+}
+
+// BulkActionBar component - floating bar with actions for the selected books
+const BulkActionBar = ({
+  selectedCount,
+  filteredCount,
+  allFavorite,
+  shelves,
+  isWorking,
+  onSelectAll,
+  onClear,
+  onApply,
+  onDelete,
+}: BulkActionBarProps) => {
+  // Disable actions while running or when nothing is selected
+  const disabled = isWorking || selectedCount === 0;
+
+  // Render the action bar pinned to the bottom of the viewport
+  return (
+    <div className="fixed inset-x-0 bottom-4 z-40 flex justify-center px-4 animate-slide-up">
+      <div className="flex flex-wrap items-center gap-2 rounded-lg border border-border bg-background/95 p-2 shadow-soft backdrop-blur">
+        {/* Selection count with select all / clear */}
+        <span className="px-2 text-sm font-medium text-foreground">
+          {isWorking && <Loader2 className="inline h-4 w-4 mr-2 animate-spin" />}
+          {selectedCount} selected
+        </span>
+        {selectedCount < filteredCount && (
+          <Button variant="ghost" size="sm" onClick={onSelectAll} disabled={isWorking}>
+            Select all {filteredCount}
+          </Button>
+        )}
+        <Button variant="ghost" size="sm" onClick={onClear} disabled={disabled}>
+          <X className="h-4 w-4 mr-1" />
+          Clear
+        </Button>
+
+        {/* Change status */}
+        <Select
+          value=""
+          onValueChange={(status: BulkChanges['status']) => onApply({ status })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="h-9 w-40 bg-background">
+            <SelectValue placeholder="Set status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="want_to_read">Want to Read</SelectItem>
+            <SelectItem value="reading">Reading</SelectItem>
+            <SelectItem value="read">Read</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {/* Toggle favourite - unfavourites only when every selected book is a favourite */}
+        <Button variant="outline" size="sm" onClick={() => onApply({ is_favorite: !allFavorite })} disabled={disabled}>
+          {allFavorite ? <HeartOff className="h-4 w-4 mr-1" /> : <Heart className="h-4 w-4 mr-1" />}
+          {allFavorite ? 'Unfavourite' : 'Favourite'}
+        </Button>
+
+        {/* Add to or remove from a shelf */}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={disabled || shelves.length === 0}>
+              <Library className="h-4 w-4 mr-1" />
+              Shelves
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="center">
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>Add to shelf</DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                {shelves.map((shelf) => (
+                  <DropdownMenuItem key={shelf.id} onSelect={() => onApply({ add_shelf_ids: [shelf.id] })}>
+                    {shelf.name}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>Remove from shelf</DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                {shelves.map((shelf) => (
+                  <DropdownMenuItem key={shelf.id} onSelect={() => onApply({ remove_shelf_ids: [shelf.id] })}>
+                    {shelf.name}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        {/* Move to trash with confirmation */}
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+              disabled={disabled}
+            >
+              <Trash2 className="h-4 w-4 mr-1" />
+              Delete
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>
+                Delete {selectedCount} {selectedCount === 1 ? 'book' : 'books'}?
+              </AlertDialogTitle>
+              <AlertDialogDescription>
+                The selected books will be moved to the trash. You can restore them from there for 30 days.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={onDelete}>Delete</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </div>
+  );
+};
+
+// Export BulkActionBar component as default export
+export default BulkActionBar;
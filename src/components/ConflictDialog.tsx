@@ -0,0 +1,134 @@
+// Import React hooks for state management and side effects
+import { useState, useEffect } from 'react';
+// Import icons from lucide-react icon library
+import { GitMerge, Loader2 } from 'lucide-react';
+// Import UI components from shadcn/ui component library
+import { Button } from '@/components/ui/button';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+// Import utility function for merging class names
+import { cn } from '@/lib/utils';
+// Import conflict types and formatting
+import { BookConflict, FieldConflict, formatConflictValue } from '@/lib/conflicts';
+
+// Define props interface for ConflictDialog component
+interface ConflictDialogProps {
+  conflicts: BookConflict[] | null; // Books that changed somewhere else (null hides the dialog)
+  isSaving?: boolean; // Whether the merged changes are being saved
+  onResolve: (conflicts: BookConflict[]) => void; // Called with a choice made for every column
+  onCancel: () => void; // Closes the dialog without saving
+  cancelLabel?: string; // Text of the button that calls onCancel (defaults to "Cancel")
+}
+
+// ConflictDialog component - "yours vs theirs" for books edited in two places, choosing a value per column
+const ConflictDialog = ({ conflicts, isSaving, onResolve, onCancel, cancelLabel = 'Cancel' }: ConflictDialogProps) => {
+  // State for the conflicts with the reader's choices
+  const [choices, setChoices] = useState<BookConflict[]>([]);
+
+  // Effect to start from the suggested choices each time new conflicts come in
+  useEffect(() => {
+    if (conflicts) setChoices(conflicts);
+  }, [conflicts]); // Re-run when the conflicts change
+
+  // Choose which value to keep for a column of a book
+  const choose = (bookId: string, field: FieldConflict['field'], choice: FieldConflict['choice']) =>
+    setChoices((prev) =>
+      prev.map((conflict) =>
+        conflict.bookId === bookId
+          ? { ...conflict, fields: conflict.fields.map((f) => (f.field === field ? { ...f, choice } : f)) }
+          : conflict
+      )
+    );
+
+  // Keep the same side for every column
+  const chooseAll = (choice: FieldConflict['choice']) =>
+    setChoices((prev) =>
+      prev.map((conflict) => ({ ...conflict, fields: conflict.fields.map((f) => ({ ...f, choice })) }))
+    );
+
+  // Render the dialog
+  return (
+    <Dialog open={conflicts !== null} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-serif">
+            {choices.length === 1 ? 'This book was changed somewhere else' : 'Some books were changed somewhere else'}
+          </DialogTitle>
+          <DialogDescription>
+            Nothing has been overwritten. Choose which value to keep for each difference, then save.
+          </DialogDescription>
+        </DialogHeader>
+        {/* Shortcuts for keeping one side throughout */}
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => chooseAll('yours')}>
+            Keep all mine
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => chooseAll('theirs')}>
+            Keep all theirs
+          </Button>
+        </div>
+        {/* One table of differences per book */}
+        <div className="space-y-4">
+          {choices.map((conflict) => (
+            <div key={conflict.bookId} className="rounded-lg border border-border">
+              {/* Book title, when several books are being merged */}
+              {choices.length > 1 && (
+                <p className="border-b border-border px-3 py-2 font-medium">{conflict.title}</p>
+              )}
+              {/* Column headings */}
+              <div className="grid grid-cols-[7rem_1fr_1fr] gap-3 px-3 pt-2 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                <span />
+                <span>Yours</span>
+                <span>Theirs</span>
+              </div>
+              {conflict.fields.map((field) => (
+                <RadioGroup
+                  key={field.field}
+                  value={field.choice}
+                  onValueChange={(choice: FieldConflict['choice']) => choose(conflict.bookId, field.field, choice)}
+                  className="grid grid-cols-[7rem_1fr_1fr] items-start gap-3 px-3 py-2"
+                  aria-label={field.label}
+                >
+                  <span className="text-sm font-medium">{field.label}</span>
+                  {(['yours', 'theirs'] as const).map((side) => (
+                    <label
+                      key={side}
+                      className={cn(
+                        'flex cursor-pointer items-start gap-2 rounded-md border p-2 text-sm transition-colors',
+                        field.choice === side ? 'border-primary bg-primary/5' : 'border-border'
+                      )}
+                    >
+                      <RadioGroupItem value={side} className="mt-0.5" />
+                      <span className="line-clamp-4 break-words">
+                        {formatConflictValue(field.field, field[side])}
+                      </span>
+                    </label>
+                  ))}
+                </RadioGroup>
+              ))}
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            {cancelLabel}
+          </Button>
+          <Button onClick={() => onResolve(choices)} disabled={isSaving}>
+            {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <GitMerge className="h-4 w-4 mr-2" />}
+            Save merged
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// Export ConflictDialog component as default export
+export default ConflictDialog;
@@ -0,0 +1,160 @@
+// Import React hooks for state management, refs and side effects
+import { useState, useEffect, useRef } from 'react';
+// Import icons from lucide-react icon library
+import { Loader2, ZoomIn } from 'lucide-react';
+// Import UI components from shadcn/ui component library
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+// Import cover shape and crop type
+import { COVER_ASPECT, CoverCrop } from '@/lib/covers';
+
+// Size of the crop frame on screen, in pixels
+const FRAME_WIDTH = 240;
+const FRAME_HEIGHT = FRAME_WIDTH / COVER_ASPECT;
+
+// Furthest the image can be zoomed in, relative to just filling the frame
+const MAX_ZOOM = 3;
+
+// A position of the image's top-left corner relative to the frame, in screen pixels
+interface Offset {
+  x: number;
+  y: number;
+}
+
+// Define props interface for CoverCropDialog component
+interface CoverCropDialogProps {
+  image: HTMLImageElement | null; // Image being cropped (null hides the dialog)
+  isSaving?: boolean; // Whether the cropped cover is being uploaded
+  onCrop: (crop: CoverCrop) => void; // Called with the part of the image inside the frame
+  onCancel: () => void; // Closes the dialog without using the image
+}
+
+// Keep the image covering the whole frame
+const clampOffset = (offset: Offset, width: number, height: number): Offset => ({
+  x: Math.min(0, Math.max(FRAME_WIDTH - width, offset.x)),
+  y: Math.min(0, Math.max(FRAME_HEIGHT - height, offset.y)),
+});
+
+// CoverCropDialog component - drag and zoom an image inside a book-shaped frame
+const CoverCropDialog = ({ image, isSaving, onCrop, onCancel }: CoverCropDialogProps) => {
+  // State for how far the image is zoomed in (1 just fills the frame)
+  const [zoom, setZoom] = useState(1);
+  // State for where the image sits behind the frame
+  const [offset, setOffset] = useState<Offset>({ x: 0, y: 0 });
+  // Where the current drag started, with the offset at that point
+  const dragStart = useRef<{ pointerX: number; pointerY: number; offset: Offset } | null>(null);
+
+  // Screen pixels per image pixel at the current zoom
+  const baseScale = image ? Math.max(FRAME_WIDTH / image.naturalWidth, FRAME_HEIGHT / image.naturalHeight) : 1;
+  const scale = baseScale * zoom;
+  const displayWidth = image ? image.naturalWidth * scale : 0;
+  const displayHeight = image ? image.naturalHeight * scale : 0;
+
+  // Effect to start each new image zoomed out and centred
+  useEffect(() => {
+    if (!image) return;
+    setZoom(1);
+    setOffset({
+      x: (FRAME_WIDTH - image.naturalWidth * baseScale) / 2,
+      y: (FRAME_HEIGHT - image.naturalHeight * baseScale) / 2,
+    });
+  }, [image, baseScale]); // Re-run when a different image is chosen
+
+  // Zoom around the centre of the frame
+  const handleZoom = ([nextZoom]: number[]) => {
+    const ratio = nextZoom / zoom;
+    const centre = { x: FRAME_WIDTH / 2, y: FRAME_HEIGHT / 2 };
+    setZoom(nextZoom);
+    setOffset(
+      clampOffset(
+        { x: centre.x - (centre.x - offset.x) * ratio, y: centre.y - (centre.y - offset.y) * ratio },
+        displayWidth * ratio,
+        displayHeight * ratio
+      )
+    );
+  };
+
+  // Start dragging the image
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = { pointerX: e.clientX, pointerY: e.clientY, offset };
+  };
+
+  // Move the image with the pointer
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = dragStart.current;
+    if (!start) return;
+    setOffset(
+      clampOffset(
+        { x: start.offset.x + e.clientX - start.pointerX, y: start.offset.y + e.clientY - start.pointerY },
+        displayWidth,
+        displayHeight
+      )
+    );
+  };
+
+  // Use the part of the image inside the frame
+  const handleCrop = () =>
+    onCrop({
+      x: -offset.x / scale,
+      y: -offset.y / scale,
+      width: FRAME_WIDTH / scale,
+      height: FRAME_HEIGHT / scale,
+    });
+
+  // Render the dialog
+  return (
+    <Dialog open={image !== null} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="font-serif">Crop cover</DialogTitle>
+          <DialogDescription>Drag to position the cover and zoom to fit.</DialogDescription>
+        </DialogHeader>
+        {/* Book-shaped frame the image is dragged behind */}
+        <div
+          className="relative mx-auto overflow-hidden rounded-md bg-muted cursor-move touch-none select-none"
+          style={{ width: FRAME_WIDTH, height: FRAME_HEIGHT }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => (dragStart.current = null)}
+          onPointerCancel={() => (dragStart.current = null)}
+        >
+          {image && (
+            <img
+              src={image.src}
+              alt="Cover being cropped"
+              draggable={false}
+              className="absolute max-w-none"
+              style={{ width: displayWidth, height: displayHeight, left: offset.x, top: offset.y }}
+            />
+          )}
+        </div>
+        {/* Zoom control */}
+        <div className="flex items-center gap-3">
+          <ZoomIn className="h-4 w-4 text-muted-foreground" />
+          <Slider min={1} max={MAX_ZOOM} step={0.01} value={[zoom]} onValueChange={handleZoom} aria-label="Zoom" />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={handleCrop} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Use cover
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// Export CoverCropDialog component as default export
+export default CoverCropDialog;
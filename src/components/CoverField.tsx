@@ -0,0 +1,137 @@
+// Import React hooks for state management and refs
+import { useState, useRef } from 'react';
+// Import icons from lucide-react icon library
+import { ImagePlus, Loader2, X } from 'lucide-react';
+// Import UI components from shadcn/ui component library
+import { Button } from '@/components/ui/button';
+// Import custom components
+import BookCover from './BookCover';
+import CoverCropDialog from './CoverCropDialog';
+// Import custom hooks
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useCoverUrls } from '@/hooks/useCovers';
+import { useIsOffline } from '@/hooks/useOffline';
+// Import cover storage helpers
+import { CoverCrop, loadImage, uploadCover } from '@/lib/covers';
+
+// Define props interface for CoverField component
+interface CoverFieldProps {
+  bookId: string; // Book the cover is uploaded for
+  title: string; // Book title, for the placeholder
+  value: string | null; // Path of the chosen cover
+  onChange: (coverPath: string | null) => void; // Called with a newly uploaded cover, or null to remove it
+}
+
+// CoverField component - shows a book's cover and uploads a cropped replacement
+// The upload happens straight away; the book only points at it once the form is saved
+const CoverField = ({ bookId, title, value, onChange }: CoverFieldProps) => {
+  // Get current user from auth context
+  const { user } = useAuth();
+  // Hook for displaying toast notifications
+  const { toast } = useToast();
+  // Uploads need a connection
+  const isOffline = useIsOffline();
+  // Signed URL for the chosen cover
+  const coverUrls = useCoverUrls([value]);
+  // State for the image being cropped
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  // State to track if the cropped cover is being uploaded
+  const [isUploading, setIsUploading] = useState(false);
+  // Hidden file input opened by the upload button
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Close the crop dialog and release the image
+  const closeCropper = () => {
+    if (image) URL.revokeObjectURL(image.src);
+    setImage(null);
+  };
+
+  // Handler to load the chosen file for cropping
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear the input so choosing the same file again still opens the cropper
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setImage(await loadImage(file));
+    } catch (error) {
+      // Show error toast if the file isn't an image
+      toast({
+        title: 'Unsupported file',
+        description: 'Please choose a JPEG, PNG or WebP image.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Handler to upload the cropped cover and its thumbnail
+  const handleCrop = async (crop: CoverCrop) => {
+    setIsUploading(true);
+    try {
+      onChange(await uploadCover(user!.id, bookId, image, crop));
+      closeCropper();
+    } catch (error) {
+      // Show error toast if upload failed (the cropper stays open to try again)
+      toast({
+        title: 'Error',
+        description: 'Failed to upload the cover. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  // Render the cover with its actions
+  return (
+    <div className="flex items-end gap-4">
+      {/* Current cover, or the placeholder */}
+      <BookCover title={title || 'New book'} url={value && coverUrls[value]} className="w-24" />
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          {/* Upload or replace the cover */}
+          <Button
+            type="button" // Prevent form submission
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isOffline || isUploading}
+          >
+            {isUploading ? <Loader2 className="h-4 w-4 mr-1.5 animate-spin" /> : <ImagePlus className="h-4 w-4 mr-1.5" />}
+            {value ? 'Replace' : 'Upload'}
+          </Button>
+          {/* Remove the cover (the placeholder is shown instead) */}
+          {value && (
+            <Button
+              type="button" // Prevent form submission
+              variant="ghost"
+              size="sm"
+              className="text-muted-foreground"
+              onClick={() => onChange(null)}
+            >
+              <X className="h-4 w-4 mr-1.5" />
+              Remove
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {isOffline ? 'Covers can be uploaded once you are back online.' : 'JPEG, PNG or WebP, cropped to fit.'}
+        </p>
+      </div>
+      {/* Hidden file input */}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/jpeg,image/png,image/webp"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+      {/* Crop dialog for the chosen image */}
+      <CoverCropDialog image={image} isSaving={isUploading} onCrop={handleCrop} onCancel={closeCropper} />
+    </div>
+  );
+};
+
+// Export CoverField component as default export
+export default CoverField;
@@ -0,0 +1,74 @@
+// Import date formatting helper
+import { format } from 'date-fns';
+// Import icons from lucide-react icon library
+import { CalendarIcon, X } from 'lucide-react';
+// Import UI components from shadcn/ui component library
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+// Import utility function for merging class names
+import { cn } from '@/lib/utils';
+
+// Define props interface for DatePicker component
+interface DatePickerProps {
+  id?: string; // Optional ID for label association
+  value: string | null; // Selected date as an ISO timestamp (null if none)
+  onChange: (value: string | null) => void; // Called with the new ISO timestamp or null
+  placeholder?: string; // Text shown when no date is selected
+}
+
+// DatePicker component - button that opens a calendar popover, with a clear action
+const DatePicker = ({ id, value, onChange, placeholder = 'Pick a date' }: DatePickerProps) => {
+  // Parse the stored timestamp for the calendar (undefined if none)
+  const selected = value ? new Date(value) : undefined;
+
+  // Render the trigger button, calendar popover and clear button
+  return (
+    <div className="flex gap-2">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            id={id}
+            type="button" // Prevent form submission
+            variant="outline"
+            className={cn(
+              'flex-1 justify-start bg-background font-normal',
+              !selected && 'text-muted-foreground'
+            )}
+          >
+            <CalendarIcon className="h-4 w-4 mr-2" />
+            {selected ? format(selected, 'PPP') : placeholder}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="single"
+            selected={selected}
+            defaultMonth={selected}
+            // Store the picked day as an ISO timestamp
+            onSelect={(date) => onChange(date ? date.toISOString() : null)}
+            // Reading dates can't be in the future
+            disabled={(date) => date > new Date()}
+            initialFocus
+            className="p-3 pointer-events-auto"
+          />
+        </PopoverContent>
+      </Popover>
+      {/* Clear button (only shown when a date is selected) */}
+      {selected && (
+        <Button
+          type="button" // Prevent form submission
+          variant="ghost"
+          size="icon"
+          onClick={() => onChange(null)}
+          aria-label="Clear date"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+};
+
+// Export DatePicker component as default export
+export default DatePicker;
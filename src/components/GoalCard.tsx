@@ -0,0 +1,276 @@
+// Import React hooks for state management and side effects
+import { useState, useCallback, useEffect } from 'react';
+// Import icons from lucide-react icon library
+import { Loader2, Target } from 'lucide-react';
+// Import UI components from shadcn/ui component library
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+// Import Supabase client for database operations
+import { supabase } from '@/integrations/supabase/client';
+// Import custom hooks
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+// Import helpers for goal pace calculations
+import { formatGoalPace, getYearRange } from '@/lib/goals';
+
+// Define interface for reading goal data structure
+interface ReadingGoal {
+  target_books: number; // Number of books to finish in the year
+  target_pages: number | null; // Number of pages to read in the year (optional)
+}
+
+// GoalCard component - shows progress towards this year's reading goal
+const GoalCard = () => {
+  // Get current user from auth context
+  const { user } = useAuth();
+  // Hook for displaying toast notifications
+  const { toast } = useToast();
+  // The goal always tracks the current calendar year
+  const year = new Date().getFullYear();
+  // State to store the goal for the year (null if none set)
+  const [goal, setGoal] = useState<ReadingGoal | null>(null);
+  // State to store the books finished this year
+  const [finishedBooks, setFinishedBooks] = useState(0);
+  // State to store the pages of books finished this year
+  const [finishedPages, setFinishedPages] = useState(0);
+  // State to track loading status during data fetch
+  const [loading, setLoading] = useState(true);
+  // State to track whether the edit dialog is open
+  const [dialogOpen, setDialogOpen] = useState(false);
+  // State for the target inputs in the edit dialog
+  const [targetBooks, setTargetBooks] = useState('');
+  const [targetPages, setTargetPages] = useState('');
+  // State to track if the goal is being saved
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Async function to fetch the goal and the books finished this year
+  const fetchGoal = useCallback(async () => {
+    // Calendar year boundaries for the finished date filter
+    const { start, end } = getYearRange(year);
+    try {
+      // Query the goal and the finished books in parallel
+      const [goalResult, booksResult] = await Promise.all([
+        supabase
+          .from('reading_goals')
+          .select('target_books, target_pages')
+          .eq('year', year)
+          .maybeSingle(),
+        supabase
+          .from('books')
+          .select('page_count')
+          .eq('status', 'read')
+          .is('deleted_at', null)
+          .gte('finished_at', start.toISOString())
+          .lt('finished_at', end.toISOString()),
+      ]);
+
+      // Throw error if either query failed
+      if (goalResult.error) throw goalResult.error;
+      if (booksResult.error) throw booksResult.error;
+
+      // Update state with the goal and the finished totals
+      setGoal(goalResult.data);
+      setFinishedBooks(booksResult.data.length);
+      setFinishedPages(booksResult.data.reduce((total, book) => total + (book.page_count ?? 0), 0));
+    } catch (error) {
+      // Show error toast if fetch failed
+      toast({
+        title: 'Error',
+        description: 'Failed to load your reading goal.',
+        variant: 'destructive',
+      });
+    } finally {
+      // Set loading to false regardless of outcome
+      setLoading(false);
+    }
+  }, [year, toast]);
+
+  // Effect to fetch goal and progress when user is available
+  useEffect(() => {
+    // Only fetch if user is logged in
+    if (user) {
+      fetchGoal();
+    }
+  }, [user, fetchGoal]); // Re-run when user changes
+
+  // Open the edit dialog pre-filled with the current targets
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      setTargetBooks(goal ? String(goal.target_books) : '');
+      setTargetPages(goal?.target_pages ? String(goal.target_pages) : '');
+    }
+    setDialogOpen(open);
+  };
+
+  // Handler function to save the goal for the year
+  const handleSave = async (e: React.FormEvent) => {
+    // Prevent default form submission (page reload)
+    e.preventDefault();
+    // Return early if user is not logged in
+    if (!user) return;
+
+    // Parse the targets - pages are optional
+    const books = parseInt(targetBooks, 10);
+    const pages = parseInt(targetPages, 10);
+    // Validate that the book target is a positive number
+    if (!(books > 0)) {
+      toast({
+        title: 'Target required',
+        description: 'Please enter how many books you want to read.',
+        variant: 'destructive',
+      });
+      return; // Stop submission
+    }
+
+    // Set saving state to show loading indicator
+    setIsSaving(true);
+    try {
+      // Insert or update the goal for this user and year
+      const newGoal = { target_books: books, target_pages: pages > 0 ? pages : null };
+      const { error } = await supabase
+        .from('reading_goals')
+        .upsert({ user_id: user.id, year, ...newGoal }, { onConflict: 'user_id,year' });
+
+      // Throw error if upsert failed
+      if (error) throw error;
+
+      // Update local state and close the dialog
+      setGoal(newGoal);
+      setDialogOpen(false);
+    } catch (error) {
+      // Show error toast if save failed
+      toast({
+        title: 'Error',
+        description: 'Failed to save your reading goal. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      // Reset saving state
+      setIsSaving(false);
+    }
+  };
+
+  // Render nothing until the goal has loaded to avoid layout flicker
+  if (loading) return null;
+
+  // Render the goal card with its edit dialog
+  return (
+    <Card className="mb-6 animate-fade-in shadow-soft">
+      <CardContent className="pt-6 space-y-3">
+        {/* Header row with goal summary and edit button */}
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-start gap-3">
+            {/* Goal icon */}
+            <div className="p-2 rounded-lg bg-primary/10">
+              <Target className="h-5 w-5 text-primary" />
+            </div>
+            <div>
+              {/* Card title */}
+              <h2 className="font-serif text-lg font-semibold text-foreground">
+                {year} Reading Goal
+              </h2>
+              {/* Summary line, e.g. "14 of 30 books — 3 ahead of schedule" */}
+              <p className="text-sm text-muted-foreground">
+                {goal
+                  ? `${finishedBooks} of ${goal.target_books} books — ${formatGoalPace(
+                      finishedBooks,
+                      goal.target_books,
+                      year
+                    )}`
+                  : `${finishedBooks} ${finishedBooks === 1 ? 'book' : 'books'} finished this year`}
+              </p>
+            </div>
+          </div>
+          {/* Dialog for setting or changing the goal */}
+          <Dialog open={dialogOpen} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+              <Button variant="outline" size="sm">
+                {goal ? 'Edit Goal' : 'Set Goal'}
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <form onSubmit={handleSave} className="space-y-4">
+                <DialogHeader>
+                  <DialogTitle className="font-serif">{year} Reading Goal</DialogTitle>
+                  <DialogDescription>
+                    How much do you want to read this year?
+                  </DialogDescription>
+                </DialogHeader>
+                {/* Book target - required */}
+                <div className="space-y-2">
+                  <Label htmlFor="target_books">Books *</Label>
+                  <Input
+                    id="target_books"
+                    type="number"
+                    min={1}
+                    value={targetBooks}
+                    onChange={(e) => setTargetBooks(e.target.value)}
+                    placeholder="e.g. 30"
+                    className="bg-background"
+                  />
+                </div>
+                {/* Page target - optional */}
+                <div className="space-y-2">
+                  <Label htmlFor="target_pages">Pages</Label>
+                  <Input
+                    id="target_pages"
+                    type="number"
+                    min={1}
+                    value={targetPages}
+                    onChange={(e) => setTargetPages(e.target.value)}
+                    placeholder="Optional, e.g. 10000"
+                    className="bg-background"
+                  />
+                </div>
+                <DialogFooter>
+                  {/* Submit button with loading state */}
+                  <Button type="submit" disabled={isSaving}>
+                    {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Save Goal
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        {/* Progress bars (only shown once a goal is set) */}
+        {goal && (
+          <div className="space-y-2">
+            <Progress
+              value={Math.min(100, (finishedBooks / goal.target_books) * 100)}
+              className="h-2"
+            />
+            {/* Page progress (only shown if a page target is set) */}
+            {goal.target_pages && (
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">
+                  {finishedPages.toLocaleString()} of {goal.target_pages.toLocaleString()} pages
+                </p>
+                <Progress
+                  value={Math.min(100, (finishedPages / goal.target_pages) * 100)}
+                  className="h-1.5"
+                />
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+// Export GoalCard component as default export
+export default GoalCard;
@@ -1,11 +1,29 @@
 // Import Link for navigation and useNavigate hook for programmatic navigation
 import { Link, useNavigate } from 'react-router-dom';
+// Import React hook for state management
+import { useState } from 'react';
+// Import React Query hook for clearing cached data
+import { useQueryClient } from '@tanstack/react-query';
 // Import icons from lucide-react icon library
-import { BookOpen, LogOut, Plus } from 'lucide-react';
-// Import Button component from shadcn/ui
+import { BarChart3, BookOpen, ArchiveRestore, CloudOff, CloudUpload, Download, FileJson, Loader2, LogOut, Plus, Trash2, Upload, UserRound } from 'lucide-react';
+// Import UI components from shadcn/ui component library
 import { Button } from '@/components/ui/button';
-// Import custom authentication hook
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+// Import custom hooks
 import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useIsOffline, useQueuedCount } from '@/hooks/useOffline';
+// Import helper for removing the offline copy of the library
+import { clearPersistedCache } from '@/lib/queryPersistence';
+// Import library export helpers
+import { exportLibraryCsv, exportLibraryJson } from '@/lib/export';
 
 // Header component - navigation bar with logo and user actions
 const Header = () => {
@@ -13,15 +31,49 @@ const Header = () => {
   const { user, signOut } = useAuth();
   // Hook for programmatic navigation after sign out
   const navigate = useNavigate();
+  // Hook for displaying toast notifications
+  const { toast } = useToast();
+  // Query client, cleared on sign out so the next user doesn't see cached books
+  const queryClient = useQueryClient();
+  // State to track if an export is being prepared
+  const [isExporting, setIsExporting] = useState(false);
+  // Connection state and changes waiting to be synced
+  const isOffline = useIsOffline();
+  const queuedCount = useQueuedCount();
 
   // Handler function to sign out user
   const handleSignOut = async () => {
     // Call sign out method from auth context
     await signOut();
+    queryClient.clear();
+    // Remove the offline copy of the library so the next person on this device can't read it
+    if (user) await clearPersistedCache(user.id).catch(() => undefined);
     // Redirect to login page after signing out
     navigate('/login');
   };
 
+  // Handler function to download the library in the chosen format
+  const handleExport = async (exportLibrary: () => Promise<number>) => {
+    setIsExporting(true);
+    try {
+      const count = await exportLibrary();
+      // Show success toast with the number of books exported
+      toast({
+        title: 'Export ready',
+        description: `Exported ${count} ${count === 1 ? 'book' : 'books'}.`,
+      });
+    } catch (error) {
+      // Show error toast if export failed
+      toast({
+        title: 'Error',
+        description: 'Failed to export your library. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   // Render the header
   return (
     // Sticky header that stays at top of viewport
@@ -45,6 +97,31 @@ const Header = () => {
         {/* User actions - only shown when user is logged in */}
         {user && (
           <div className="flex items-center gap-3">
+            {/* Offline indicator, with the number of changes waiting to be synced */}
+            {(isOffline || queuedCount > 0) && (
+              <span
+                className="flex items-center gap-1.5 text-sm text-muted-foreground"
+                title={
+                  isOffline
+                    ? 'Changes are saved on this device and synced when you are back online'
+                    : 'Syncing changes made offline'
+                }
+              >
+                {isOffline ? <CloudOff className="h-4 w-4" /> : <CloudUpload className="h-4 w-4" />}
+                <span className="hidden sm:inline">
+                  {isOffline ? 'Offline' : 'Syncing'}
+                  {queuedCount > 0 && ` · ${queuedCount} pending`}
+                </span>
+              </span>
+            )}
+            {/* Stats link - reading statistics dashboard */}
+            <Button asChild variant="ghost" size="sm" className="text-muted-foreground hover:text-foreground">
+              <Link to="/stats">
+                {/* Chart icon with margin */}
+                <BarChart3 className="h-4 w-4 mr-1.5" />
+                Stats
+              </Link>
+            </Button>
             {/* Add book button - links to new book form */}
             <Button asChild size="sm">
               <Link to="/books/new">
@@ -53,16 +130,64 @@ const Header = () => {
                 Add Book
               </Link>
             </Button>
-            {/* Sign out button */}
-            <Button
-              variant="ghost" // Ghost variant for subtle appearance
-              size="sm"
-              onClick={handleSignOut} // Trigger sign out on click
-              className="text-muted-foreground hover:text-foreground"
-            >
-              {/* Logout icon */}
-              <LogOut className="h-4 w-4" />
-            </Button>
+            {/* User menu - import, export and sign out */}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-muted-foreground hover:text-foreground"
+                  aria-label="User menu"
+                >
+                  {/* Spinner while an export is being prepared */}
+                  {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserRound className="h-4 w-4" />}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-56">
+                {/* Signed-in account */}
+                <DropdownMenuLabel className="font-normal text-muted-foreground truncate">
+                  {user.email}
+                </DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {/* Goodreads library import */}
+                <DropdownMenuItem asChild>
+                  <Link to="/import">
+                    <Upload className="h-4 w-4 mr-2" />
+                    Import from Goodreads
+                  </Link>
+                </DropdownMenuItem>
+                {/* Goodreads-compatible CSV export */}
+                <DropdownMenuItem disabled={isExporting} onSelect={() => handleExport(exportLibraryCsv)}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export as CSV
+                </DropdownMenuItem>
+                {/* JSON backup of the books themselves (not shelves, readings or goals) */}
+                <DropdownMenuItem disabled={isExporting} onSelect={() => handleExport(exportLibraryJson)}>
+                  <FileJson className="h-4 w-4 mr-2" />
+                  Export Books as JSON
+                </DropdownMenuItem>
+                {/* Restore from a JSON backup */}
+                <DropdownMenuItem asChild>
+                  <Link to="/restore">
+                    <ArchiveRestore className="h-4 w-4 mr-2" />
+                    Restore from Backup
+                  </Link>
+                </DropdownMenuItem>
+                {/* Deleted books */}
+                <DropdownMenuItem asChild>
+                  <Link to="/trash">
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Trash
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                {/* Sign out */}
+                <DropdownMenuItem onSelect={handleSignOut}>
+                  <LogOut className="h-4 w-4 mr-2" />
+                  Sign Out
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
         )}
       </div>
@@ -1,24 +1,33 @@
 // Import utility function for merging class names
 import { cn } from '@/lib/utils';
+// Import helpers for deriving and formatting page-based progress
+import { formatProgress, getProgressPercent } from '@/lib/progress';
 
 // Define props interface for ProgressBar component
 interface ProgressBarProps {
-  progress: number; // Progress value from 0 to 100
+  currentPage: number; // Page the reader is currently on
+  pageCount: number | null; // Total pages in the book (optional)
+  legacyProgress?: number | null; // Percentage kept until the page count is entered (optional)
   className?: string; // Optional additional CSS classes
 }
 
 // ProgressBar component - visual indicator of reading progress
-const ProgressBar = ({ progress, className }: ProgressBarProps) => {
+const ProgressBar = ({ currentPage, pageCount, legacyProgress = null, className }: ProgressBarProps) => {
+  // Derive the percentage from pages rather than storing it (a kept percentage is shown as it is)
+  const progress = legacyProgress ?? getProgressPercent(currentPage, pageCount);
+
   // Render the progress bar container
   return (
     // Outer container with optional custom classes
     <div className={cn('w-full', className)}>
-      {/* Header row with label and percentage */}
+      {/* Header row with label and page/percentage summary */}
       <div className="flex items-center justify-between mb-1">
         {/* Progress label text */}
         <span className="text-xs text-muted-foreground">Progress</span>
-        {/* Progress percentage display */}
-        <span className="text-xs font-medium text-foreground">{progress}%</span>
+        {/* Progress display, e.g. "212 / 640 pages (33%)" */}
+        <span className="text-xs font-medium text-foreground">
+          {legacyProgress !== null ? `${legacyProgress}%` : formatProgress(currentPage, pageCount)}
+        </span>
       </div>
       {/* Progress track (background bar) */}
       <div className="h-2 w-full rounded-full bg-muted overflow-hidden">
@@ -26,7 +35,7 @@ const ProgressBar = ({ progress, className }: ProgressBarProps) => {
         <div
           // Styling for the progress fill
           className="h-full rounded-full bg-status-reading transition-all duration-500 ease-out"
-          // Set width dynamically based on progress value
+          // Set width dynamically based on derived progress value
           style={{ width: `${progress}%` }}
         />
       </div>
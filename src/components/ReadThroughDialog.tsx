@@ -0,0 +1,153 @@
+// Import React hooks for state management
+import { useState } from 'react';
+// Import date helper for comparing start and finish dates
+import { startOfDay } from 'date-fns';
+// Import icons from lucide-react icon library
+import { Loader2 } from 'lucide-react';
+// Import UI components from shadcn/ui component library
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+// Import custom components
+import DatePicker from './DatePicker';
+import StarRating from './StarRating';
+// Import toast hook for notifications
+import { useToast } from '@/hooks/use-toast';
+
+// Define interface for the read-through fields edited in the dialog
+export interface ReadThroughFormData {
+  started_at: string | null; // When this reading started
+  finished_at: string | null; // When this reading finished
+  rating: number | null; // Rating for this reading
+  review: string; // Review for this reading
+}
+
+// Define props interface for ReadThroughDialog component
+interface ReadThroughDialogProps {
+  open: boolean; // Whether the dialog is shown
+  onOpenChange: (open: boolean) => void; // Called when the dialog opens or closes
+  title: string; // Dialog title, e.g. "Log a past reading"
+  initialData?: ReadThroughFormData; // Values to edit (empty for a new reading)
+  onSubmit: (data: ReadThroughFormData) => Promise<void>; // Saves the reading
+}
+
+// ReadThroughDialog component - form for adding or editing a single reading of a book
+const ReadThroughDialog = ({ open, onOpenChange, title, initialData, onSubmit }: ReadThroughDialogProps) => {
+  // Hook for displaying toast notifications
+  const { toast } = useToast();
+  // Form state initialized with initial data or blanks
+  const [formData, setFormData] = useState<ReadThroughFormData>(
+    initialData || { started_at: null, finished_at: null, rating: null, review: '' }
+  );
+  // State to track if the reading is being saved
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Form submission handler
+  const handleSubmit = async (e: React.FormEvent) => {
+    // Prevent default form submission (page reload)
+    e.preventDefault();
+
+    // Validate that the reading wasn't finished before it was started
+    if (
+      formData.started_at &&
+      formData.finished_at &&
+      new Date(formData.finished_at) < startOfDay(new Date(formData.started_at))
+    ) {
+      toast({
+        title: 'Invalid dates',
+        description: 'The finish date cannot be before the start date.',
+        variant: 'destructive',
+      });
+      return; // Stop submission
+    }
+
+    // Set saving state to show loading indicator
+    setIsSaving(true);
+    try {
+      await onSubmit(formData);
+      onOpenChange(false);
+    } catch (error) {
+      // Show error toast if save failed
+      toast({
+        title: 'Error',
+        description: 'Failed to save this reading. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      // Reset saving state
+      setIsSaving(false);
+    }
+  };
+
+  // Render the dialog
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="font-serif">{title}</DialogTitle>
+            <DialogDescription>Dates, rating and review for this reading.</DialogDescription>
+          </DialogHeader>
+          {/* Start and finish date pickers */}
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="read_through_started_at">Started</Label>
+              <DatePicker
+                id="read_through_started_at"
+                value={formData.started_at}
+                onChange={(started_at) => setFormData({ ...formData, started_at })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="read_through_finished_at">Finished</Label>
+              <DatePicker
+                id="read_through_finished_at"
+                value={formData.finished_at}
+                onChange={(finished_at) => setFormData({ ...formData, finished_at })}
+              />
+            </div>
+          </div>
+          {/* Rating for this reading */}
+          <div className="space-y-2">
+            <Label>Rating</Label>
+            <StarRating
+              rating={formData.rating}
+              onChange={(rating) => setFormData({ ...formData, rating })}
+              size="lg"
+            />
+          </div>
+          {/* Review for this reading */}
+          <div className="space-y-2">
+            <Label htmlFor="read_through_review">Review</Label>
+            <Textarea
+              id="read_through_review"
+              value={formData.review}
+              onChange={(e) => setFormData({ ...formData, review: e.target.value })}
+              placeholder="What did you think this time?"
+              rows={3}
+              className="bg-background resize-none"
+            />
+          </div>
+          <DialogFooter>
+            {/* Submit button with loading state */}
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// Export ReadThroughDialog component as default export
+export default ReadThroughDialog;
@@ -0,0 +1,371 @@
+// Import React hooks for state management and side effects
+import { useState, useCallback, useEffect } from 'react';
+// Import date helpers for formatting and durations
+import { differenceInCalendarDays, format } from 'date-fns';
+// Import icons from lucide-react icon library
+import { Loader2, Pencil, Plus, RotateCcw, Trash2 } from 'lucide-react';
+// Import UI components from shadcn/ui component library
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+// Import custom components
+import StarRating from './StarRating';
+import ReadThroughDialog, { ReadThroughFormData } from './ReadThroughDialog';
+// Import Supabase client for database operations
+import { supabase } from '@/integrations/supabase/client';
+// Import custom hooks
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useInvalidateBooks, useUpdateBook } from '@/hooks/useBooks';
+// Import conflict error for version-checked updates
+import { BookConflictError } from '@/lib/conflicts';
+// Import helpers for the headline rating preference
+import { deriveRating, getRatingMode, RatingMode } from '@/lib/ratings';
+
+// Define interface for read-through data structure
+interface ReadThrough {
+  id: string; // Unique identifier
+  started_at: string | null; // When this reading started (optional)
+  finished_at: string | null; // When this reading finished (optional)
+  rating: number | null; // Rating for this reading (optional)
+  review: string | null; // Review for this reading (optional)
+}
+
+// Define props interface for ReadThroughTimeline component
+interface ReadThroughTimelineProps {
+  bookId: string; // Book the readings belong to
+  bookStatus: 'want_to_read' | 'reading' | 'read'; // Current status of the book
+  bookRating: number | null; // Book's own rating, used when no reading is rated
+  bookVersion: string; // Book's updated_at, so starting a re-read doesn't overwrite a newer change
+  onRereadStarted: () => void; // Called after the book is moved back to reading
+}
+
+// Format the date range of a reading, e.g. "Mar 3, 2025 – Apr 10, 2025 · 38 days"
+const formatReadingDates = (readThrough: ReadThrough) => {
+  const start = readThrough.started_at ? format(new Date(readThrough.started_at), 'MMM d, yyyy') : null;
+  const end = readThrough.finished_at ? format(new Date(readThrough.finished_at), 'MMM d, yyyy') : null;
+  // Show the length of the reading when both dates are known
+  if (start && end) {
+    const days = differenceInCalendarDays(new Date(readThrough.finished_at), new Date(readThrough.started_at)) + 1;
+    return `${start} – ${end} · ${days} ${days === 1 ? 'day' : 'days'}`;
+  }
+  if (end) return `Finished ${end}`;
+  if (start) return `Started ${start}`;
+  return 'Dates unknown';
+};
+
+// ReadThroughTimeline component - timeline of every reading of a book
+const ReadThroughTimeline = ({
+  bookId,
+  bookStatus,
+  bookRating,
+  bookVersion,
+  onRereadStarted,
+}: ReadThroughTimelineProps) => {
+  // Get current user from auth context
+  const { user } = useAuth();
+  // Hook for displaying toast notifications
+  const { toast } = useToast();
+  // Marks cached books stale so the library shows the changes
+  const invalidateBooks = useInvalidateBooks();
+  // Shared book update (version-checked, queued while offline)
+  const updateBook = useUpdateBook();
+  // State to store the book's readings, most recent first
+  const [readThroughs, setReadThroughs] = useState<ReadThrough[]>([]);
+  // State to track initial loading
+  const [loading, setLoading] = useState(true);
+  // State for the reading being added (null) or edited, undefined when the dialog is closed
+  const [editing, setEditing] = useState<ReadThrough | null | undefined>(undefined);
+  // State to track if a re-read is being started
+  const [isStarting, setIsStarting] = useState(false);
+  // The user's headline rating preference
+  const ratingMode = getRatingMode(user);
+  // Headline rating derived from the readings
+  const headlineRating = deriveRating(readThroughs, bookRating, ratingMode);
+
+  // Async function to fetch the book's readings from Supabase
+  const fetchReadThroughs = useCallback(async () => {
+    try {
+      // Query the read_throughs table for this book, most recent first
+      const { data, error } = await supabase
+        .from('read_throughs')
+        .select('id, started_at, finished_at, rating, review')
+        .eq('book_id', bookId)
+        .order('finished_at', { ascending: false, nullsFirst: true })
+        .order('started_at', { ascending: false });
+
+      // Throw error if query failed
+      if (error) throw error;
+      // Update state with fetched readings or empty array
+      setReadThroughs(data || []);
+    } catch (error) {
+      // Show error toast if fetch failed
+      toast({
+        title: 'Error',
+        description: 'Failed to load reading history.',
+        variant: 'destructive',
+      });
+    } finally {
+      // Set loading to false regardless of outcome
+      setLoading(false);
+    }
+  }, [bookId, toast]);
+
+  // Effect to fetch readings when the book changes
+  useEffect(() => {
+    fetchReadThroughs();
+  }, [fetchReadThroughs, bookStatus]); // Re-run when book or its status changes
+
+  // Save a new or edited reading
+  const handleSave = async (data: ReadThroughFormData) => {
+    // Shared column values for insert and update
+    const values = {
+      started_at: data.started_at,
+      finished_at: data.finished_at,
+      rating: data.rating,
+      review: data.review.trim() || null, // Set to null if empty string
+    };
+    // Update the edited reading, or insert a new one
+    const { error } = editing
+      ? await supabase.from('read_throughs').update(values).eq('id', editing.id)
+      : await supabase.from('read_throughs').insert({ ...values, user_id: user!.id, book_id: bookId });
+
+    // Throw error so the dialog can report it
+    if (error) throw error;
+    // Reload the timeline, and the library's derived ratings and read counts
+    await fetchReadThroughs();
+    invalidateBooks();
+  };
+
+  // Delete a reading
+  const handleDelete = async (id: string) => {
+    try {
+      // Delete the reading from Supabase
+      const { error } = await supabase.from('read_throughs').delete().eq('id', id);
+      // Throw error if delete failed
+      if (error) throw error;
+      // Remove the reading from local state
+      setReadThroughs((prev) => prev.filter((readThrough) => readThrough.id !== id));
+      invalidateBooks();
+    } catch (error) {
+      // Show error toast if delete failed
+      toast({
+        title: 'Error',
+        description: 'Failed to delete this reading. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Start reading the book again from the first page - the new start date tells the database this is a
+  // re-read (moving back to reading without one resumes the last reading), and its rating and review stay
+  // on the last reading's read-through
+  const handleStartReread = async (version = bookVersion) => {
+    setIsStarting(true);
+    try {
+      const { queued } = await updateBook.mutateAsync({
+        id: bookId,
+        changes: { status: 'reading', current_page: 0, started_at: new Date().toISOString() },
+        version,
+      });
+      // Let the parent reload the book
+      onRereadStarted();
+      if (queued) {
+        toast({
+          title: 'Saved offline',
+          description: "Your re-read will be synced when you're back online.",
+        });
+      }
+    } catch (error) {
+      if (error instanceof BookConflictError && error.latest?.status === 'read') {
+        // Changed somewhere else but still finished - start the re-read from that version
+        await handleStartReread(error.latest.updated_at);
+        return;
+      }
+      // Show error toast if update failed (or the book isn't finished anymore)
+      toast({
+        title: 'Error',
+        description:
+          error instanceof BookConflictError
+            ? 'This book was changed somewhere else. Please check it and try again.'
+            : 'Failed to start a re-read. Please try again.',
+        variant: 'destructive',
+      });
+      // Reload the book to show the change made somewhere else
+      if (error instanceof BookConflictError) onRereadStarted();
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  // Save the headline rating preference to the user's profile
+  const handleRatingModeChange = async (mode: RatingMode) => {
+    const { error } = await supabase.auth.updateUser({ data: { rating_mode: mode } });
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to save your rating preference.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Show loading spinner while fetching readings
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  // Render the headline rating, timeline and actions
+  return (
+    <div className="space-y-6">
+      {/* Headline rating with the mode selector */}
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <StarRating rating={headlineRating && Math.round(headlineRating)} readonly />
+          {headlineRating !== null && (
+            <span className="text-sm text-muted-foreground">{headlineRating}</span>
+          )}
+        </div>
+        <Select value={ratingMode} onValueChange={handleRatingModeChange}>
+          <SelectTrigger className="w-44 bg-background">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="latest">Latest reading</SelectItem>
+            <SelectItem value="average">Average of readings</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Timeline of readings, most recent first */}
+      {readThroughs.length > 0 ? (
+        <ol className="relative border-l border-border ml-2 space-y-6">
+          {readThroughs.map((readThrough, index) => (
+            <li key={readThrough.id} className="ml-5">
+              {/* Timeline dot */}
+              <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+              <div className="flex items-start justify-between gap-2">
+                <div className="space-y-1">
+                  {/* Reading number and dates */}
+                  <p className="text-sm font-medium text-foreground">
+                    Reading {readThroughs.length - index}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{formatReadingDates(readThrough)}</p>
+                  {/* Rating for this reading (only shown if rated) */}
+                  {readThrough.rating && <StarRating rating={readThrough.rating} readonly size="sm" />}
+                  {/* Review for this reading (only shown if present) */}
+                  {readThrough.review && (
+                    <p className="text-sm text-muted-foreground whitespace-pre-line">{readThrough.review}</p>
+                  )}
+                </div>
+                {/* Edit and delete actions */}
+                <div className="flex">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => setEditing(readThrough)}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete this reading?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Its dates, rating and review will be removed. The book stays in your library.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => handleDelete(readThrough.id)}>
+                          Delete
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        // Empty state
+        <p className="text-sm text-muted-foreground text-center py-2">
+          No finished readings yet. Marking the book as read adds one automatically.
+        </p>
+      )}
+
+      {/* Actions: log a past reading, or start a re-read of a finished book */}
+      <div className="flex gap-3">
+        <Button variant="outline" className="flex-1" onClick={() => setEditing(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Log Past Reading
+        </Button>
+        {bookStatus === 'read' && (
+          <Button variant="outline" className="flex-1" onClick={() => handleStartReread()} disabled={isStarting}>
+            {isStarting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <RotateCcw className="h-4 w-4 mr-2" />
+            )}
+            Start Re-read
+          </Button>
+        )}
+      </div>
+
+      {/* Add/edit dialog (remounted for each reading so it starts from fresh values) */}
+      {editing !== undefined && (
+        <ReadThroughDialog
+          key={editing?.id ?? 'new'}
+          open
+          onOpenChange={(open) => !open && setEditing(undefined)}
+          title={editing ? 'Edit Reading' : 'Log a Past Reading'}
+          initialData={
+            editing
+              ? {
+                  started_at: editing.started_at,
+                  finished_at: editing.finished_at,
+                  rating: editing.rating,
+                  review: editing.review || '',
+                }
+              : undefined
+          }
+          onSubmit={handleSave}
+        />
+      )}
+    </div>
+  );
+};
+
+// Export ReadThroughTimeline component as default export
+export default ReadThroughTimeline;
@@ -0,0 +1,321 @@
+// Import React hooks for state management and side effects
+import { useState, useCallback, useEffect } from 'react';
+// Import icons from lucide-react icon library
+import { Loader2, Play, Square, Timer } from 'lucide-react';
+// Import date formatting helper
+import { format } from 'date-fns';
+// Import UI components from shadcn/ui component library
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+// Import Supabase client for database operations
+import { supabase } from '@/integrations/supabase/client';
+// Import custom hooks
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+// Import helpers for progress parsing and session durations
+import { parseProgressInput } from '@/lib/progress';
+import { formatDuration, formatTimer, getSessionDuration } from '@/lib/sessions';
+
+// Define interface for reading session data structure
+interface ReadingSession {
+  id: string; // Unique identifier
+  started_at: string; // When the session was started
+  ended_at: string | null; // When the session was stopped (null while running)
+  start_page: number | null; // Page at the start of the session
+  end_page: number | null; // Page at the end of the session
+  note: string | null; // Optional note about the session
+}
+
+// Define props interface for ReadingTimer component
+interface ReadingTimerProps {
+  bookId: string; // Book the sessions belong to
+  currentPage: number; // Book's current page, used as the session start page
+  pageCount: number | null; // Book's page count, used to validate the end page
+  onProgressUpdate: (currentPage: number) => void; // Called after the book's progress is updated
+}
+
+// ReadingTimer component - starts/stops reading sessions and shows the session log
+const ReadingTimer = ({ bookId, currentPage, pageCount, onProgressUpdate }: ReadingTimerProps) => {
+  // Get current user from auth context
+  const { user } = useAuth();
+  // Hook for displaying toast notifications
+  const { toast } = useToast();
+  // State to store the book's sessions, newest first
+  const [sessions, setSessions] = useState<ReadingSession[]>([]);
+  // State to track initial loading
+  const [loading, setLoading] = useState(true);
+  // State to track if a start/stop request is in progress
+  const [isSaving, setIsSaving] = useState(false);
+  // State for the current time, ticking while a session runs
+  const [now, setNow] = useState(Date.now());
+  // State for the end page input shown while a session runs
+  const [endPageInput, setEndPageInput] = useState('');
+  // State for the note input shown while a session runs
+  const [note, setNote] = useState('');
+
+  // The running session, if any (at most one per book)
+  const activeSession = sessions.find((session) => !session.ended_at);
+  // Finished sessions for the log
+  const finishedSessions = sessions.filter((session) => session.ended_at);
+  // Total time spent across finished sessions
+  const totalDuration = finishedSessions.reduce(
+    (total, session) => total + getSessionDuration(session.started_at, session.ended_at),
+    0
+  );
+
+  // Async function to fetch the book's sessions from Supabase
+  const fetchSessions = useCallback(async () => {
+    try {
+      // Query the reading_sessions table for this book
+      const { data, error } = await supabase
+        .from('reading_sessions') // Target reading_sessions table
+        .select('id, started_at, ended_at, start_page, end_page, note') // Select fields
+        .eq('book_id', bookId) // Filter by book ID
+        .order('started_at', { ascending: false }); // Sort by newest first
+
+      // Throw error if query failed
+      if (error) throw error;
+      // Update state with fetched sessions or empty array
+      setSessions(data || []);
+    } catch (error) {
+      // Show error toast if fetch failed
+      toast({
+        title: 'Error',
+        description: 'Failed to load reading sessions.',
+        variant: 'destructive',
+      });
+    } finally {
+      // Set loading to false regardless of outcome
+      setLoading(false);
+    }
+  }, [bookId, toast]);
+
+  // Effect to fetch sessions when the book changes
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]); // Re-run when book changes
+
+  // Effect to tick the timer every second while a session runs
+  useEffect(() => {
+    // Nothing to tick without a running session
+    if (!activeSession) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    // Clear the interval when the session stops or the component unmounts
+    return () => clearInterval(interval);
+  }, [activeSession]);
+
+  // Handler function to start a new session at the book's current page
+  const handleStart = async () => {
+    // Return early if user is not logged in
+    if (!user) return;
+
+    // Set saving state to show loading indicator
+    setIsSaving(true);
+    try {
+      // Insert the new session and return it
+      const { data, error } = await supabase
+        .from('reading_sessions')
+        .insert({
+          user_id: user.id, // Associate session with current user
+          book_id: bookId,
+          start_page: currentPage, // Start from where the reader left off
+        })
+        .select('id, started_at, ended_at, start_page, end_page, note')
+        .single();
+
+      // Throw error if insert failed
+      if (error) throw error;
+
+      // Add the running session to the top of the list and reset the stop inputs
+      setSessions((prevSessions) => [data, ...prevSessions]);
+      setNow(Date.now());
+      setEndPageInput(currentPage ? String(currentPage) : '');
+      setNote('');
+    } catch (error) {
+      // Show error toast if start failed
+      toast({
+        title: 'Error',
+        description: 'Failed to start reading session. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      // Reset saving state
+      setIsSaving(false);
+    }
+  };
+
+  // Handler function to stop the running session and update the book's progress
+  const handleStop = async () => {
+    // Return early if there is no running session
+    if (!activeSession) return;
+
+    // Parse the end page (accepts a page or a percentage)
+    const parsedEndPage = parseProgressInput(endPageInput, pageCount);
+    if (parsedEndPage.error) {
+      // Show error toast explaining the expected format
+      toast({
+        title: 'Invalid page',
+        description: parsedEndPage.error,
+        variant: 'destructive',
+      });
+      return; // Stop here
+    }
+
+    // Set saving state to show loading indicator
+    setIsSaving(true);
+    try {
+      // Close the session with the end time, end page and note, and move the book's progress to
+      // the end page - both in one transaction, so neither is saved without the other
+      const { data, error } = await supabase.rpc('stop_reading_session', {
+        p_session_id: activeSession.id,
+        p_end_page: parsedEndPage.currentPage,
+        p_note: note.trim() || null, // Set to null if empty string
+      });
+
+      // Throw error if stopping failed
+      if (error) throw error;
+
+      // Replace the running session with the finished one
+      setSessions((prevSessions) =>
+        prevSessions.map((session) => (session.id === data.id ? data : session))
+      );
+      // Let the parent refresh its copy of the book
+      onProgressUpdate(parsedEndPage.currentPage);
+
+      // Show success toast with session length
+      toast({
+        title: 'Session saved',
+        description: `You read for ${formatDuration(
+          getSessionDuration(data.started_at, data.ended_at)
+        )}.`,
+      });
+    } catch (error) {
+      // Show error toast if stop failed
+      toast({
+        title: 'Error',
+        description: 'Failed to save reading session. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      // Reset saving state
+      setIsSaving(false);
+    }
+  };
+
+  // Show loading spinner while fetching sessions
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  // Render the timer and the session log
+  return (
+    <div className="space-y-6">
+      {activeSession ? (
+        // Running session: elapsed time plus end page and note inputs
+        <div className="space-y-4 rounded-lg border border-border p-4">
+          {/* Elapsed time display */}
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">
+              Reading since {format(new Date(activeSession.started_at), 'p')}
+            </span>
+            <span className="font-mono text-2xl font-semibold text-foreground">
+              {formatTimer(getSessionDuration(activeSession.started_at, null, now))}
+            </span>
+          </div>
+          {/* End page input - accepts a page or a percentage */}
+          <div className="space-y-2">
+            <Label htmlFor="end_page">Stopped at</Label>
+            <Input
+              id="end_page"
+              value={endPageInput}
+              onChange={(e) => setEndPageInput(e.target.value)}
+              placeholder='e.g. "page 240" or "40%"'
+              className="bg-background"
+            />
+          </div>
+          {/* Optional session note */}
+          <div className="space-y-2">
+            <Label htmlFor="session_note">Note</Label>
+            <Textarea
+              id="session_note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Anything worth remembering from this session?"
+              rows={2}
+              className="bg-background resize-none"
+            />
+          </div>
+          {/* Stop button */}
+          <Button onClick={handleStop} disabled={isSaving} className="w-full">
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Square className="h-4 w-4 mr-2" />
+            )}
+            Stop Session
+          </Button>
+        </div>
+      ) : (
+        // No running session: start button
+        <Button onClick={handleStart} disabled={isSaving} variant="outline" className="w-full">
+          {isSaving ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Play className="h-4 w-4 mr-2" />
+          )}
+          Start Reading Session
+        </Button>
+      )}
+
+      {/* Session log */}
+      {finishedSessions.length > 0 && (
+        <div className="space-y-3">
+          {/* Log heading with total time spent */}
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium text-foreground">Session Log</h4>
+            <span className="flex items-center text-xs text-muted-foreground">
+              <Timer className="h-3 w-3 mr-1" />
+              {formatDuration(totalDuration)} total
+            </span>
+          </div>
+          {/* One row per finished session */}
+          <ul className="divide-y divide-border rounded-lg border border-border">
+            {finishedSessions.map((session) => (
+              <li key={session.id} className="p-3 text-sm">
+                <div className="flex items-center justify-between">
+                  {/* Session date */}
+                  <span className="text-foreground">
+                    {format(new Date(session.started_at), 'MMM d, yyyy')}
+                  </span>
+                  {/* Session length */}
+                  <span className="text-muted-foreground">
+                    {formatDuration(getSessionDuration(session.started_at, session.ended_at))}
+                  </span>
+                </div>
+                {/* Pages covered (only shown when both pages are known) */}
+                {session.start_page !== null && session.end_page !== null && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Pages {session.start_page}–{session.end_page}
+                  </p>
+                )}
+                {/* Session note (only shown if present) */}
+                {session.note && (
+                  <p className="text-xs text-muted-foreground mt-1 italic">{session.note}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Export ReadingTimer component as default export
+export default ReadingTimer;
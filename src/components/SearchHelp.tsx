@@ -0,0 +1,57 @@
+// Import icon from lucide-react
+import { HelpCircle } from 'lucide-react';
+// Import UI components from shadcn/ui component library
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+
+// Example queries shown in the help, with what they find
+const examples = [
+  { query: 'status:read rating>=4', description: 'Read books rated 4 or 5 stars' },
+  { query: 'author:"le guin"', description: 'Author contains a phrase' },
+  { query: 'fav:yes finished:2024', description: 'Favourites finished in 2024' },
+  { query: 'pages<300 -status:read', description: 'Short books not yet read' },
+  { query: 'dune OR foundation', description: 'Either word' },
+  { query: 'rating:none', description: 'Books without a rating' },
+];
+
+// Fields that can be used before ":" or a comparison
+const fields = 'title, author, review, status, fav, rating, pages, started, finished, added';
+
+// SearchHelp component - a help button explaining the search box query language
+const SearchHelp = () => {
+  // Render the help popover
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="absolute right-1 top-1/2 -translate-y-1/2 h-8 w-8 text-muted-foreground"
+          aria-label="Search syntax help"
+        >
+          <HelpCircle className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3 text-sm">
+        <p className="text-muted-foreground">
+          Plain words search titles, authors and reviews. Add filters to narrow the results:
+        </p>
+        {/* Example queries */}
+        <dl className="space-y-2">
+          {examples.map((example) => (
+            <div key={example.query}>
+              <dt className="font-mono text-xs text-foreground">{example.query}</dt>
+              <dd className="text-muted-foreground">{example.description}</dd>
+            </div>
+          ))}
+        </dl>
+        <p className="text-muted-foreground">
+          Fields: {fields}. Put a <span className="font-mono">-</span> in front of any term to exclude it.
+        </p>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+// Export SearchHelp component as default export
+export default SearchHelp;
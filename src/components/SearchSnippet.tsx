@@ -0,0 +1,35 @@
+// Import icon from lucide-react
+import { Quote } from 'lucide-react';
+
+// Define props interface for SearchSnippet component
+interface SearchSnippetProps {
+  snippet: string; // Extract from search_snippets, with matches wrapped in <mark></mark>
+}
+
+// SearchSnippet component - shows a review extract with the words that matched a search highlighted
+// The extract is user text, so it is rendered as text and only the <mark> markers are interpreted
+const SearchSnippet = ({ snippet }: SearchSnippetProps) => {
+  // Splitting on the markers leaves matched words at the odd indexes
+  const parts = snippet.split(/<\/?mark>/);
+
+  // Render the extract
+  return (
+    <p className="flex gap-1.5 text-sm text-muted-foreground">
+      <Quote className="h-3 w-3 mt-1 flex-shrink-0" />
+      <span className="line-clamp-3">
+        {parts.map((part, index) =>
+          index % 2 === 1 ? (
+            <mark key={index} className="rounded-sm bg-primary/15 px-0.5 text-foreground">
+              {part}
+            </mark>
+          ) : (
+            part
+          )
+        )}
+      </span>
+    </p>
+  );
+};
+
+// Export SearchSnippet component as default export
+export default SearchSnippet;
@@ -0,0 +1,188 @@
+// Import useState hook for editing state
+import { useState } from 'react';
+// Import icons from lucide-react icon library
+import { Check, Library, Pencil, Trash2, X } from 'lucide-react';
+// Import UI components from shadcn/ui component library
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+// Import toast hook for notifications
+import { useToast } from '@/hooks/use-toast';
+// Import shelf type
+import type { Shelf } from '@/lib/shelves';
+
+// Define props interface for ShelfManager component
+interface ShelfManagerProps {
+  shelves: Shelf[]; // All of the user's shelves
+  onRename: (id: string, name: string) => Promise<void>; // Renames a shelf
+  onDelete: (id: string) => Promise<void>; // Deletes a shelf (books are kept)
+}
+
+// ShelfManager component - dialog for renaming and deleting shelves
+const ShelfManager = ({ shelves, onRename, onDelete }: ShelfManagerProps) => {
+  // Hook for displaying toast notifications
+  const { toast } = useToast();
+  // State for the shelf currently being renamed
+  const [editingId, setEditingId] = useState<string | null>(null);
+  // State for the new name of the shelf being renamed
+  const [editingName, setEditingName] = useState('');
+
+  // Start renaming a shelf
+  const startEditing = (shelf: Shelf) => {
+    setEditingId(shelf.id);
+    setEditingName(shelf.name);
+  };
+
+  // Save the new shelf name
+  const handleRename = async () => {
+    // Ignore empty names
+    if (!editingId || !editingName.trim()) return;
+    try {
+      await onRename(editingId, editingName);
+      setEditingId(null);
+    } catch (error) {
+      // Show error toast if rename failed (e.g. duplicate name)
+      toast({
+        title: 'Error',
+        description: 'Failed to rename shelf. Shelf names must be unique.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Delete a shelf
+  const handleDelete = async (shelf: Shelf) => {
+    try {
+      await onDelete(shelf.id);
+      // Show success toast
+      toast({
+        title: 'Shelf deleted',
+        description: `"${shelf.name}" was removed. Its books are still in your library.`,
+      });
+    } catch (error) {
+      // Show error toast if delete failed
+      toast({
+        title: 'Error',
+        description: 'Failed to delete shelf. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Render the dialog with its trigger button
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="bg-background">
+          <Library className="h-4 w-4 mr-2" />
+          Shelves
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="font-serif">Manage Shelves</DialogTitle>
+          <DialogDescription>
+            Rename or delete shelves. Deleting a shelf never deletes its books.
+          </DialogDescription>
+        </DialogHeader>
+        {shelves.length === 0 ? (
+          // Empty state - shelves are created from the book form
+          <p className="text-sm text-muted-foreground py-4 text-center">
+            You have no shelves yet. Create one when adding or editing a book.
+          </p>
+        ) : (
+          <ul className="divide-y divide-border rounded-lg border border-border">
+            {shelves.map((shelf) => (
+              <li key={shelf.id} className="flex items-center gap-2 p-2">
+                {editingId === shelf.id ? (
+                  // Inline rename input with save/cancel buttons
+                  <>
+                    <Input
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+                      className="h-8 bg-background"
+                      autoFocus
+                    />
+                    <Button size="icon" variant="ghost" className="h-8 w-8" onClick={handleRename}>
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      onClick={() => setEditingId(null)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : (
+                  // Shelf name with rename and delete buttons
+                  <>
+                    <span className="flex-1 truncate text-sm">{shelf.name}</span>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      onClick={() => startEditing(shelf)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    {/* Delete button with confirmation dialog */}
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8 text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete shelf?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            "{shelf.name}" will be removed from every book on it. The books
+                            themselves stay in your library.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => handleDelete(shelf)}>
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// Export ShelfManager component as default export
+export default ShelfManager;
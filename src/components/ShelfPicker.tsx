@@ -0,0 +1,167 @@
+// Import useState hook for the search text
+import { useState } from 'react';
+// Import icons from lucide-react icon library
+import { Check, ChevronsUpDown, Plus, X } from 'lucide-react';
+// Import UI components from shadcn/ui component library
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+// Import utility function for merging class names
+import { cn } from '@/lib/utils';
+// Import toast hook for notifications
+import { useToast } from '@/hooks/use-toast';
+// Import shelf type
+import type { Shelf } from '@/lib/shelves';
+
+// Define props interface for ShelfPicker component
+interface ShelfPickerProps {
+  shelves: Shelf[]; // All of the user's shelves
+  selectedIds: string[]; // IDs of the shelves the book is on
+  onChange: (selectedIds: string[]) => void; // Called with the new selection
+  onCreate: (name: string) => Promise<Shelf>; // Creates a new shelf from the search text
+}
+
+// ShelfPicker component - multi-select for assigning a book to shelves
+const ShelfPicker = ({ shelves, selectedIds, onChange, onCreate }: ShelfPickerProps) => {
+  // Hook for displaying toast notifications
+  const { toast } = useToast();
+  // State to track whether the dropdown is open
+  const [open, setOpen] = useState(false);
+  // State for the search text, also used as the name of a new shelf
+  const [search, setSearch] = useState('');
+  // State to track if a shelf is being created
+  const [isCreating, setIsCreating] = useState(false);
+
+  // Shelves currently selected, in alphabetical order
+  const selectedShelves = shelves.filter((shelf) => selectedIds.includes(shelf.id));
+  // Whether the search text exactly matches an existing shelf (case-insensitive)
+  const exactMatch = shelves.some(
+    (shelf) => shelf.name.toLowerCase() === search.trim().toLowerCase()
+  );
+
+  // Toggle a shelf in or out of the selection
+  const toggleShelf = (id: string) => {
+    onChange(
+      selectedIds.includes(id)
+        ? selectedIds.filter((selectedId) => selectedId !== id)
+        : [...selectedIds, id]
+    );
+  };
+
+  // Create a shelf from the search text and select it
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const shelf = await onCreate(search);
+      onChange([...selectedIds, shelf.id]);
+      setSearch('');
+    } catch (error) {
+      // Show error toast if create failed (e.g. duplicate name)
+      toast({
+        title: 'Error',
+        description: 'Failed to create shelf. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  // Render the selected chips and the dropdown
+  return (
+    <div className="space-y-2">
+      {/* Dropdown for choosing shelves */}
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            type="button" // Prevent form submission
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className="w-full justify-between bg-background font-normal"
+          >
+            {selectedShelves.length > 0
+              ? `${selectedShelves.length} ${selectedShelves.length === 1 ? 'shelf' : 'shelves'} selected`
+              : 'Choose shelves...'}
+            <ChevronsUpDown className="h-4 w-4 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+          <Command>
+            {/* Search input filters shelves and names new ones */}
+            <CommandInput
+              placeholder="Search or create a shelf..."
+              value={search}
+              onValueChange={setSearch}
+            />
+            <CommandList>
+              <CommandEmpty>No shelves found.</CommandEmpty>
+              {/* Existing shelves with a check mark when selected */}
+              <CommandGroup>
+                {shelves.map((shelf) => (
+                  <CommandItem
+                    key={shelf.id}
+                    value={shelf.name}
+                    onSelect={() => toggleShelf(shelf.id)}
+                  >
+                    <Check
+                      className={cn(
+                        'h-4 w-4 mr-2',
+                        selectedIds.includes(shelf.id) ? 'opacity-100' : 'opacity-0'
+                      )}
+                    />
+                    {shelf.name}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+              {/* Option to create a shelf from the search text */}
+              {search.trim() && !exactMatch && (
+                <CommandGroup forceMount>
+                  <CommandItem
+                    value={`create:${search}`}
+                    onSelect={handleCreate}
+                    disabled={isCreating}
+                    forceMount
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Create "{search.trim()}"
+                  </CommandItem>
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      {/* Selected shelves as removable chips */}
+      {selectedShelves.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {selectedShelves.map((shelf) => (
+            <Badge key={shelf.id} variant="secondary" className="gap-1 font-normal">
+              {shelf.name}
+              <button
+                type="button" // Prevent form submission
+                onClick={() => toggleShelf(shelf.id)}
+                className="rounded-full hover:text-foreground"
+                aria-label={`Remove from ${shelf.name}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Export ShelfPicker component as default export
+export default ShelfPicker;
@@ -0,0 +1,399 @@
+// Import React hooks for state management and side effects
+import { useState, useEffect, useRef } from 'react';
+// Import icons from lucide-react icon library
+import { Loader2, Plus, Trash2, X } from 'lucide-react';
+// Import UI components from shadcn/ui component library
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+// Import toast hook for notifications
+import { useToast } from '@/hooks/use-toast';
+// Import utility function for merging class names
+import { cn } from '@/lib/utils';
+// Import smart shelf rule helpers
+import {
+  createRule,
+  createRuleGroup,
+  getRuleOperators,
+  getRuleValueOptions,
+  getRuleValuePlaceholder,
+  isRuleGroup,
+  RuleOperator,
+  ruleNeedsValue,
+  SmartShelf,
+  SmartShelfGroup,
+  SmartShelfRule,
+  smartShelfFields,
+  validateRule,
+} from '@/lib/smartShelves';
+
+// Rules a new smart shelf starts with
+const NEW_SHELF_RULES: SmartShelfGroup = { match: 'all', rules: [createRule()] };
+
+// Whether a group has a rule with a mistake, or a group without rules
+const hasRuleErrors = (group: SmartShelfGroup): boolean =>
+  group.rules.length === 0 ||
+  group.rules.some((item) => (isRuleGroup(item) ? hasRuleErrors(item) : validateRule(item) !== null));
+
+// Define props interface for RuleRow component
+interface RuleRowProps {
+  rule: SmartShelfRule; // The rule being edited
+  showErrors: boolean; // Whether to show what's wrong with the rule
+  onChange: (rule: SmartShelfRule) => void; // Called with the changed rule
+  onRemove: () => void; // Removes the rule
+}
+
+// RuleRow component - field, operator and value for a single rule
+const RuleRow = ({ rule, showErrors, onChange, onRemove }: RuleRowProps) => {
+  // Choices for the value (null when it is typed)
+  const valueOptions = getRuleValueOptions(rule.field);
+  // Problem with the rule, once saving has been attempted
+  const error = showErrors ? validateRule(rule) : null;
+
+  // Change the operator, keeping the value where it still applies
+  const handleOperatorChange = (operator: RuleOperator) => {
+    const value = ruleNeedsValue(operator) ? rule.value || (valueOptions?.[0].value ?? '') : '';
+    onChange({ ...rule, operator, value });
+  };
+
+  // Render the rule row
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap sm:flex-nowrap items-center gap-2">
+        {/* Field dropdown - changing field starts the rule again, as operators differ */}
+        <Select value={rule.field} onValueChange={(field) => onChange(createRule(field))}>
+          <SelectTrigger className="w-32 bg-background" aria-label="Field">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {smartShelfFields.map((field) => (
+              <SelectItem key={field.name} value={field.name}>
+                {field.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {/* Operator dropdown - only the operators the field supports */}
+        <Select value={rule.operator} onValueChange={handleOperatorChange}>
+          <SelectTrigger className="w-36 bg-background" aria-label="Operator">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {getRuleOperators(rule.field).map((operator) => (
+              <SelectItem key={operator.value} value={operator.value}>
+                {operator.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {/* Value - a dropdown for fixed choices, otherwise typed (none for is empty / is not empty) */}
+        {ruleNeedsValue(rule.operator) &&
+          (valueOptions ? (
+            <Select value={rule.value} onValueChange={(value) => onChange({ ...rule, value })}>
+              <SelectTrigger className="flex-1 min-w-32 bg-background" aria-label="Value">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {valueOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <Input
+              value={rule.value}
+              onChange={(e) => onChange({ ...rule, value: e.target.value })}
+              placeholder={getRuleValuePlaceholder(rule.field)}
+              className={cn('flex-1 min-w-32 bg-background', error && 'border-destructive')}
+              aria-label="Value"
+              aria-invalid={Boolean(error)}
+            />
+          ))}
+        {/* Remove rule button */}
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-8 w-8 ml-auto flex-shrink-0 text-muted-foreground"
+          onClick={onRemove}
+          aria-label="Remove rule"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      {/* Inline hint for a mistake in the rule */}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+};
+
+// Define props interface for RuleGroupEditor component
+interface RuleGroupEditorProps {
+  group: SmartShelfGroup; // The group being edited
+  nested?: boolean; // Whether this is a group inside the shelf's rules (groups only go one level deep)
+  showErrors: boolean; // Whether to show what's wrong with the rules
+  onChange: (group: SmartShelfGroup) => void; // Called with the changed group
+  onRemove?: () => void; // Removes a nested group
+}
+
+// RuleGroupEditor component - a list of rules combined with all/any, with nested groups
+const RuleGroupEditor = ({ group, nested = false, showErrors, onChange, onRemove }: RuleGroupEditorProps) => {
+  // Replace the rule or group at a position
+  const setItem = (index: number, item: SmartShelfRule | SmartShelfGroup) =>
+    onChange({ ...group, rules: group.rules.map((current, i) => (i === index ? item : current)) });
+
+  // Remove the rule or group at a position
+  const removeItem = (index: number) =>
+    onChange({ ...group, rules: group.rules.filter((_, i) => i !== index) });
+
+  // Render the group
+  return (
+    <div className={cn('space-y-3', nested && 'rounded-lg border border-border bg-muted/30 p-3')}>
+      {/* All/any choice */}
+      <div className="flex items-center gap-2 text-sm">
+        <span>Match</span>
+        <Select
+          value={group.match}
+          onValueChange={(match: SmartShelfGroup['match']) => onChange({ ...group, match })}
+        >
+          <SelectTrigger className="h-8 w-20 bg-background" aria-label="Match">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">all</SelectItem>
+            <SelectItem value="any">any</SelectItem>
+          </SelectContent>
+        </Select>
+        <span>of {nested ? 'these rules' : 'the following'}</span>
+        {/* Remove group button */}
+        {onRemove && (
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8 ml-auto text-muted-foreground"
+            onClick={onRemove}
+            aria-label="Remove group"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      {/* Rules and nested groups */}
+      {group.rules.map((item, index) =>
+        isRuleGroup(item) ? (
+          <RuleGroupEditor
+            key={index}
+            group={item}
+            nested
+            showErrors={showErrors}
+            onChange={(changed) => setItem(index, changed)}
+            onRemove={() => removeItem(index)}
+          />
+        ) : (
+          <RuleRow
+            key={index}
+            rule={item}
+            showErrors={showErrors}
+            onChange={(changed) => setItem(index, changed)}
+            onRemove={() => removeItem(index)}
+          />
+        )
+      )}
+      {/* Hint for a group left without rules */}
+      {showErrors && group.rules.length === 0 && (
+        <p className="text-sm text-destructive">Add at least one rule</p>
+      )}
+      {/* Buttons for adding rules and groups */}
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...group, rules: [...group.rules, createRule()] })}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add rule
+        </Button>
+        {!nested && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ ...group, rules: [...group.rules, createRuleGroup()] })}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add group
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Define props interface for SmartShelfEditor component
+interface SmartShelfEditorProps {
+  open: boolean; // Whether the dialog is shown
+  smartShelf: SmartShelf | null; // Smart shelf being edited (null to create one)
+  onOpenChange: (open: boolean) => void; // Called when the dialog opens or closes
+  onSave: (name: string, rules: SmartShelfGroup) => Promise<void>; // Creates or updates the smart shelf
+  onDelete: () => Promise<void>; // Deletes the smart shelf being edited
+}
+
+// SmartShelfEditor component - dialog for naming a smart shelf and building its rules
+const SmartShelfEditor = ({ open, smartShelf, onOpenChange, onSave, onDelete }: SmartShelfEditorProps) => {
+  // Hook for displaying toast notifications
+  const { toast } = useToast();
+  // State for the shelf name
+  const [name, setName] = useState('');
+  // State for the rules being built
+  const [rules, setRules] = useState<SmartShelfGroup>(NEW_SHELF_RULES);
+  // State to show mistakes once saving has been attempted
+  const [showErrors, setShowErrors] = useState(false);
+  // State to track if the shelf is being saved
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Latest shelf being edited, read when the dialog opens so a refetch doesn't wipe edits in progress
+  const smartShelfRef = useRef(smartShelf);
+  smartShelfRef.current = smartShelf;
+
+  // Effect to start from the shelf being edited (or a blank one) each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setName(smartShelfRef.current?.name ?? '');
+    setRules(smartShelfRef.current?.rules ?? NEW_SHELF_RULES);
+    setShowErrors(false);
+  }, [open]); // Re-run when the dialog opens or closes
+
+  // Save the shelf, or show what needs fixing
+  const handleSave = async () => {
+    setShowErrors(true);
+    if (!name.trim() || hasRuleErrors(rules)) return;
+    setIsSaving(true);
+    try {
+      await onSave(name, rules);
+      onOpenChange(false);
+    } catch (error) {
+      // Show error toast if save failed (e.g. duplicate name)
+      toast({
+        title: 'Error',
+        description: 'Failed to save smart shelf. Smart shelf names must be unique.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Delete the shelf being edited
+  const handleDelete = async () => {
+    try {
+      await onDelete();
+      onOpenChange(false);
+      // Show success toast
+      toast({
+        title: 'Smart shelf deleted',
+        description: `"${smartShelf?.name}" was removed. Your books haven't changed.`,
+      });
+    } catch (error) {
+      // Show error toast if delete failed
+      toast({
+        title: 'Error',
+        description: 'Failed to delete smart shelf. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Render the dialog
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-serif">{smartShelf ? 'Edit Smart Shelf' : 'New Smart Shelf'}</DialogTitle>
+          <DialogDescription>
+            Smart shelves fill themselves with every book matching their rules, and stay up to date as your
+            books change.
+          </DialogDescription>
+        </DialogHeader>
+        {/* Shelf name */}
+        <div className="space-y-2">
+          <Label htmlFor="smart-shelf-name">Name</Label>
+          <Input
+            id="smart-shelf-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Loved this year"
+            className={cn('bg-background', showErrors && !name.trim() && 'border-destructive')}
+          />
+          {showErrors && !name.trim() && <p className="text-sm text-destructive">Give the shelf a name</p>}
+        </div>
+        {/* Rule builder */}
+        <RuleGroupEditor group={rules} showErrors={showErrors} onChange={setRules} />
+        <DialogFooter className="gap-2 sm:justify-between">
+          {/* Delete button with confirmation dialog (existing shelves only) */}
+          {smartShelf ? (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="ghost" className="text-destructive hover:text-destructive">
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete smart shelf?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    "{smartShelf.name}" and its rules will be removed. The books on it stay in your library.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          ) : (
+            <span />
+          )}
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// Export SmartShelfEditor component as default export
+export default SmartShelfEditor;
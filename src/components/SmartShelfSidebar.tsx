@@ -0,0 +1,123 @@
+// Import useState hook for the editor dialog
+import { useState } from 'react';
+// Import icons from lucide-react icon library
+import { BookOpen, Pencil, Plus, Sparkles } from 'lucide-react';
+// Import UI components from shadcn/ui component library
+import { Button } from '@/components/ui/button';
+// Import custom components
+import SmartShelfEditor from '@/components/SmartShelfEditor';
+// Import utility function for merging class names
+import { cn } from '@/lib/utils';
+// Import smart shelf types
+import type { SmartShelf, SmartShelfGroup } from '@/lib/smartShelves';
+
+// Define props interface for SmartShelfSidebar component
+interface SmartShelfSidebarProps {
+  smartShelves: SmartShelf[]; // All of the user's smart shelves
+  counts: Record<string, number | undefined>; // Number of books on each smart shelf, by ID
+  libraryCount: number; // Number of books in the whole library
+  selectedId: string; // Smart shelf being shown ('all' for the whole library)
+  onSelect: (id: string) => void; // Shows a smart shelf ('all' for the whole library)
+  onCreate: (name: string, rules: SmartShelfGroup) => Promise<void>; // Creates a smart shelf
+  onUpdate: (id: string, name: string, rules: SmartShelfGroup) => Promise<void>; // Changes a smart shelf
+  onDelete: (id: string) => Promise<void>; // Deletes a smart shelf
+  className?: string; // Extra classes for the sidebar
+}
+
+// SmartShelfSidebar component - list of smart shelves with live counts, and the editor for them
+const SmartShelfSidebar = ({
+  smartShelves,
+  counts,
+  libraryCount,
+  selectedId,
+  onSelect,
+  onCreate,
+  onUpdate,
+  onDelete,
+  className,
+}: SmartShelfSidebarProps) => {
+  // State to show the editor dialog
+  const [editorOpen, setEditorOpen] = useState(false);
+  // State for the shelf in the editor (null for a new one), kept while the dialog animates closed
+  const [editorShelf, setEditorShelf] = useState<SmartShelf | null>(null);
+
+  // Open the editor for a shelf, or for a new one
+  const openEditor = (smartShelf: SmartShelf | null) => {
+    setEditorShelf(smartShelf);
+    setEditorOpen(true);
+  };
+
+  // Classes for a shelf in the list, highlighting the one being shown
+  const itemClass = (active: boolean) =>
+    cn(
+      'flex lg:flex-1 lg:min-w-0 items-center gap-2 rounded-md px-3 py-2 text-sm text-left whitespace-nowrap transition-colors',
+      active ? 'bg-secondary text-foreground font-medium' : 'text-muted-foreground hover:bg-muted hover:text-foreground'
+    );
+
+  // Render the sidebar
+  return (
+    <aside className={className}>
+      {/* Heading with new shelf button */}
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Smart Shelves</h2>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7"
+          onClick={() => openEditor(null)}
+          aria-label="New smart shelf"
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+      {/* Shelf list - a scrolling row on small screens, a column beside the grid on large ones */}
+      <nav className="flex lg:flex-col gap-1 overflow-x-auto pb-1 lg:pb-0">
+        <button type="button" className={itemClass(selectedId === 'all')} onClick={() => onSelect('all')}>
+          <BookOpen className="h-4 w-4 flex-shrink-0" />
+          <span className="truncate">All Books</span>
+          <span className="ml-auto text-xs tabular-nums">{libraryCount}</span>
+        </button>
+        {smartShelves.map((smartShelf) => (
+          <div key={smartShelf.id} className="group flex items-center">
+            <button
+              type="button"
+              className={itemClass(selectedId === smartShelf.id)}
+              onClick={() => onSelect(smartShelf.id)}
+            >
+              <Sparkles className="h-4 w-4 flex-shrink-0" />
+              <span className="truncate">{smartShelf.name}</span>
+              <span className="ml-auto text-xs tabular-nums">{counts[smartShelf.id]}</span>
+            </button>
+            {/* Edit button, shown on hover on large screens */}
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7 flex-shrink-0 text-muted-foreground lg:opacity-0 lg:group-hover:opacity-100 focus-visible:opacity-100"
+              onClick={() => openEditor(smartShelf)}
+              aria-label={`Edit ${smartShelf.name}`}
+            >
+              <Pencil className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        ))}
+      </nav>
+      {/* Hint explaining smart shelves before the first one is made */}
+      {smartShelves.length === 0 && (
+        <p className="hidden lg:block mt-3 px-3 text-xs text-muted-foreground">
+          Save rules like "rated 4 or more, finished this year" as a shelf that fills itself.
+        </p>
+      )}
+      {/* Dialog for creating and editing smart shelves */}
+      <SmartShelfEditor
+        open={editorOpen}
+        smartShelf={editorShelf}
+        onOpenChange={setEditorOpen}
+        onSave={(name, rules) => (editorShelf ? onUpdate(editorShelf.id, name, rules) : onCreate(name, rules))}
+        onDelete={() => onDelete(editorShelf!.id)}
+      />
+    </aside>
+  );
+};
+
+// Export SmartShelfSidebar component as default export
+export default SmartShelfSidebar;
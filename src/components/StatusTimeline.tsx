@@ -0,0 +1,90 @@
+// Import date helpers for formatting and durations
+import { differenceInCalendarDays, format } from 'date-fns';
+// Import icons from lucide-react icon library
+import { Loader2 } from 'lucide-react';
+// Import custom hooks
+import { useStatusChanges } from '@/hooks/useBooks';
+// Import generated database types
+import type { Tables } from '@/integrations/supabase/types';
+
+// A recorded status change, as loaded for the timeline
+type StatusChange = Pick<Tables<'status_changes'>, 'id' | 'from_status' | 'to_status' | 'changed_at'>;
+
+// Define props interface for StatusTimeline component
+interface StatusTimelineProps {
+  bookId: string; // Book whose status changes are shown
+}
+
+// What a status change meant for the book, e.g. "Started reading" or "Started a re-read"
+const describeStatusChange = (change: StatusChange) => {
+  switch (change.to_status) {
+    case 'want_to_read':
+      return change.from_status ? 'Moved back to Want to Read' : 'Added to Want to Read';
+    case 'reading':
+      if (change.from_status === 'read') return 'Started a re-read';
+      return change.from_status ? 'Started reading' : 'Added while reading';
+    case 'read':
+      return change.from_status ? 'Finished' : 'Added as read';
+  }
+};
+
+// How long the book spent in a status before the next change, e.g. "12 days in Want to Read"
+const describeTimeIn = (previous: StatusChange, change: StatusChange) => {
+  const days = differenceInCalendarDays(new Date(change.changed_at), new Date(previous.changed_at));
+  const length = `${days} ${days === 1 ? 'day' : 'days'}`;
+  switch (previous.to_status) {
+    case 'want_to_read':
+      return `${length} in Want to Read`;
+    case 'reading':
+      return `${length} reading`;
+    case 'read':
+      return `${length} after finishing`;
+  }
+};
+
+// StatusTimeline component - when a book was queued, started and finished, and how long each took
+const StatusTimeline = ({ bookId }: StatusTimelineProps) => {
+  // Cached status changes query (refetched whenever the book changes)
+  const { data: changes, isLoading, isError } = useStatusChanges(bookId);
+
+  // Show loading spinner while fetching the timeline
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  // Show an error message if the timeline couldn't be loaded
+  if (isError) {
+    return <p className="text-sm text-destructive text-center py-2">Failed to load the status timeline.</p>;
+  }
+
+  // Render the status changes, oldest first
+  return changes.length > 0 ? (
+    <ol className="relative border-l border-border ml-2 space-y-6">
+      {changes.map((change, index) => (
+        <li key={change.id} className="ml-5">
+          {/* Timeline dot */}
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+          <div className="space-y-1">
+            {/* What happened and when */}
+            <p className="text-sm font-medium text-foreground">{describeStatusChange(change)}</p>
+            <p className="text-xs text-muted-foreground">
+              {format(new Date(change.changed_at), 'MMM d, yyyy')}
+              {/* Time spent in the previous status */}
+              {index > 0 && ` · ${describeTimeIn(changes[index - 1], change)}`}
+            </p>
+          </div>
+        </li>
+      ))}
+    </ol>
+  ) : (
+    // Empty state
+    <p className="text-sm text-muted-foreground text-center py-2">No status changes recorded yet.</p>
+  );
+};
+
+// Export StatusTimeline component as default export
+export default StatusTimeline;
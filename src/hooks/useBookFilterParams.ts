@@ -0,0 +1,75 @@
+// Import React hook for stable callbacks
+import { useCallback } from 'react';
+// Import hook for reading and writing the URL query string
+import { useSearchParams } from 'react-router-dom';
+// Import library search, filter and sort settings
+import { BookFilters, BookSort, bookSorts, DEFAULT_BOOK_FILTERS } from '@/lib/bookFilters';
+// Import search box query language parser
+import { parseSearchQuery } from '@/lib/searchQuery';
+
+// Query parameter for each library setting, e.g. /books?q=dune&status=read&smart=<id>&sort=title&page=2
+const paramNames: Record<keyof BookFilters, string> = {
+  search: 'q',
+  status: 'status',
+  shelfId: 'shelf',
+  smartShelfId: 'smart',
+  sort: 'sort',
+};
+
+// Statuses accepted in the URL
+const statuses = ['want_to_read', 'reading', 'read'];
+
+// Library settings kept in the URL, so reloading, sharing a link or going back restores the view
+// Unknown or invalid values fall back to the defaults
+export const useBookFilterParams = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // The search exactly as it appears in the URL (may have a mistake if edited by hand)
+  const searchParam = searchParams.get(paramNames.search) ?? '';
+  const status = searchParams.get(paramNames.status);
+  const sort = searchParams.get(paramNames.sort);
+  const filters: BookFilters = {
+    // A search with a mistake isn't sent to the database
+    search: parseSearchQuery(searchParam).error ? '' : searchParam,
+    status: statuses.includes(status) ? (status as BookFilters['status']) : DEFAULT_BOOK_FILTERS.status,
+    shelfId: searchParams.get(paramNames.shelfId) ?? DEFAULT_BOOK_FILTERS.shelfId,
+    smartShelfId: searchParams.get(paramNames.smartShelfId) ?? DEFAULT_BOOK_FILTERS.smartShelfId,
+    sort: Object.prototype.hasOwnProperty.call(bookSorts, sort) ? (sort as BookSort) : DEFAULT_BOOK_FILTERS.sort,
+  };
+  // Number of pages of results loaded, so going back shows as many books as before
+  const pages = Math.max(1, parseInt(searchParams.get('page') ?? '', 10) || 1);
+
+  // Change some settings and start again from the first page
+  // Each change is a history entry unless replace is set
+  const setFilters = useCallback(
+    (changes: Partial<BookFilters>, options?: { replace?: boolean }) =>
+      setSearchParams((prev) => {
+        const next = new URLSearchParams(prev);
+        (Object.keys(changes) as (keyof BookFilters)[]).forEach((key) => {
+          // Defaults are left out to keep links short
+          if (changes[key] === DEFAULT_BOOK_FILTERS[key]) next.delete(paramNames[key]);
+          else next.set(paramNames[key], changes[key]);
+        });
+        next.delete('page');
+        return next;
+      }, options),
+    [setSearchParams]
+  );
+
+  // Record how many pages are loaded (replacing the history entry rather than adding one)
+  const setPages = useCallback(
+    (count: number) =>
+      setSearchParams(
+        (prev) => {
+          const next = new URLSearchParams(prev);
+          if (count > 1) next.set('page', String(count));
+          else next.delete('page');
+          return next;
+        },
+        { replace: true }
+      ),
+    [setSearchParams]
+  );
+
+  return { filters, searchParam, pages, setFilters, setPages };
+};
@@ -0,0 +1,656 @@
+// Import React hooks for side effects
+import { useEffect } from 'react';
+// Import React Query hooks for cached queries and mutations
+import {
+  InfiniteData,
+  keepPreviousData,
+  QueryClient,
+  useInfiniteQuery,
+  useMutation,
+  useQueries,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query';
+// Import Supabase client for database operations
+import { supabase } from '@/integrations/supabase/client';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+// Import generated database types
+import type { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+// Import custom authentication hook
+import { useAuth } from '@/hooks/useAuth';
+// Import helpers for moving books to and from the trash
+import { moveBooksToTrash, purgeBooks, restoreBooksFromTrash } from '@/lib/trash';
+// Import library search, filter and sort settings
+import { BookFilters, bookSorts, hasActiveFilters, ratingSortColumns } from '@/lib/bookFilters';
+// Import rating mode preference, which decides the rating sort
+import { getRatingMode, RatingMode } from '@/lib/ratings';
+// Import helper for reading every page of a query
+import { fetchAllRows } from '@/lib/paging';
+// Import search box query language compiler
+import { compileSearchQuery } from '@/lib/searchQuery';
+// Import conflict error and lookup for version-checked updates
+import { BookConflictError, BookValues, fetchLatestBooks } from '@/lib/conflicts';
+// Import offline write queue
+import { isNetworkError, isOffline, queueBookWrite } from '@/lib/offlineQueue';
+// Import helper for saving shelf assignments
+import { setBookShelves } from '@/lib/shelves';
+// Import helper for deleting purged books' covers
+import { removeBookCovers } from '@/lib/covers';
+// Import bulk change type
+import type { BulkChanges } from '@/lib/bulk';
+// Import smart shelf rules compiler
+import { compileSmartShelf, SmartShelf, SmartShelfGroup } from '@/lib/smartShelves';
+
+// Query keys for book data, from broadest to narrowest, so mutations can invalidate at any level
+export const bookKeys = {
+  all: ['books'] as const, // Everything about books
+  lists: () => [...bookKeys.all, 'list'] as const, // Every library list
+  list: (filters: BookFilters, smartRules: SmartShelfGroup | null, ratingMode: RatingMode) =>
+    [...bookKeys.lists(), filters, smartRules, ratingMode] as const, // The library grid for some filters
+  count: () => [...bookKeys.all, 'count'] as const, // Size of the whole library
+  smartCount: (rules: SmartShelfGroup) => [...bookKeys.all, 'smartCount', rules] as const, // Size of a smart shelf
+  trash: () => [...bookKeys.all, 'trash'] as const, // Books in the trash
+  details: () => [...bookKeys.all, 'detail'] as const, // Every single-book view
+  detail: (id: string) => [...bookKeys.details(), id] as const, // One book
+  history: (id: string) => [...bookKeys.all, 'history', id] as const, // One book's change history
+  statusChanges: (id: string) => [...bookKeys.all, 'statusChanges', id] as const, // One book's status timeline
+  snippets: (search: string, ids: string[]) => [...bookKeys.all, 'snippets', search, ids] as const, // Search extracts
+};
+
+// Columns loaded for the library grid, plus shelves and readings
+// shelf_filter is a second copy of the shelf assignments used only to filter by shelf,
+// so filtering doesn't hide the book's other shelves
+const LIST_COLUMNS =
+  'id, title, author, status, updated_at, cover_path, rating, is_favorite, current_page, page_count, legacy_progress, book_shelves(shelf_id), read_throughs(rating, finished_at), shelf_filter:book_shelves(shelf_id)';
+
+// Number of books loaded per page of the library grid
+const PAGE_SIZE = 30;
+
+// Build the library query for a set of filters and the selected smart shelf's rules
+// (books in the trash are always left out); ratingMode picks the rating the rating sort uses
+const buildBookListQuery = (
+  filters: BookFilters,
+  smartRules: SmartShelfGroup | null,
+  ratingMode: RatingMode = 'latest'
+) => {
+  // Split the search box into free text and field filters (status:read, rating>=4, ...)
+  const { text: search, filter: searchFilter } = compileSearchQuery(filters.search);
+  // Field filters and smart shelf rules must both match, so they go into one filter
+  const smartFilter = smartRules ? compileSmartShelf(smartRules) : null;
+  const filter = searchFilter && smartFilter ? `and(${searchFilter},${smartFilter})` : searchFilter ?? smartFilter;
+  // Free text goes through search_books, which returns the matching rows best match first
+  const source = search
+    ? supabase.rpc('search_books', { p_query: search }, { count: 'exact' }).select(LIST_COLUMNS)
+    : supabase.from('books').select(LIST_COLUMNS, { count: 'exact' });
+  let query = source.is('deleted_at', null);
+  // Field filters from the search box and smart shelf rules
+  if (filter) query = query.or(filter);
+  // Status filter
+  if (filters.status !== 'all') query = query.eq('status', filters.status);
+  // Shelf filter - only keep books with a matching assignment
+  if (filters.shelfId !== 'all') {
+    query = query.eq('shelf_filter.shelf_id', filters.shelfId).not('shelf_filter', 'is', null);
+  }
+  // Best match keeps the ranked order search_books returns (newest first when not searching)
+  const sort = bookSorts[filters.sort === 'relevance' && !search ? 'newest' : filters.sort];
+  if (!sort.column) return query;
+  // Rating sorts by the same headline rating the cards show
+  const column = filters.sort === 'rating' ? ratingSortColumns[ratingMode] : sort.column;
+  // Sort (unknown values last), with the ID as a tie-breaker so pages never overlap
+  return query.order(column, { ascending: sort.ascending, nullsFirst: false }).order('id');
+};
+
+// Fetch one page of the library, with the number of books matching the filters
+const fetchBookPage = async (
+  filters: BookFilters,
+  smartRules: SmartShelfGroup | null,
+  ratingMode: RatingMode,
+  offset: number
+) => {
+  const { data, error, count } = await buildBookListQuery(filters, smartRules, ratingMode).range(
+    offset,
+    offset + PAGE_SIZE - 1
+  );
+  // Throw error if query failed
+  if (error) throw error;
+  return { books: data, count: count ?? 0 };
+};
+
+// Fetch every book matching the filters (for "select all"), mapping IDs to their updated_at
+export const fetchBookVersions = async (filters: BookFilters, smartRules: SmartShelfGroup | null) => {
+  const books = await fetchAllRows((from, to) => buildBookListQuery(filters, smartRules).range(from, to));
+  return Object.fromEntries(books.map((book) => [book.id, book.updated_at]));
+};
+
+// Fetch highlighted review extracts for books matching a search, keyed by book ID
+// Books whose review doesn't match (title or author matches) have no entry
+const fetchSearchSnippets = async (search: string, ids: string[]) => {
+  const { data, error } = await supabase.rpc('search_snippets', { p_query: search, p_book_ids: ids });
+  // Throw error if query failed
+  if (error) throw error;
+  return Object.fromEntries(data.map((row) => [row.book_id, row.snippet]));
+};
+
+// Count the books in the library
+const fetchBookCount = async () => {
+  const { count, error } = await supabase
+    .from('books')
+    .select('id', { count: 'exact', head: true })
+    .is('deleted_at', null);
+  // Throw error if query failed
+  if (error) throw error;
+  return count ?? 0;
+};
+
+// Count the books on a smart shelf
+const fetchSmartShelfCount = async (rules: SmartShelfGroup) => {
+  let query = supabase.from('books').select('id', { count: 'exact', head: true }).is('deleted_at', null);
+  const filter = compileSmartShelf(rules);
+  if (filter) query = query.or(filter);
+  const { count, error } = await query;
+  // Throw error if query failed
+  if (error) throw error;
+  return count ?? 0;
+};
+
+// Fetch a single book with its shelf assignments (null if missing or in the trash)
+const fetchBook = async (id: string) => {
+  const { data, error } = await supabase
+    .from('books')
+    .select('*, book_shelves(shelf_id)')
+    .eq('id', id)
+    .is('deleted_at', null)
+    .maybeSingle();
+  // Throw error if query failed
+  if (error) throw error;
+  return data;
+};
+
+// Fetch a book's recorded changes, newest first
+const fetchBookHistory = async (id: string) => {
+  const { data, error } = await supabase
+    .from('book_events')
+    .select('*')
+    .eq('book_id', id)
+    .order('created_at', { ascending: false });
+  // Throw error if query failed
+  if (error) throw error;
+  return data;
+};
+
+// Fetch when a book entered each status, oldest first
+const fetchStatusChanges = async (id: string) => {
+  const { data, error } = await supabase
+    .from('status_changes')
+    .select('id, from_status, to_status, changed_at')
+    .eq('book_id', id)
+    .order('changed_at', { ascending: true });
+  // Throw error if query failed
+  if (error) throw error;
+  return data;
+};
+
+// Fetch the books in the trash, most recently deleted first
+const fetchTrashedBooks = async () => {
+  const { data, error } = await supabase
+    .from('books')
+    .select('id, title, author, status, deleted_at')
+    .not('deleted_at', 'is', null)
+    .order('deleted_at', { ascending: false });
+  // Throw error if query failed
+  if (error) throw error;
+  return data;
+};
+
+// A page of the library grid
+type BookPage = Awaited<ReturnType<typeof fetchBookPage>>;
+// A book as shown in the library grid
+export type BookListItem = BookPage['books'][number];
+// A book as shown on its detail page
+export type BookDetailData = NonNullable<Awaited<ReturnType<typeof fetchBook>>>;
+
+// Library grid query - loads one page at a time and keeps the previous results while filters change
+// smartRules are the selected smart shelf's rules (null for none, undefined while they load)
+export const useBooks = (filters: BookFilters, smartRules: SmartShelfGroup | null | undefined) => {
+  const { user } = useAuth();
+  // The rating sort follows the reader's headline rating preference
+  const ratingMode = getRatingMode(user);
+  return useInfiniteQuery({
+    queryKey: bookKeys.list(filters, smartRules ?? null, ratingMode),
+    queryFn: ({ pageParam }) => fetchBookPage(filters, smartRules, ratingMode, pageParam),
+    initialPageParam: 0,
+    // The next page starts after the books loaded so far, until every match is loaded
+    getNextPageParam: (lastPage, pages) => {
+      const loaded = pages.reduce((total, page) => total + page.books.length, 0);
+      return loaded < lastPage.count ? loaded : undefined;
+    },
+    placeholderData: keepPreviousData,
+    enabled: Boolean(user) && smartRules !== undefined,
+  });
+};
+
+// Library size query
+export const useBookCount = () => {
+  const { user } = useAuth();
+  return useQuery({ queryKey: bookKeys.count(), queryFn: fetchBookCount, enabled: Boolean(user) });
+};
+
+// Number of books on each smart shelf, keyed by smart shelf ID (missing while loading or if the rules are invalid)
+// The counts live under the book keys, so they refresh whenever books change
+export const useSmartShelfCounts = (smartShelves: SmartShelf[]) => {
+  const { user } = useAuth();
+  return useQueries({
+    queries: smartShelves.map((smartShelf) => ({
+      queryKey: bookKeys.smartCount(smartShelf.rules),
+      queryFn: () => fetchSmartShelfCount(smartShelf.rules),
+      enabled: Boolean(user),
+    })),
+    combine: (results) =>
+      Object.fromEntries(smartShelves.map((smartShelf, index) => [smartShelf.id, results[index].data])) as Record<
+        string,
+        number | undefined
+      >,
+  });
+};
+
+// Review extracts for the loaded search results (only while searching)
+export const useSearchSnippets = (search: string, ids: string[]) => {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: bookKeys.snippets(search.trim(), ids),
+    queryFn: () => fetchSearchSnippets(search.trim(), ids),
+    // Keep showing the extracts already loaded while the next page's are fetched (same search only)
+    placeholderData: (previous, previousQuery) =>
+      previousQuery?.queryKey[2] === search.trim() ? previous : undefined,
+    enabled: Boolean(user && search.trim() && ids.length > 0),
+  });
+};
+
+// Single book query
+export const useBook = (id: string | undefined) => {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: bookKeys.detail(id ?? ''),
+    queryFn: () => fetchBook(id!),
+    enabled: Boolean(user && id),
+  });
+};
+
+// Book history query - refreshed along with everything else about books after each change
+export const useBookHistory = (id: string) => {
+  const { user } = useAuth();
+  return useQuery({ queryKey: bookKeys.history(id), queryFn: () => fetchBookHistory(id), enabled: Boolean(user) });
+};
+
+// Status timeline query - refreshed along with everything else about books after each change
+export const useStatusChanges = (id: string) => {
+  const { user } = useAuth();
+  return useQuery({ queryKey: bookKeys.statusChanges(id), queryFn: () => fetchStatusChanges(id), enabled: Boolean(user) });
+};
+
+// Trash query
+export const useTrashedBooks = () => {
+  const { user } = useAuth();
+  return useQuery({ queryKey: bookKeys.trash(), queryFn: fetchTrashedBooks, enabled: Boolean(user) });
+};
+
+// Snapshot of the cached lists and detail for a book, used to roll back optimistic updates
+type BookCacheSnapshot = ReturnType<QueryClient['getQueriesData']>;
+
+// Stop in-flight fetches that would overwrite an optimistic update, then snapshot the cache
+const snapshotBooks = async (queryClient: QueryClient, id: string) => {
+  await queryClient.cancelQueries({ queryKey: bookKeys.lists() });
+  await queryClient.cancelQueries({ queryKey: bookKeys.detail(id) });
+  return [
+    ...queryClient.getQueriesData({ queryKey: bookKeys.lists() }),
+    ...queryClient.getQueriesData({ queryKey: bookKeys.detail(id) }),
+  ];
+};
+
+// Apply a change to the books in every cached library page
+// The match count drops by however many books the change removes
+const updateCachedLists = (queryClient: QueryClient, update: (books: BookListItem[]) => BookListItem[]) => {
+  queryClient.setQueriesData<InfiniteData<BookPage>>({ queryKey: bookKeys.lists() }, (data) => {
+    if (!data) return data;
+    const pages = data.pages.map((page) => ({ ...page, books: update(page.books) }));
+    const removed = data.pages.reduce((total, page, index) => total + page.books.length - pages[index].books.length, 0);
+    return { ...data, pages: pages.map((page) => ({ ...page, count: page.count - removed })) };
+  });
+};
+
+// Put a snapshot back after a failed mutation
+const restoreSnapshot = (queryClient: QueryClient, snapshot: BookCacheSnapshot | undefined) => {
+  snapshot?.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+};
+
+// Values for a new book
+type NewBookValues = Omit<TablesInsert<'books'>, 'id' | 'user_id'>;
+
+// Add a book with an ID generated by the caller - without a connection it is queued and added to the
+// cached library (the ID is known up front, so covers can be uploaded and a queued book opened and
+// edited before it reaches the server)
+export const useCreateBook = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  return useMutation({
+    // Run while offline too, so the book can be queued (queries wait for the connection instead)
+    networkMode: 'always',
+    mutationFn: async ({ id, values, shelfIds }: { id: string; values: NewBookValues; shelfIds: string[] }) => {
+      try {
+        if (isOffline()) throw new Error('Offline');
+        const { error } = await supabase.from('books').insert({ ...values, id, user_id: user!.id });
+        // Throw error if insert failed
+        if (error) throw error;
+        // Assign the new book to the selected shelves
+        await setBookShelves(id, user!.id, shelfIds);
+        return { id, queued: false };
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        await queueBookWrite({ bookId: id, userId: user!.id, kind: 'insert', values, shelfIds });
+        return { id, queued: true };
+      }
+    },
+    onSuccess: ({ id, queued }, { values, shelfIds }) => {
+      if (!queued) return;
+      // Show the queued book at the top of the unfiltered library and on its own page
+      const now = new Date().toISOString();
+      const book = {
+        author: null,
+        review: null,
+        rating: null,
+        is_favorite: false,
+        current_page: 0,
+        page_count: null,
+        started_at: null,
+        finished_at: null,
+        deleted_at: null,
+        ...values,
+        id,
+        user_id: user!.id,
+        created_at: now,
+        updated_at: now,
+        search_vector: null,
+        book_shelves: shelfIds.map((shelfId) => ({ shelf_id: shelfId })),
+        read_throughs: [],
+        shelf_filter: [],
+      } as BookDetailData & BookListItem;
+      queryClient.setQueryData(bookKeys.detail(id), book);
+      queryClient
+        .getQueriesData<InfiniteData<BookPage>>({ queryKey: bookKeys.lists() })
+        .forEach(([queryKey, data]) => {
+          const [, , filters, smartRules] = queryKey as ReturnType<typeof bookKeys.list>;
+          if (!data || hasActiveFilters(filters) || smartRules || filters.sort !== 'newest') return;
+          queryClient.setQueryData<InfiniteData<BookPage>>(queryKey, {
+            ...data,
+            pages: data.pages.map((page, index) => ({
+              books: index === 0 ? [book, ...page.books] : page.books,
+              count: page.count + 1,
+            })),
+          });
+        });
+      queryClient.setQueryData<number>(bookKeys.count(), (count) => (count ?? 0) + 1);
+    },
+    // Refetch so the new book shows up wherever it belongs (waits for the connection when offline)
+    onSettled: () => queryClient.invalidateQueries({ queryKey: bookKeys.all }),
+  });
+};
+
+// Update a book's columns - the cached lists and detail change immediately and roll back on error
+// Columns the database derives (dates, read-throughs) arrive with the refetch that follows
+// With a version (the updated_at the edit started from), the book is only updated if it hasn't
+// changed since, and a BookConflictError carries the book as it is now
+// Without a connection the change is queued (with base, the columns as the edit started, for merging)
+// and the cache keeps it; shelfIds replaces the book's shelves as part of the same change
+export const useUpdateBook = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  return useMutation({
+    // Run while offline too, so the change can be queued
+    networkMode: 'always',
+    mutationFn: async ({
+      id,
+      changes,
+      version,
+      base,
+      shelfIds,
+    }: {
+      id: string;
+      changes: TablesUpdate<'books'>;
+      version?: string;
+      base?: BookValues;
+      shelfIds?: string[];
+    }) => {
+      try {
+        if (isOffline()) throw new Error('Offline');
+        let query = supabase.from('books').update(changes).eq('id', id);
+        if (version) query = query.eq('updated_at', version);
+        const { data, error } = await query.select('id, updated_at');
+        // Throw error if update failed
+        if (error) throw error;
+        // No row updated means the version is out of date (or the book is gone)
+        if (version && data.length === 0) {
+          const [latest] = await fetchLatestBooks([id]);
+          throw new BookConflictError(latest ?? null);
+        }
+        // Save the book's shelf assignments
+        if (shelfIds) await setBookShelves(id, user!.id, shelfIds);
+        return { queued: false, updatedAt: data[0]?.updated_at };
+      } catch (error) {
+        if (error instanceof BookConflictError || !isNetworkError(error)) throw error;
+        await queueBookWrite({ bookId: id, userId: user!.id, kind: 'update', values: changes, version, base, shelfIds });
+        return { queued: true };
+      }
+    },
+    onMutate: async ({ id, changes, shelfIds }) => {
+      const snapshot = await snapshotBooks(queryClient, id);
+      // Patch the book wherever it is cached
+      const shelves = shelfIds && { book_shelves: shelfIds.map((shelfId) => ({ shelf_id: shelfId })) };
+      updateCachedLists(queryClient, (books) =>
+        books.map((book) => (book.id === id ? { ...book, ...changes, ...shelves } : book))
+      );
+      queryClient.setQueryData<BookDetailData | null>(bookKeys.detail(id), (book) =>
+        book ? { ...book, ...changes, ...shelves } : book
+      );
+      return { snapshot };
+    },
+    // Move the cached book to its new version, so a quick second edit isn't taken for a conflict
+    onSuccess: ({ updatedAt }, { id }) => {
+      if (!updatedAt) return;
+      updateCachedLists(queryClient, (books) =>
+        books.map((book) => (book.id === id ? { ...book, updated_at: updatedAt } : book))
+      );
+      queryClient.setQueryData<BookDetailData | null>(bookKeys.detail(id), (book) =>
+        book ? { ...book, updated_at: updatedAt } : book
+      );
+    },
+    onError: (_error, _variables, context) => restoreSnapshot(queryClient, context?.snapshot),
+    // Refetch so derived columns and other views catch up
+    onSettled: () => queryClient.invalidateQueries({ queryKey: bookKeys.all }),
+  });
+};
+
+// Move a book to the trash - it leaves the cached lists immediately and comes back on error
+// Without a connection the move is queued
+export const useDeleteBook = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  return useMutation({
+    // Run while offline too, so the move can be queued
+    networkMode: 'always',
+    mutationFn: async (id: string) => {
+      try {
+        if (isOffline()) throw new Error('Offline');
+        await moveBooksToTrash([id]);
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        await queueBookWrite({
+          bookId: id,
+          userId: user!.id,
+          kind: 'update',
+          values: { deleted_at: new Date().toISOString() },
+        });
+      }
+    },
+    onMutate: async (id) => {
+      const snapshot = await snapshotBooks(queryClient, id);
+      updateCachedLists(queryClient, (books) => books.filter((book) => book.id !== id));
+      return { snapshot };
+    },
+    onError: (_error, _id, context) => restoreSnapshot(queryClient, context?.snapshot),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: bookKeys.all }),
+  });
+};
+
+// Bring books back out of the trash - without a connection the restore is queued
+// (undoing a delete that is still queued cancels it out)
+export const useRestoreBooks = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  return useMutation({
+    // Run while offline too, so the restore can be queued
+    networkMode: 'always',
+    mutationFn: async (ids: string[]) => {
+      try {
+        if (isOffline()) throw new Error('Offline');
+        await restoreBooksFromTrash(ids);
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        for (const id of ids) {
+          await queueBookWrite({ bookId: id, userId: user!.id, kind: 'update', values: { deleted_at: null } });
+        }
+      }
+    },
+    onSuccess: (_data, ids) => {
+      // Drop cached "not found" results so the books' pages load fresh
+      ids.forEach((id) => queryClient.removeQueries({ queryKey: bookKeys.detail(id) }));
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: bookKeys.all }),
+  });
+};
+
+// Queue a bulk change made without a connection as one write per book, and show it in the cached lists
+// versions are sent with the writes to check for conflicts; shelf changes need the book's current
+// shelves, so they only apply to books in the cache
+export const useQueueBulkUpdate = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  return async (changes: BulkChanges, ids: string[], versions?: Record<string, string>) => {
+    // Books as cached in the library lists, by ID
+    const cached = new Map(
+      queryClient
+        .getQueriesData<InfiniteData<BookPage>>({ queryKey: bookKeys.lists() })
+        .flatMap(([, data]) => data?.pages.flatMap((page) => page.books) ?? [])
+        .map((book) => [book.id, book])
+    );
+    const values: TablesUpdate<'books'> = {};
+    if (changes.status !== undefined) values.status = changes.status;
+    if (changes.is_favorite !== undefined) values.is_favorite = changes.is_favorite;
+    if (changes.deleted !== undefined) values.deleted_at = changes.deleted ? new Date().toISOString() : null;
+    const shelfIdsOf = (book: BookListItem | undefined) =>
+      book && (changes.add_shelf_ids || changes.remove_shelf_ids)
+        ? [...new Set([...book.book_shelves.map((shelf) => shelf.shelf_id), ...(changes.add_shelf_ids ?? [])])].filter(
+            (shelfId) => !changes.remove_shelf_ids?.includes(shelfId)
+          )
+        : undefined;
+    for (const id of ids) {
+      const book = cached.get(id);
+      await queueBookWrite({
+        bookId: id,
+        userId: user!.id,
+        kind: 'update',
+        values,
+        version: versions?.[id],
+        base: book,
+        shelfIds: shelfIdsOf(book),
+      });
+    }
+    // Apply the change to the cached lists (trashed books leave them)
+    updateCachedLists(queryClient, (books) =>
+      books
+        .filter((book) => !(changes.deleted && ids.includes(book.id)))
+        .map((book) => {
+          if (!ids.includes(book.id)) return book;
+          const shelfIds = shelfIdsOf(book);
+          const shelves = shelfIds && { book_shelves: shelfIds.map((shelfId) => ({ shelf_id: shelfId })) };
+          return { ...book, ...values, ...shelves };
+        })
+    );
+  };
+};
+
+// Permanently delete books from the trash
+export const usePurgeBooks = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (ids: string[]) => {
+      await purgeBooks(ids);
+      // Their covers go too - a failure here only leaves unused images behind
+      await removeBookCovers(user!.id, ids).catch(() => undefined);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: bookKeys.trash() }),
+  });
+};
+
+// Mark every cached book query stale after changes made outside these hooks (imports, bulk edits, ...)
+export const useInvalidateBooks = () => {
+  const queryClient = useQueryClient();
+  return () => queryClient.invalidateQueries({ queryKey: bookKeys.all });
+};
+
+// A change to a book reported by Supabase Realtime
+type BookChange = RealtimePostgresChangesPayload<Tables<'books'>>;
+
+// Merge a book change into the cached lists and detail straight away, then refetch so filters,
+// sort order and counts catch up
+// Changes made in this tab arrive here too - they are already cached, so only the refetch matters
+const applyBookChange = (queryClient: QueryClient, change: BookChange) => {
+  // Leave books alone while this tab is saving, so an older change can't undo an optimistic update
+  if (queryClient.isMutating() === 0) {
+    if (change.eventType === 'DELETE' || change.new.deleted_at) {
+      // Deleted, or moved to the trash - drop the book from every list and close its page
+      const id = change.eventType === 'DELETE' ? change.old.id : change.new.id;
+      updateCachedLists(queryClient, (books) => books.filter((book) => book.id !== id));
+      queryClient.setQueryData(bookKeys.detail(id), null);
+    } else if (change.eventType === 'UPDATE') {
+      // Patch the book wherever it is cached (shelves and readings aren't part of the change)
+      const { search_vector, ...book } = change.new;
+      updateCachedLists(queryClient, (books) => books.map((cached) => (cached.id === book.id ? { ...cached, ...book } : cached)));
+      queryClient.setQueryData<BookDetailData | null>(bookKeys.detail(book.id), (cached) =>
+        cached ? { ...cached, ...book } : cached
+      );
+    }
+  }
+  queryClient.invalidateQueries({ queryKey: bookKeys.all });
+};
+
+// Keep cached books in step with changes made in other tabs and on other devices
+export const useBookRealtime = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  // Only the user's id matters - a refreshed session shouldn't resubscribe
+  const userId = user?.id;
+
+  // Effect to listen for changes to the user's books while signed in
+  useEffect(() => {
+    if (!userId) return;
+    // Whether the channel has connected before - changes made while reconnecting are missed
+    let connected = false;
+    const channel = supabase
+      .channel(`books:${userId}`)
+      .on<Tables<'books'>>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'books', filter: `user_id=eq.${userId}` },
+        (change) => applyBookChange(queryClient, change)
+      )
+      .subscribe((status) => {
+        if (status !== 'SUBSCRIBED') return;
+        // Refetch after a reconnect to pick up anything missed
+        if (connected) queryClient.invalidateQueries({ queryKey: bookKeys.all });
+        connected = true;
+      });
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, queryClient]); // Re-run when a different user signs in
+};
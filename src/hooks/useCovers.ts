@@ -0,0 +1,22 @@
+// Import React Query hooks for cached queries
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+// Import custom authentication hook
+import { useAuth } from '@/hooks/useAuth';
+// Import cover storage helpers
+import { COVER_URL_TTL_SECONDS, fetchCoverUrls } from '@/lib/covers';
+
+// Signed URLs for covers or thumbnails, by path - one request for the lot
+// URLs are refreshed at half their lifetime, and kept while a new set of paths loads
+export const useCoverUrls = (paths: (string | null)[]) => {
+  const { user } = useAuth();
+  const uniquePaths = [...new Set(paths.filter(Boolean))].sort();
+  const { data } = useQuery({
+    queryKey: ['covers', uniquePaths],
+    queryFn: () => fetchCoverUrls(uniquePaths),
+    enabled: Boolean(user) && uniquePaths.length > 0,
+    staleTime: (COVER_URL_TTL_SECONDS * 1000) / 2,
+    refetchInterval: (COVER_URL_TTL_SECONDS * 1000) / 2,
+    placeholderData: keepPreviousData,
+  });
+  return data ?? {};
+};
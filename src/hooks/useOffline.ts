@@ -0,0 +1,20 @@
+// Import React hook for reading browser and module state
+import { useSyncExternalStore } from 'react';
+// Import offline write queue
+import { getQueuedCount, isOffline, subscribeToQueue } from '@/lib/offlineQueue';
+
+// Listen for the browser going on or offline
+const subscribeToConnection = (listener: () => void) => {
+  window.addEventListener('online', listener);
+  window.addEventListener('offline', listener);
+  return () => {
+    window.removeEventListener('online', listener);
+    window.removeEventListener('offline', listener);
+  };
+};
+
+// Whether the browser knows it has no connection, updating as it changes
+export const useIsOffline = () => useSyncExternalStore(subscribeToConnection, isOffline);
+
+// Number of book changes made offline that haven't been sent yet
+export const useQueuedCount = () => useSyncExternalStore(subscribeToQueue, getQueuedCount);
@@ -0,0 +1,106 @@
+// Import React hooks for side effects
+import { useEffect } from 'react';
+// Import React Query hooks for cached queries
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+// Import Supabase client for database operations
+import { supabase } from '@/integrations/supabase/client';
+// Import custom authentication hook
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+// Import book query keys (shelf changes show up in book lists)
+import { bookKeys } from '@/hooks/useBooks';
+// Import shelf type
+import type { Shelf } from '@/lib/shelves';
+
+// Query key for the user's shelves
+export const shelfKeys = {
+  all: ['shelves'] as const,
+};
+
+// Fetch the user's shelves sorted by name
+const fetchShelves = async () => {
+  const { data, error } = await supabase.from('shelves').select('id, name').order('name');
+  // Throw error if query failed
+  if (error) throw error;
+  return data;
+};
+
+// Custom hook to load the current user's shelves and create, rename or delete them
+export const useShelves = () => {
+  // Get current user from auth context
+  const { user } = useAuth();
+  // Hook for displaying toast notifications
+  const { toast } = useToast();
+  // Query client for updating the cached shelves
+  const queryClient = useQueryClient();
+  // Cached shelves query
+  const { data: shelves = [], isLoading: loading, isError } = useQuery({
+    queryKey: shelfKeys.all,
+    queryFn: fetchShelves,
+    enabled: Boolean(user),
+  });
+
+  // Effect to report a failed load
+  useEffect(() => {
+    if (isError) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load shelves. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  }, [isError, toast]); // Re-run when the query fails or recovers
+
+  // Sort helper keeping shelves in alphabetical order after local changes
+  const sortShelves = (list: Shelf[]) =>
+    [...list].sort((a, b) => a.name.localeCompare(b.name));
+
+  // Apply a local change to the cached shelves
+  const updateShelves = (update: (list: Shelf[]) => Shelf[]) =>
+    queryClient.setQueryData<Shelf[]>(shelfKeys.all, (list = []) => sortShelves(update(list)));
+
+  // Create a new shelf and return it
+  const createShelf = async (name: string) => {
+    // Insert the shelf and return the created row
+    const { data, error } = await supabase
+      .from('shelves')
+      .insert({ user_id: user!.id, name: name.trim() })
+      .select('id, name')
+      .single();
+
+    // Throw error if insert failed (e.g. duplicate name)
+    if (error) throw error;
+    // Add the new shelf to the cache
+    updateShelves((list) => [...list, data]);
+    return data;
+  };
+
+  // Rename an existing shelf
+  const renameShelf = async (id: string, name: string) => {
+    // Update the shelf name in the database
+    const { error } = await supabase
+      .from('shelves')
+      .update({ name: name.trim() })
+      .eq('id', id);
+
+    // Throw error if update failed (e.g. duplicate name)
+    if (error) throw error;
+    // Update the shelf in the cache
+    updateShelves((list) => list.map((shelf) => (shelf.id === id ? { ...shelf, name: name.trim() } : shelf)));
+  };
+
+  // Delete a shelf - books on it are kept, only the assignments are removed
+  const deleteShelf = async (id: string) => {
+    // Delete the shelf (book_shelves rows cascade)
+    const { error } = await supabase.from('shelves').delete().eq('id', id);
+
+    // Throw error if delete failed
+    if (error) throw error;
+    // Remove the shelf from the cache, and refresh books that were on it
+    updateShelves((list) => list.filter((shelf) => shelf.id !== id));
+    queryClient.invalidateQueries({ queryKey: bookKeys.all });
+  };
+
+  // Return shelves and shelf operations
+  return { shelves, loading, createShelf, renameShelf, deleteShelf };
+};
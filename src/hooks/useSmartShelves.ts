@@ -0,0 +1,106 @@
+// Import React hooks for side effects
+import { useEffect } from 'react';
+// Import React Query hooks for cached queries
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+// Import Supabase client for database operations
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+// Import custom authentication hook
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+// Import smart shelf types
+import type { SmartShelf, SmartShelfGroup } from '@/lib/smartShelves';
+
+// Query key for the user's smart shelves
+export const smartShelfKeys = {
+  all: ['smartShelves'] as const,
+};
+
+// Fetch the user's smart shelves sorted by name
+const fetchSmartShelves = async (): Promise<SmartShelf[]> => {
+  const { data, error } = await supabase.from('smart_shelves').select('id, name, rules').order('name');
+  // Throw error if query failed
+  if (error) throw error;
+  // The database checks the rules are a group before saving them
+  return data.map((row) => ({ ...row, rules: row.rules as unknown as SmartShelfGroup }));
+};
+
+// Custom hook to load the current user's smart shelves and create, edit or delete them
+export const useSmartShelves = () => {
+  // Get current user from auth context
+  const { user } = useAuth();
+  // Hook for displaying toast notifications
+  const { toast } = useToast();
+  // Query client for updating the cached smart shelves
+  const queryClient = useQueryClient();
+  // Cached smart shelves query
+  const { data: smartShelves = [], isLoading: loading, isError } = useQuery({
+    queryKey: smartShelfKeys.all,
+    queryFn: fetchSmartShelves,
+    enabled: Boolean(user),
+  });
+
+  // Effect to report a failed load
+  useEffect(() => {
+    if (isError) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load smart shelves. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  }, [isError, toast]); // Re-run when the query fails or recovers
+
+  // Apply a local change to the cached smart shelves, keeping them in alphabetical order
+  const updateSmartShelves = (update: (list: SmartShelf[]) => SmartShelf[]) =>
+    queryClient.setQueryData<SmartShelf[]>(smartShelfKeys.all, (list = []) =>
+      [...update(list)].sort((a, b) => a.name.localeCompare(b.name))
+    );
+
+  // Create a new smart shelf and return it
+  const createSmartShelf = async (name: string, rules: SmartShelfGroup) => {
+    // Insert the smart shelf and return the created row
+    const { data, error } = await supabase
+      .from('smart_shelves')
+      .insert({ user_id: user!.id, name: name.trim(), rules: rules as unknown as Json })
+      .select('id')
+      .single();
+
+    // Throw error if insert failed (e.g. duplicate name)
+    if (error) throw error;
+    // Add the new smart shelf to the cache
+    const smartShelf = { id: data.id, name: name.trim(), rules };
+    updateSmartShelves((list) => [...list, smartShelf]);
+    return smartShelf;
+  };
+
+  // Rename an existing smart shelf or change its rules
+  const updateSmartShelf = async (id: string, name: string, rules: SmartShelfGroup) => {
+    // Update the smart shelf in the database
+    const { error } = await supabase
+      .from('smart_shelves')
+      .update({ name: name.trim(), rules: rules as unknown as Json })
+      .eq('id', id);
+
+    // Throw error if update failed (e.g. duplicate name)
+    if (error) throw error;
+    // Update the smart shelf in the cache (book lists and counts follow, as the rules are part of their keys)
+    updateSmartShelves((list) =>
+      list.map((smartShelf) => (smartShelf.id === id ? { id, name: name.trim(), rules } : smartShelf))
+    );
+  };
+
+  // Delete a smart shelf - it only describes which books to show, so no books are affected
+  const deleteSmartShelf = async (id: string) => {
+    // Delete the smart shelf
+    const { error } = await supabase.from('smart_shelves').delete().eq('id', id);
+
+    // Throw error if delete failed
+    if (error) throw error;
+    // Remove the smart shelf from the cache
+    updateSmartShelves((list) => list.filter((smartShelf) => smartShelf.id !== id));
+  };
+
+  // Return smart shelves and smart shelf operations
+  return { smartShelves, loading, createSmartShelf, updateSmartShelf, deleteSmartShelf };
+};
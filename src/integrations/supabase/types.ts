@@ -14,15 +14,91 @@ export type Database = {
   }
   public: {
     Tables: {
+      book_events: {
+        Row: {
+          book_id: string
+          created_at: string
+          event_type: string
+          id: string
+          new_values: Json | null
+          old_values: Json | null
+          user_id: string
+        }
+        Insert: {
+          book_id: string
+          created_at?: string
+          event_type: string
+          id?: string
+          new_values?: Json | null
+          old_values?: Json | null
+          user_id: string
+        }
+        Update: {
+          book_id?: string
+          created_at?: string
+          event_type?: string
+          id?: string
+          new_values?: Json | null
+          old_values?: Json | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      book_shelves: {
+        Row: {
+          book_id: string
+          created_at: string
+          shelf_id: string
+          user_id: string
+        }
+        Insert: {
+          book_id: string
+          created_at?: string
+          shelf_id: string
+          user_id: string
+        }
+        Update: {
+          book_id?: string
+          created_at?: string
+          shelf_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "book_shelves_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "book_shelves_shelf_id_fkey"
+            columns: ["shelf_id"]
+            isOneToOne: false
+            referencedRelation: "shelves"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       books: {
         Row: {
           author: string | null
+          cover_path: string | null
           created_at: string
+          current_page: number
+          deleted_at: string | null
+          finished_at: string | null
           id: string
           is_favorite: boolean
+          isbn: string | null
+          legacy_progress: number | null
+          page_count: number | null
+          published_year: number | null
+          publisher: string | null
           rating: number | null
-          reading_progress: number | null
           review: string | null
+          search_vector: unknown
+          started_at: string | null
           status: Database["public"]["Enums"]["book_status"]
           title: string
           updated_at: string
@@ -30,12 +106,22 @@ export type Database = {
         }
         Insert: {
           author?: string | null
+          cover_path?: string | null
           created_at?: string
+          current_page?: number
+          deleted_at?: string | null
+          finished_at?: string | null
           id?: string
           is_favorite?: boolean
+          isbn?: string | null
+          legacy_progress?: number | null
+          page_count?: number | null
+          published_year?: number | null
+          publisher?: string | null
           rating?: number | null
-          reading_progress?: number | null
           review?: string | null
+          search_vector?: never
+          started_at?: string | null
           status?: Database["public"]["Enums"]["book_status"]
           title: string
           updated_at?: string
@@ -43,12 +129,22 @@ export type Database = {
         }
         Update: {
           author?: string | null
+          cover_path?: string | null
           created_at?: string
+          current_page?: number
+          deleted_at?: string | null
+          finished_at?: string | null
           id?: string
           is_favorite?: boolean
+          isbn?: string | null
+          legacy_progress?: number | null
+          page_count?: number | null
+          published_year?: number | null
+          publisher?: string | null
           rating?: number | null
-          reading_progress?: number | null
           review?: string | null
+          search_vector?: never
+          started_at?: string | null
           status?: Database["public"]["Enums"]["book_status"]
           title?: string
           updated_at?: string
@@ -56,12 +152,335 @@ export type Database = {
         }
         Relationships: []
       }
+      read_throughs: {
+        Row: {
+          book_id: string
+          created_at: string
+          finished_at: string | null
+          id: string
+          rating: number | null
+          review: string | null
+          started_at: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          book_id: string
+          created_at?: string
+          finished_at?: string | null
+          id?: string
+          rating?: number | null
+          review?: string | null
+          started_at?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          book_id?: string
+          created_at?: string
+          finished_at?: string | null
+          id?: string
+          rating?: number | null
+          review?: string | null
+          started_at?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "read_throughs_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reading_goals: {
+        Row: {
+          created_at: string
+          id: string
+          target_books: number
+          target_pages: number | null
+          updated_at: string
+          user_id: string
+          year: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          target_books: number
+          target_pages?: number | null
+          updated_at?: string
+          user_id: string
+          year: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          target_books?: number
+          target_pages?: number | null
+          updated_at?: string
+          user_id?: string
+          year?: number
+        }
+        Relationships: []
+      }
+      reading_sessions: {
+        Row: {
+          book_id: string
+          created_at: string
+          end_page: number | null
+          ended_at: string | null
+          id: string
+          note: string | null
+          start_page: number | null
+          started_at: string
+          user_id: string
+        }
+        Insert: {
+          book_id: string
+          created_at?: string
+          end_page?: number | null
+          ended_at?: string | null
+          id?: string
+          note?: string | null
+          start_page?: number | null
+          started_at?: string
+          user_id: string
+        }
+        Update: {
+          book_id?: string
+          created_at?: string
+          end_page?: number | null
+          ended_at?: string | null
+          id?: string
+          note?: string | null
+          start_page?: number | null
+          started_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reading_sessions_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shelves: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      smart_shelves: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          rules: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          rules: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          rules?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      status_changes: {
+        Row: {
+          book_id: string
+          changed_at: string
+          from_status: Database["public"]["Enums"]["book_status"] | null
+          id: string
+          to_status: Database["public"]["Enums"]["book_status"]
+          user_id: string
+        }
+        Insert: {
+          book_id: string
+          changed_at?: string
+          from_status?: Database["public"]["Enums"]["book_status"] | null
+          id?: string
+          to_status: Database["public"]["Enums"]["book_status"]
+          user_id: string
+        }
+        Update: {
+          book_id?: string
+          changed_at?: string
+          from_status?: Database["public"]["Enums"]["book_status"] | null
+          id?: string
+          to_status?: Database["public"]["Enums"]["book_status"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "status_changes_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      average_days_in_queue: {
+        Args: { p_time_zone?: string; p_year: number }
+        Returns: {
+          average_days: number
+          books: number
+        }[]
+      }
+      average_days_to_finish: {
+        Args: { p_time_zone?: string; p_year: number }
+        Returns: {
+          average_days: number
+          readings: number
+        }[]
+      }
+      average_rating: {
+        Args: { "": Database["public"]["Tables"]["books"]["Row"] }
+        Returns: number
+      }
+      book_id_taken: {
+        Args: { p_id: string }
+        Returns: boolean
+      }
+      books_finished_per_month: {
+        Args: { p_time_zone?: string; p_year: number }
+        Returns: {
+          finished: number
+          month: number
+        }[]
+      }
+      bulk_update_books: {
+        Args: { p_book_ids: string[]; p_changes: Json; p_versions?: Json }
+        Returns: {
+          book_id: string
+          conflict: boolean
+          error: string
+        }[]
+      }
+      latest_rating: {
+        Args: { "": Database["public"]["Tables"]["books"]["Row"] }
+        Returns: number
+      }
+      rating_distribution: {
+        Args: { p_time_zone?: string; p_year: number }
+        Returns: {
+          rating: number
+          readings: number
+        }[]
+      }
+      reading_years: {
+        Args: { p_time_zone?: string }
+        Returns: {
+          year: number
+        }[]
+      }
+      restore_library: {
+        Args: { p_books: Json; p_mode: string }
+        Returns: undefined
+      }
+      search_books: {
+        Args: { p_query: string }
+        Returns: {
+          author: string | null
+          created_at: string
+          current_page: number
+          deleted_at: string | null
+          finished_at: string | null
+          id: string
+          is_favorite: boolean
+          page_count: number | null
+          rating: number | null
+          review: string | null
+          search_vector: unknown
+          started_at: string | null
+          status: Database["public"]["Enums"]["book_status"]
+          title: string
+          updated_at: string
+          user_id: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "books"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      search_snippets: {
+        Args: { p_book_ids: string[]; p_query: string }
+        Returns: {
+          book_id: string
+          snippet: string
+        }[]
+      }
+      status_breakdown: {
+        Args: never
+        Returns: {
+          books: number
+          status: Database["public"]["Enums"]["book_status"]
+        }[]
+      }
+      stop_reading_session: {
+        Args: { p_end_page: number; p_note: string; p_session_id: string }
+        Returns: {
+          book_id: string
+          created_at: string
+          end_page: number | null
+          ended_at: string | null
+          id: string
+          note: string | null
+          start_page: number | null
+          started_at: string
+          user_id: string
+        }
+      }
+      top_authors: {
+        Args: { p_limit?: number; p_time_zone?: string; p_year: number }
+        Returns: {
+          author: string
+          readings: number
+        }[]
+      }
     }
     Enums: {
       book_status: "want_to_read" | "reading" | "read"
@@ -0,0 +1,133 @@
+// Import test helpers
+import { describe, expect, it } from 'vitest';
+// Import generated database types
+import type { Tables } from '@/integrations/supabase/types';
+// Import backup helpers under test
+import { compareBackupBook, createLibraryBackup, LIBRARY_BACKUP_FORMAT, parseLibraryBackup } from '@/lib/backup';
+
+// A complete book row, with some columns overridden
+const makeBook = (overrides: Partial<Tables<'books'>> = {}): Tables<'books'> => ({
+  id: '6f1c2a3b-4d5e-4f60-8a7b-9c0d1e2f3a4b',
+  user_id: '0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d',
+  title: 'Dune',
+  author: 'Frank Herbert',
+  status: 'read',
+  rating: 5,
+  review: 'Spice',
+  is_favorite: true,
+  page_count: 412,
+  current_page: 412,
+  legacy_progress: null,
+  started_at: '2023-05-01T09:00:00+00:00',
+  finished_at: '2023-05-14T21:30:00+00:00',
+  cover_path: null,
+  isbn: '9780441172719',
+  publisher: 'Ace',
+  published_year: 1990,
+  deleted_at: null,
+  search_vector: null,
+  created_at: '2023-04-30T12:00:00+00:00',
+  updated_at: '2023-05-14T21:30:00+00:00',
+  ...overrides,
+});
+
+// The text of a backup file holding some books
+const backupText = (books: unknown[], extra: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    format: LIBRARY_BACKUP_FORMAT,
+    version: 1,
+    exported_at: '2024-01-01T00:00:00.000Z',
+    books,
+    ...extra,
+  });
+
+describe('parseLibraryBackup', () => {
+  it('reads a backup created by the app', () => {
+    const backup = createLibraryBackup([makeBook()]);
+    const parsed = parseLibraryBackup(JSON.stringify(backup));
+    expect(parsed.books).toHaveLength(1);
+    expect(parsed.books[0]).toMatchObject({ title: 'Dune', rating: 5, isbn: '9780441172719' });
+    // search_vector is derived by the database, so it isn't written
+    expect(backup.books[0]).not.toHaveProperty('search_vector');
+  });
+
+  it('fills in database defaults for missing columns', () => {
+    const { books } = parseLibraryBackup(backupText([{ title: 'Dune' }]));
+    expect(books[0]).toEqual({
+      title: 'Dune',
+      author: null,
+      status: 'want_to_read',
+      rating: null,
+      review: null,
+      is_favorite: false,
+      page_count: null,
+      current_page: 0,
+      started_at: null,
+      finished_at: null,
+      cover_path: null,
+      isbn: null,
+      publisher: null,
+      published_year: null,
+    });
+  });
+
+  it('rejects files that are not JSON or not a backup', () => {
+    expect(() => parseLibraryBackup('{')).toThrow('This file is not valid JSON.');
+    expect(() => parseLibraryBackup(backupText([], { format: 'other' }))).toThrow(
+      'This file is not a BookTracker library backup.'
+    );
+  });
+
+  it('reports where a book breaks the table constraints', () => {
+    expect(() => parseLibraryBackup(backupText([{ title: 'Dune' }, { title: 'Emma', rating: 6 }]))).toThrow(
+      /^Invalid backup at books\.1\.rating:/
+    );
+    expect(() => parseLibraryBackup(backupText([{ title: 'Dune', isbn: '0441172717' }]))).toThrow(
+      'Invalid backup at books.0.isbn: ISBN must be an ISBN-13'
+    );
+    expect(() => parseLibraryBackup(backupText([{ title: 'Dune', page_count: 10, current_page: 11 }]))).toThrow(
+      'Invalid backup at books.0.current_page: Current page is past the last page'
+    );
+  });
+
+  it('refuses backups from a newer version of the app', () => {
+    expect(() => parseLibraryBackup(backupText([], { version: 2 }))).toThrow(
+      'This backup was made by a newer version of BookTracker.'
+    );
+  });
+});
+
+describe('compareBackupBook', () => {
+  const existing = makeBook();
+  const library = new Map([[existing.id, existing]]);
+  // The same book as read from a backup (no search_vector, user_id replaced on restore)
+  const { search_vector, user_id, ...backupBook } = existing;
+
+  it('treats books not in the library (or without an id) as new', () => {
+    expect(compareBackupBook({ ...backupBook, id: 'a2b3c4d5-e6f7-4a8b-9c0d-1e2f3a4b5c6d' }, library)).toEqual({
+      change: 'new',
+      columns: [],
+    });
+    expect(compareBackupBook({ title: 'Dune' }, library).change).toBe('new');
+  });
+
+  it('ignores updated_at and timestamp formatting', () => {
+    const book = {
+      ...backupBook,
+      updated_at: '2024-01-01T00:00:00Z',
+      finished_at: '2023-05-14T21:30:00.000Z',
+    };
+    expect(compareBackupBook(book, library)).toEqual({ change: 'identical', columns: [] });
+  });
+
+  it('lists the columns that changed', () => {
+    expect(compareBackupBook({ ...backupBook, rating: 4, review: null }, library)).toEqual({
+      change: 'changed',
+      columns: ['rating', 'review'],
+    });
+  });
+
+  it('keeps the existing created_at when the backup has none', () => {
+    expect(compareBackupBook({ ...backupBook, created_at: undefined }, library).change).toBe('identical');
+  });
+});
@@ -0,0 +1,156 @@
+// Import zod for validating backup files
+import { z } from 'zod';
+// Import generated database types
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+
+// Identifies a file as a BookTracker library backup
+export const LIBRARY_BACKUP_FORMAT = 'booktracker-library';
+// Current version of the backup format - bump when the shape of the file changes
+export const LIBRARY_BACKUP_VERSION = 1;
+
+// A book row as written to a backup - search_vector is derived by the database, so it is left out
+type BackupRow = Omit<Tables<'books'>, 'search_vector'>;
+
+// A backup of the user's books: every column of every book they own
+// Shelves, read-throughs, reading sessions, goals and smart shelves are not included
+export interface LibraryBackup {
+  format: typeof LIBRARY_BACKUP_FORMAT; // Format identifier
+  version: number; // Format version the file was written with
+  exported_at: string; // When the backup was created (ISO timestamp)
+  books: BackupRow[]; // Complete book rows
+}
+
+// Wrap book rows in a versioned backup document
+export const createLibraryBackup = (books: Tables<'books'>[]): LibraryBackup => ({
+  format: LIBRARY_BACKUP_FORMAT,
+  version: LIBRARY_BACKUP_VERSION,
+  exported_at: new Date().toISOString(),
+  books: books.map(({ search_vector, ...book }) => book),
+});
+
+// Timestamp as written by Postgres or toISOString (optional fractional seconds and offset)
+const timestamp = z.string().datetime({ offset: true });
+
+// Schema for one book in a backup - mirrors the books Insert type and its check constraints
+// Missing optional columns get the same defaults as the database so restored rows are complete
+const backupBookSchema = z
+  .object({
+    id: z.string().uuid().optional(),
+    user_id: z.string().uuid().optional(), // Ignored on restore - books always go to the current user
+    title: z.string().min(1, 'Title is required'),
+    author: z.string().nullable().default(null),
+    status: z.enum(['want_to_read', 'reading', 'read']).default('want_to_read'),
+    rating: z.number().int().min(1).max(5).nullable().default(null),
+    review: z.string().nullable().default(null),
+    is_favorite: z.boolean().default(false),
+    page_count: z.number().int().positive().nullable().default(null),
+    current_page: z.number().int().nonnegative().default(0),
+    started_at: timestamp.nullable().default(null),
+    finished_at: timestamp.nullable().default(null),
+    cover_path: z.string().nullable().default(null),
+    isbn: z
+      .string()
+      .regex(/^97[89]\d{10}$/, 'ISBN must be an ISBN-13')
+      .nullable()
+      .default(null),
+    publisher: z.string().nullable().default(null),
+    published_year: z.number().int().min(1).max(9999).nullable().default(null),
+    created_at: timestamp.optional(),
+    updated_at: timestamp.optional(),
+  })
+  .refine((book) => book.page_count === null || book.current_page <= book.page_count, {
+    message: 'Current page is past the last page',
+    path: ['current_page'],
+  });
+
+// Schema for a whole backup file
+const libraryBackupSchema = z.object({
+  format: z.literal(LIBRARY_BACKUP_FORMAT),
+  version: z.number().int().positive(),
+  exported_at: timestamp,
+  books: z.array(backupBookSchema),
+});
+
+// A book read from a backup file - the books Insert type, minus user_id which is replaced on restore
+export type BackupBook = Omit<TablesInsert<'books'>, 'user_id'>;
+
+// A validated backup file
+export interface ParsedLibraryBackup {
+  version: number; // Format version the file was written with
+  exported_at: string; // When the backup was created (ISO timestamp)
+  books: BackupBook[]; // Books to restore, with defaults filled in
+}
+
+// Parse and validate the text of a backup file
+export const parseLibraryBackup = (text: string): ParsedLibraryBackup => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+
+  const result = libraryBackupSchema.safeParse(json);
+  if (!result.success) {
+    // Report the first problem with its location, e.g. "books.3.rating: Number must be less than or equal to 5"
+    const issue = result.error.issues[0];
+    if (issue.path[0] === 'format') throw new Error('This file is not a BookTracker library backup.');
+    throw new Error(`Invalid backup at ${issue.path.join('.')}: ${issue.message}`);
+  }
+  // Refuse files written by a newer version of the app, whose shape we can't know
+  if (result.data.version > LIBRARY_BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of BookTracker.');
+  }
+  // zod marks every key optional when strictNullChecks is off, so restate the validated shape
+  return result.data as ParsedLibraryBackup;
+};
+
+// How a backup book compares with the library
+export type RestoreChange = 'new' | 'changed' | 'identical';
+
+// Columns compared when deciding if a book changed (user_id and updated_at always differ on restore)
+const comparedColumns = [
+  'title',
+  'author',
+  'status',
+  'rating',
+  'review',
+  'is_favorite',
+  'page_count',
+  'current_page',
+  'started_at',
+  'finished_at',
+  'cover_path',
+  'isbn',
+  'publisher',
+  'published_year',
+  'created_at',
+] as const;
+
+// Timestamp columns, compared by instant rather than by text
+const timestampColumns = new Set<string>(['started_at', 'finished_at', 'created_at']);
+
+// Compare two column values, treating timestamps in different formats as equal
+const sameValue = (column: string, a: unknown, b: unknown) => {
+  if (a === b) return true;
+  if (timestampColumns.has(column) && typeof a === 'string' && typeof b === 'string') {
+    return Date.parse(a) === Date.parse(b);
+  }
+  return false;
+};
+
+// Classify a backup book against the library, keyed on ID
+// Returns the names of changed columns for changed books
+export const compareBackupBook = (
+  book: BackupBook,
+  library: Map<string, Tables<'books'>>
+): { change: RestoreChange; columns: string[] } => {
+  const existing = book.id ? library.get(book.id) : undefined;
+  if (!existing) return { change: 'new', columns: [] };
+
+  const columns = comparedColumns.filter(
+    // A backup without created_at keeps the existing value
+    (column) => book[column] !== undefined && !sameValue(column, book[column], existing[column])
+  );
+  return { change: columns.length > 0 ? 'changed' : 'identical', columns };
+};
@@ -0,0 +1,51 @@
+// Import rating mode type for sorting by the headline rating
+import type { RatingMode } from '@/lib/ratings';
+
+// Define type for book reading status - matches database enum
+type BookStatus = 'want_to_read' | 'reading' | 'read';
+
+// Ways the library can be sorted
+export type BookSort = 'relevance' | 'newest' | 'oldest' | 'title' | 'author' | 'rating' | 'finished';
+
+// Search, filter and sort settings for the library grid
+export interface BookFilters {
+  search: string; // Full-text search over title, author and review
+  status: BookStatus | 'all'; // Only books with this status
+  shelfId: string; // Only books on this shelf ('all' for any)
+  smartShelfId: string; // Only books matching this smart shelf's rules ('all' for any)
+  sort: BookSort; // Sort order
+}
+
+// Settings used when nothing has been chosen
+export const DEFAULT_BOOK_FILTERS: BookFilters = {
+  search: '',
+  status: 'all',
+  shelfId: 'all',
+  smartShelfId: 'all',
+  sort: 'newest',
+};
+
+// Label and database ordering for each sort option
+// Best match has no column - search results come back ranked, and without a search it means newest first
+export const bookSorts: Record<BookSort, { label: string; column: string | null; ascending: boolean }> = {
+  relevance: { label: 'Best Match', column: null, ascending: false },
+  newest: { label: 'Newest First', column: 'created_at', ascending: false },
+  oldest: { label: 'Oldest First', column: 'created_at', ascending: true },
+  title: { label: 'Title A–Z', column: 'title', ascending: true },
+  author: { label: 'Author A–Z', column: 'author', ascending: true },
+  rating: { label: 'Highest Rated', column: 'latest_rating', ascending: false },
+  finished: { label: 'Recently Finished', column: 'finished_at', ascending: false },
+};
+
+// Computed column holding the headline rating the cards show, for each rating mode
+export const ratingSortColumns: Record<RatingMode, string> = {
+  latest: 'latest_rating',
+  average: 'average_rating',
+};
+
+// Whether any search or filter narrows the library (sorting doesn't)
+export const hasActiveFilters = (filters: BookFilters) =>
+  Boolean(filters.search.trim()) ||
+  filters.status !== 'all' ||
+  filters.shelfId !== 'all' ||
+  filters.smartShelfId !== 'all';
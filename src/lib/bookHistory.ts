@@ -0,0 +1,79 @@
+// Import date helpers for formatting event dates
+import { format, isThisYear } from 'date-fns';
+// Import generated database types
+import type { Tables } from '@/integrations/supabase/types';
+// Import column labels and formatting shared with conflict merging
+import { ConflictField, conflictFields, formatConflictValue } from '@/lib/conflicts';
+
+// Column values as recorded in an event
+type EventValues = Record<string, unknown>;
+
+// A change to one column of a book
+export interface FieldChange {
+  field: ConflictField; // Column that changed
+  label: string; // Column name for display
+  from: unknown; // Value before - what reverting sets it back to
+  to: unknown; // Value after
+  description: string; // Readable sentence, e.g. "Status changed from Reading to Read"
+}
+
+// One event in a book's history
+export interface HistoryEntry {
+  id: string; // Event ID
+  createdAt: string; // When it happened
+  summary: string | null; // What happened to the book as a whole ("Added to your library", "Moved to trash")
+  changes: FieldChange[]; // Columns the reader changed
+}
+
+// Columns that can't be quoted in a sentence (too long, or an image) - the timeline says they changed instead
+const longFields: ConflictField[] = ['review', 'cover_path'];
+
+// Whether a column value counts as empty
+const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+
+// Describe a change to a column in a sentence
+const describeChange = (field: ConflictField, label: string, from: unknown, to: unknown) => {
+  if (field === 'is_favorite') return to ? 'Marked as a favourite' : 'Removed from favourites';
+  if (isEmpty(from)) {
+    return longFields.includes(field) ? `${label} added` : `${label} set to ${formatConflictValue(field, to)}`;
+  }
+  if (isEmpty(to)) {
+    return longFields.includes(field) ? `${label} removed` : `${label} cleared (was ${formatConflictValue(field, from)})`;
+  }
+  if (longFields.includes(field)) return `${label} changed`;
+  return `${label} changed from ${formatConflictValue(field, from)} to ${formatConflictValue(field, to)}`;
+};
+
+// Turn a book's recorded events into timeline entries, keeping their order
+// Events that only touched columns the reader doesn't edit are left out
+export const buildHistory = (events: Tables<'book_events'>[]): HistoryEntry[] =>
+  events
+    .map((event) => {
+      const oldValues = (event.old_values ?? {}) as EventValues;
+      const newValues = (event.new_values ?? {}) as EventValues;
+      let summary: string | null = null;
+      if (event.event_type === 'insert') summary = 'Added to your library';
+      if (event.event_type === 'delete') summary = 'Deleted permanently';
+      if (event.event_type === 'update' && 'deleted_at' in newValues) {
+        summary = newValues.deleted_at ? 'Moved to trash' : 'Restored from trash';
+      }
+      // Column changes are only listed for updates - inserts and deletes are summed up by the summary
+      const changes =
+        event.event_type === 'update'
+          ? (Object.keys(conflictFields) as ConflictField[])
+              .filter((field) => field in newValues)
+              .map((field) => ({
+                field,
+                label: conflictFields[field],
+                from: oldValues[field],
+                to: newValues[field],
+                description: describeChange(field, conflictFields[field], oldValues[field], newValues[field]),
+              }))
+          : [];
+      return { id: event.id, createdAt: event.created_at, summary, changes };
+    })
+    .filter((entry) => entry.summary || entry.changes.length > 0);
+
+// Short date for the timeline, e.g. "3 Oct" (with the year when it isn't this year)
+export const formatEventDate = (date: string) =>
+  format(new Date(date), isThisYear(new Date(date)) ? 'd MMM' : 'd MMM yyyy');
@@ -0,0 +1,23 @@
+// Import Supabase client for calling Edge Functions
+import { supabase } from '@/integrations/supabase/client';
+
+// Details of a book found by ISBN (see supabase/functions/lookup-isbn)
+export interface BookMetadata {
+  isbn: string; // ISBN-13 that was looked up
+  title: string;
+  authors: string[]; // Author names, in credit order
+  pageCount: number | null;
+  publisher: string | null;
+  publishedYear: number | null;
+  cover: string | null; // Cover image as a data URL, ready to crop and upload
+}
+
+// Look up a book's details by ISBN-13, resolving with null when no book has that ISBN
+export const lookupIsbn = async (isbn13: string) => {
+  const { data, error } = await supabase.functions.invoke<{ book: BookMetadata | null }>('lookup-isbn', {
+    body: { isbn: isbn13 },
+  });
+  // Throw error if the lookup failed
+  if (error) throw error;
+  return data.book;
+};
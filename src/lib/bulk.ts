@@ -0,0 +1,42 @@
+// Import Supabase client for database operations
+import { supabase } from '@/integrations/supabase/client';
+
+// Define type for book reading status - matches database enum
+type BookStatus = 'want_to_read' | 'reading' | 'read';
+
+// A change applied to every selected book (only the keys present are changed)
+export interface BulkChanges {
+  status?: BookStatus; // New reading status
+  is_favorite?: boolean; // New favourite flag
+  deleted?: boolean; // Move to (true) or restore from (false) the trash
+  add_shelf_ids?: string[]; // Shelves to put the books on
+  remove_shelf_ids?: string[]; // Shelves to take the books off
+}
+
+// A book the bulk update couldn't change, with the database's reason
+export interface BulkFailure {
+  bookId: string; // Book that failed
+  error: string; // Why it failed
+  conflict: boolean; // Whether it failed because it changed after the versions given (nothing was applied)
+}
+
+// Apply a change to many books in a single request
+// versions maps book IDs to the updated_at they were loaded with - books that have changed since are
+// left alone and reported as conflicts
+// Resolves with the books that failed; the rest were updated
+export const bulkUpdateBooks = async (
+  bookIds: string[],
+  changes: BulkChanges,
+  versions?: Record<string, string>
+): Promise<BulkFailure[]> => {
+  const { data, error } = await supabase.rpc('bulk_update_books', {
+    p_book_ids: bookIds,
+    p_changes: { ...changes },
+    p_versions: versions,
+  });
+  // Throw error if the request itself failed (no book was changed)
+  if (error) throw error;
+  return data
+    .filter((result) => result.error !== null)
+    .map((result) => ({ bookId: result.book_id, error: result.error, conflict: result.conflict }));
+};
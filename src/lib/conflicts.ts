@@ -0,0 +1,129 @@
+// Import date formatting helper
+import { format } from 'date-fns';
+// Import Supabase client for database operations
+import { supabase } from '@/integrations/supabase/client';
+// Import generated database types
+import type { Tables } from '@/integrations/supabase/types';
+
+// Book columns that can conflict when two devices edit the same book, with labels
+// (these are also the columns the reader edits, so the book's history uses them too)
+export const conflictFields = {
+  title: 'Title',
+  author: 'Author',
+  status: 'Status',
+  rating: 'Rating',
+  review: 'Review',
+  is_favorite: 'Favourite',
+  page_count: 'Pages',
+  current_page: 'Current page',
+  started_at: 'Started',
+  finished_at: 'Finished',
+  cover_path: 'Cover',
+  isbn: 'ISBN',
+  publisher: 'Publisher',
+  published_year: 'Year published',
+} as const;
+
+// A column that can conflict
+export type ConflictField = keyof typeof conflictFields;
+
+// Values of the columns that can conflict (only some may be present)
+export type BookValues = Partial<Pick<Tables<'books'>, ConflictField>>;
+
+// Labels for each reading status
+const statusLabels: Record<string, string> = {
+  want_to_read: 'Want to Read',
+  reading: 'Reading',
+  read: 'Read',
+};
+
+// A column where your edit and the saved book disagree
+export interface FieldConflict {
+  field: ConflictField; // Column that differs
+  label: string; // Column name for display
+  yours: unknown; // Value you were saving
+  theirs: unknown; // Value saved somewhere else
+  choice: 'yours' | 'theirs'; // Which value to keep
+}
+
+// A book with conflicting columns
+export interface BookConflict {
+  bookId: string; // Book that changed
+  title: string; // Its title, as saved somewhere else
+  version: string; // updated_at of the saved book - the next save is checked against it
+  fields: FieldConflict[]; // Columns that disagree
+}
+
+// Thrown when a book has changed since it was loaded, with the book as it is now (null if deleted)
+export class BookConflictError extends Error {
+  latest: Tables<'books'> | null;
+
+  constructor(latest: Tables<'books'> | null) {
+    super('This book was changed somewhere else');
+    this.name = 'BookConflictError';
+    this.latest = latest;
+  }
+}
+
+// Fetch books as they are now, to compare with edits that conflicted
+// (deleted books are left out, including those moved to the trash)
+export const fetchLatestBooks = async (bookIds: string[]) => {
+  const { data, error } = await supabase.from('books').select('*').in('id', bookIds).is('deleted_at', null);
+  // Throw error if query failed
+  if (error) throw error;
+  return data;
+};
+
+// Whether two values of a column are the same (dates compare by time, as formats vary)
+export const isSameValue = (field: ConflictField, a: unknown, b: unknown) => {
+  if ((field === 'started_at' || field === 'finished_at') && a && b) {
+    return new Date(a as string).getTime() === new Date(b as string).getTime();
+  }
+  return (a ?? null) === (b ?? null);
+};
+
+// Compare your edit with the saved book, column by column
+// Only columns present in yours are compared. With base (the book as it was loaded) each conflict
+// starts on whichever side actually changed the column; without it, your value is kept
+export const diffBookVersions = (
+  yours: BookValues,
+  theirs: Tables<'books'>,
+  base?: BookValues
+): FieldConflict[] =>
+  (Object.keys(conflictFields) as ConflictField[])
+    .filter((field) => field in yours && !isSameValue(field, yours[field], theirs[field]))
+    .map((field) => ({
+      field,
+      label: conflictFields[field],
+      yours: yours[field],
+      theirs: theirs[field],
+      // Keep their value where you left the column as it was
+      choice: base && isSameValue(field, yours[field], base[field]) ? 'theirs' : 'yours',
+    }));
+
+// Your edit with the chosen saved values swapped in
+export const mergeBookVersions = <T extends BookValues>(yours: T, fields: FieldConflict[]): T =>
+  fields.reduce(
+    (merged, conflict) => (conflict.choice === 'theirs' ? { ...merged, [conflict.field]: conflict.theirs } : merged),
+    yours
+  );
+
+// Display text for a column's value
+export const formatConflictValue = (field: ConflictField, value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  switch (field) {
+    case 'status':
+      return statusLabels[value as string] ?? String(value);
+    case 'is_favorite':
+      return value ? 'Yes' : 'No';
+    case 'rating':
+      return `${value} ★`;
+    case 'started_at':
+    case 'finished_at':
+      return format(new Date(value as string), 'MMM d, yyyy');
+    case 'cover_path':
+      return 'Image';
+    default:
+      return String(value);
+  }
+};
@@ -0,0 +1,129 @@
+// Import Supabase client for storage operations
+import { supabase } from '@/integrations/supabase/client';
+
+// Storage bucket holding cover images, in a folder per user and a subfolder per book
+const COVER_BUCKET = 'covers';
+
+// Covers are cropped to a 2:3 portrait, saved at full size for the book page and as a thumbnail
+// for the library grid
+export const COVER_ASPECT = 2 / 3;
+const COVER_WIDTH = 600;
+const THUMBNAIL_WIDTH = 160;
+
+// How long signed cover URLs last - the cache refreshes them well before they expire
+export const COVER_URL_TTL_SECONDS = 60 * 60;
+
+// Part of an image to use as the cover, in the image's own pixels
+export interface CoverCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Path of a cover's thumbnail, stored next to it
+export const getThumbnailPath = (coverPath: string) => coverPath.replace(/\.jpg$/, '-thumb.jpg');
+
+// Load an image file so it can be cropped - revoke its src with URL.revokeObjectURL once done
+export const loadImage = (file: Blob) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('This file is not an image that can be used as a cover'));
+    };
+    image.src = url;
+  });
+
+// Draw the cropped part of an image at a width (keeping the cover's shape) as a JPEG
+const renderCover = (image: HTMLImageElement, crop: CoverCrop, width: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = Math.round(width / COVER_ASPECT);
+    const context = canvas.getContext('2d');
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(image, crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to render the cover'))), 'image/jpeg', 0.85);
+  });
+
+// Crop an image and upload it as a book's cover, with its thumbnail, resolving with the cover's path
+// Every upload gets a new path, so earlier covers stay available for reverting from the book's history
+export const uploadCover = async (userId: string, bookId: string, image: HTMLImageElement, crop: CoverCrop) => {
+  const [cover, thumbnail] = await Promise.all([
+    renderCover(image, crop, Math.min(COVER_WIDTH, Math.round(crop.width))),
+    renderCover(image, crop, THUMBNAIL_WIDTH),
+  ]);
+  const path = `${userId}/${bookId}/${crypto.randomUUID()}.jpg`;
+  const bucket = supabase.storage.from(COVER_BUCKET);
+  for (const [filePath, file] of [
+    [path, cover],
+    [getThumbnailPath(path), thumbnail],
+  ] as const) {
+    const { error } = await bucket.upload(filePath, file, { contentType: 'image/jpeg', cacheControl: '31536000' });
+    // Throw error if upload failed
+    if (error) throw error;
+  }
+  return path;
+};
+
+// The largest 2:3 part of an image, around its centre
+const getCentredCrop = (image: HTMLImageElement): CoverCrop => {
+  const width = Math.min(image.naturalWidth, image.naturalHeight * COVER_ASPECT);
+  const height = width / COVER_ASPECT;
+  return { x: (image.naturalWidth - width) / 2, y: (image.naturalHeight - height) / 2, width, height };
+};
+
+// Upload an image from a URL (such as a looked-up cover's data URL) as a book's cover, cropped around
+// its centre, resolving with the cover's path
+export const importCover = async (userId: string, bookId: string, url: string) => {
+  const response = await fetch(url);
+  const image = await loadImage(await response.blob());
+  try {
+    return await uploadCover(userId, bookId, image, getCentredCrop(image));
+  } finally {
+    URL.revokeObjectURL(image.src);
+  }
+};
+
+// Fetch signed URLs for covers or thumbnails, by path (missing files are left out)
+export const fetchCoverUrls = async (paths: string[]) => {
+  if (paths.length === 0) return {};
+  const { data, error } = await supabase.storage.from(COVER_BUCKET).createSignedUrls(paths, COVER_URL_TTL_SECONDS);
+  // Throw error if signing failed
+  if (error) throw error;
+  return Object.fromEntries(data.filter((file) => file.signedUrl).map((file) => [file.path, file.signedUrl]));
+};
+
+// Delete every cover uploaded for some books (when they are permanently deleted)
+export const removeBookCovers = async (userId: string, bookIds: string[]) => {
+  const bucket = supabase.storage.from(COVER_BUCKET);
+  for (const bookId of bookIds) {
+    const { data, error } = await bucket.list(`${userId}/${bookId}`);
+    // Throw error if listing failed
+    if (error) throw error;
+    if (data.length === 0) continue;
+    const { error: removeError } = await bucket.remove(data.map((file) => `${userId}/${bookId}/${file.name}`));
+    // Throw error if delete failed
+    if (removeError) throw removeError;
+  }
+};
+
+// Small words left out of a title's initials
+const minorWords = new Set(['a', 'an', 'the', 'of', 'and']);
+
+// Placeholder for a book without a cover - the title's initials on a colour picked from the title,
+// so the same book always looks the same
+export const getCoverPlaceholder = (title: string) => {
+  const words = title.split(/\s+/).filter((word) => /\w/.test(word));
+  const significant = words.filter((word) => !minorWords.has(word.toLowerCase()));
+  const initials = (significant.length > 0 ? significant : words)
+    .slice(0, 2)
+    .map((word) => word.match(/\w/)[0].toUpperCase())
+    .join('');
+  // Hash the title into a hue
+  const hue = [...title].reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) % 360, 7);
+  return { initials: initials || '?', color: `hsl(${hue} 40% 38%)` };
+};
@@ -0,0 +1,69 @@
+// Import test helpers
+import { describe, expect, it } from 'vitest';
+// Import CSV helpers under test
+import { parseCsv, parseCsvRecords, toCsv } from '@/lib/csv';
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('a,b,c\n1,2,3\n')).toEqual([
+      ['a', 'b', 'c'],
+      ['1', '2', '3'],
+    ]);
+  });
+
+  it('reads quoted fields with commas, doubled quotes and line breaks', () => {
+    expect(parseCsv('"Dune, Deluxe","She said ""hi""","two\nlines"')).toEqual([
+      ['Dune, Deluxe', 'She said "hi"', 'two\nlines'],
+    ]);
+  });
+
+  it('accepts CRLF line endings and a missing final newline', () => {
+    expect(parseCsv('a,b\r\n1,2')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('keeps empty fields but skips blank lines', () => {
+    expect(parseCsv('a,,c\n\n,\n')).toEqual([
+      ['a', '', 'c'],
+      ['', ''],
+    ]);
+  });
+
+  it('drops a leading byte order mark', () => {
+    expect(parseCsv('\uFEFFTitle\nDune')).toEqual([['Title'], ['Dune']]);
+  });
+});
+
+describe('parseCsvRecords', () => {
+  it('keys each row by the trimmed header', () => {
+    expect(parseCsvRecords(' Title , Author\nDune,Frank Herbert\n')).toEqual([
+      { Title: 'Dune', Author: 'Frank Herbert' },
+    ]);
+  });
+
+  it('fills missing trailing fields with empty strings', () => {
+    expect(parseCsvRecords('Title,Author\nDune\n')).toEqual([{ Title: 'Dune', Author: '' }]);
+  });
+
+  it('has no records without a header row', () => {
+    expect(parseCsvRecords('')).toEqual([]);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes only the fields that need it, with CRLF line endings', () => {
+    expect(toCsv([['Title', 'Review'], ['Dune', 'Spice, "sand"\nworms']])).toBe(
+      'Title,Review\r\nDune,"Spice, ""sand""\nworms"\r\n'
+    );
+  });
+
+  it('round-trips through parseCsv', () => {
+    const rows = [
+      ['Title', 'Review'],
+      ['A, B', 'Line one\r\nLine "two"'],
+    ];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
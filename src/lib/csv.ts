@@ -0,0 +1,71 @@
+// Parse CSV text into rows of fields (RFC 4180: quoted fields, doubled quotes, CRLF or LF line endings)
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // Drop a leading byte order mark added by some spreadsheet tools
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        // Doubled quote inside a quoted field is a literal quote
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        // Closing quote
+        inQuotes = false;
+      } else {
+        // Anything else (including commas and newlines) is part of the field
+        field += char;
+      }
+    } else if (char === '"') {
+      // Opening quote
+      inQuotes = true;
+    } else if (char === ',') {
+      // End of field
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      // End of row (treat CRLF as a single line break)
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  // Keep the last row when the file doesn't end with a newline
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Skip blank lines
+  return rows.filter((fields) => !(fields.length === 1 && fields[0] === ''));
+};
+
+// Parse CSV text into objects keyed by the header row
+export const parseCsvRecords = (text: string): Record<string, string>[] => {
+  const [header, ...rows] = parseCsv(text);
+  // A file without a header row has no records
+  if (!header) return [];
+  const columns = header.map((column) => column.trim());
+  // Missing trailing fields are treated as empty strings
+  return rows.map((fields) =>
+    Object.fromEntries(columns.map((column, index) => [column, fields[index] ?? '']))
+  );
+};
+
+// Quote a CSV field when it contains a comma, quote or line break
+const escapeCsvField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Serialize rows of fields into CSV text (CRLF line endings, as spreadsheet tools expect)
+export const toCsv = (rows: string[][]) =>
+  rows.map((fields) => fields.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
@@ -0,0 +1,71 @@
+// Import date formatting helper for file names
+import { format } from 'date-fns';
+// Import Supabase client for database operations
+import { supabase } from '@/integrations/supabase/client';
+// Import helpers for building the export files
+import { fetchAllRows } from '@/lib/paging';
+import { toCsv } from '@/lib/csv';
+import { GOODREADS_COLUMNS, toGoodreadsRow } from '@/lib/goodreads';
+import { createLibraryBackup } from '@/lib/backup';
+import { countReads } from '@/lib/ratings';
+
+// Start a browser download of a generated file
+export const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  // Click a temporary link to trigger the download
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Release the object URL once the download has started
+  URL.revokeObjectURL(url);
+};
+
+// Build a dated file name, e.g. "booktracker-library-2026-02-14.csv"
+const exportFilename = (extension: string) =>
+  `booktracker-library-${format(new Date(), 'yyyy-MM-dd')}.${extension}`;
+
+// Download every book in the library as a Goodreads-compatible CSV file
+export const exportLibraryCsv = async () => {
+  const books = await fetchAllRows((from, to) =>
+    supabase
+      .from('books')
+      .select('*, book_shelves(shelves(name)), read_throughs(rating, finished_at)')
+      .is('deleted_at', null)
+      .order('created_at')
+      .order('id')
+      .range(from, to)
+  );
+
+  const rows = books.map((book) =>
+    toGoodreadsRow({
+      ...book,
+      shelves: book.book_shelves.flatMap((link) => (link.shelves ? [link.shelves.name] : [])),
+      read_count: countReads(book.read_throughs),
+    })
+  );
+  downloadFile(exportFilename('csv'), toCsv([GOODREADS_COLUMNS, ...rows]), 'text/csv;charset=utf-8');
+  return books.length;
+};
+
+// Download every book in the library as a versioned JSON backup
+export const exportLibraryJson = async () => {
+  const books = await fetchAllRows((from, to) =>
+    supabase
+      .from('books')
+      .select('*')
+      .is('deleted_at', null)
+      .order('created_at')
+      .order('id')
+      .range(from, to)
+  );
+
+  downloadFile(
+    exportFilename('json'),
+    JSON.stringify(createLibraryBackup(books), null, 2),
+    'application/json'
+  );
+  return books.length;
+};
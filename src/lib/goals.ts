@@ -0,0 +1,35 @@
+// Get the start of a calendar year and of the following year, in local time
+export const getYearRange = (year: number) => ({
+  start: new Date(year, 0, 1), // January 1st of the year
+  end: new Date(year + 1, 0, 1), // January 1st of the next year (exclusive)
+});
+
+// The reader's time zone (an IANA name), passed to the statistics functions so they split years
+// where getYearRange does
+export const getTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Fraction of the year that has elapsed at the given time (0 before it starts, 1 after it ends)
+export const getYearElapsedFraction = (year: number, now = new Date()) => {
+  const { start, end } = getYearRange(year);
+  // Clamp so past and future years report a full or empty year
+  const elapsed = Math.min(Math.max(now.getTime() - start.getTime(), 0), end.getTime() - start.getTime());
+  return elapsed / (end.getTime() - start.getTime());
+};
+
+// Compare books finished against where the goal says you should be by now
+// Returns how many books ahead (positive) or behind (negative) of schedule
+export const getGoalPace = (finished: number, target: number, year: number, now = new Date()) => {
+  // Books that should have been finished by now if reading at an even pace
+  const expected = Math.floor(target * getYearElapsedFraction(year, now));
+  return finished - expected;
+};
+
+// Describe the pace in words, e.g. "3 ahead of schedule"
+export const formatGoalPace = (finished: number, target: number, year: number, now = new Date()) => {
+  // A reached goal no longer has a schedule to keep
+  if (finished >= target) return 'goal reached!';
+  const pace = getGoalPace(finished, target, year, now);
+  if (pace > 0) return `${pace} ahead of schedule`;
+  if (pace < 0) return `${-pace} behind schedule`;
+  return 'on schedule';
+};
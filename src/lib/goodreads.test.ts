@@ -0,0 +1,164 @@
+// Import test helpers
+import { describe, expect, it } from 'vitest';
+// Import CSV serializer to build export files
+import { toCsv } from '@/lib/csv';
+// Import Goodreads helpers under test
+import {
+  getBookMatchKey,
+  GOODREADS_COLUMNS,
+  parseGoodreadsDate,
+  parseGoodreadsExport,
+  toGoodreadsRow,
+} from '@/lib/goodreads';
+
+// Build the text of a Goodreads export with the given rows (other columns left empty)
+const buildExport = (rows: Record<string, string>[], columns = GOODREADS_COLUMNS) =>
+  toCsv([columns, ...rows.map((row) => columns.map((column) => row[column] ?? ''))]);
+
+describe('parseGoodreadsDate', () => {
+  it('reads Goodreads dates at local midday', () => {
+    expect(parseGoodreadsDate('2023/05/14')).toBe(new Date(2023, 4, 14, 12).toISOString());
+    expect(parseGoodreadsDate(' 2023/5/4 ')).toBe(new Date(2023, 4, 4, 12).toISOString());
+  });
+
+  it('is null for anything else', () => {
+    expect(parseGoodreadsDate('')).toBeNull();
+    expect(parseGoodreadsDate('14/05/2023')).toBeNull();
+  });
+});
+
+describe('parseGoodreadsExport', () => {
+  it('maps Goodreads columns onto book columns', () => {
+    const [book] = parseGoodreadsExport(
+      buildExport([
+        {
+          Title: ' Dune ',
+          Author: 'Frank Herbert',
+          'My Rating': '4',
+          'Number of Pages': '412',
+          'Date Read': '2023/05/14',
+          'Date Added': '2023/01/02',
+          'Exclusive Shelf': 'read',
+          'My Review': 'Loved it.<br/>The &quot;spice&quot; &amp; <b>sand</b>',
+        },
+      ])
+    );
+    expect(book).toEqual({
+      title: 'Dune',
+      author: 'Frank Herbert',
+      status: 'read',
+      rating: 4,
+      review: 'Loved it.\nThe "spice" & sand',
+      page_count: 412,
+      finished_at: new Date(2023, 4, 14, 12).toISOString(),
+      added_at: new Date(2023, 0, 2, 12).toISOString(),
+    });
+  });
+
+  it('maps shelves onto statuses, with custom shelves as want to read', () => {
+    const books = parseGoodreadsExport(
+      buildExport([
+        { Title: 'A', 'Exclusive Shelf': 'to-read' },
+        { Title: 'B', 'Exclusive Shelf': 'currently-reading' },
+        { Title: 'C', 'Exclusive Shelf': 'abandoned' },
+      ])
+    );
+    expect(books.map((book) => book.status)).toEqual(['want_to_read', 'reading', 'want_to_read']);
+  });
+
+  it('treats a 0 rating, missing pages and an empty review as unknown', () => {
+    const [book] = parseGoodreadsExport(
+      buildExport([{ Title: 'Dune', 'My Rating': '0', 'Number of Pages': '', 'Exclusive Shelf': 'to-read' }])
+    );
+    expect(book.rating).toBeNull();
+    expect(book.page_count).toBeNull();
+    expect(book.review).toBeNull();
+    expect(book.finished_at).toBeNull();
+  });
+
+  it('falls back to Date Added for read books without a Date Read', () => {
+    const [book] = parseGoodreadsExport(
+      buildExport([{ Title: 'Dune', 'Date Added': '2020/03/01', 'Exclusive Shelf': 'read' }])
+    );
+    expect(book.finished_at).toBe(new Date(2020, 2, 1, 12).toISOString());
+  });
+
+  it('skips rows without a title', () => {
+    const books = parseGoodreadsExport(buildExport([{ Title: ' ', 'Exclusive Shelf': 'read' }, { Title: 'Dune' }]));
+    expect(books.map((book) => book.title)).toEqual(['Dune']);
+  });
+
+  it('accepts an export without an Author column', () => {
+    const [book] = parseGoodreadsExport(
+      buildExport([{ Title: 'Dune', 'Exclusive Shelf': 'read' }], ['Title', 'Exclusive Shelf'])
+    );
+    expect(book.author).toBeNull();
+  });
+
+  it('rejects files that are not a Goodreads export', () => {
+    expect(() => parseGoodreadsExport('Name,Pages\nDune,412\n')).toThrow('This file is not a Goodreads library export.');
+  });
+});
+
+describe('toGoodreadsRow', () => {
+  it('builds a row in Goodreads column order', () => {
+    const row = toGoodreadsRow({
+      title: 'The Left Hand of Darkness',
+      author: 'Ursula K. Le Guin',
+      status: 'reading',
+      rating: null,
+      review: null,
+      page_count: 304,
+      finished_at: null,
+      created_at: new Date(2024, 6, 9, 12).toISOString(),
+      shelves: ['sci-fi'],
+      read_count: 0,
+    });
+    const values = Object.fromEntries(GOODREADS_COLUMNS.map((column, index) => [column, row[index]]));
+    expect(row).toHaveLength(GOODREADS_COLUMNS.length);
+    expect(values['Author l-f']).toBe('Guin, Ursula K. Le');
+    expect(values['My Rating']).toBe('0');
+    expect(values['Number of Pages']).toBe('304');
+    expect(values['Date Added']).toBe('2024/07/09');
+    expect(values['Bookshelves']).toBe('currently-reading, sci-fi');
+    expect(values['Exclusive Shelf']).toBe('currently-reading');
+    expect(values['ISBN']).toBe('');
+  });
+
+  it('round-trips through the importer', () => {
+    const text = toCsv([
+      GOODREADS_COLUMNS,
+      toGoodreadsRow({
+        title: 'Dune',
+        author: 'Frank Herbert',
+        status: 'read',
+        rating: 5,
+        review: 'Spice, "sand"',
+        page_count: 412,
+        finished_at: new Date(2023, 4, 14, 12).toISOString(),
+        created_at: new Date(2023, 0, 2, 12).toISOString(),
+        shelves: [],
+        read_count: 1,
+      }),
+    ]);
+    expect(parseGoodreadsExport(text)).toEqual([
+      {
+        title: 'Dune',
+        author: 'Frank Herbert',
+        status: 'read',
+        rating: 5,
+        review: 'Spice, "sand"',
+        page_count: 412,
+        finished_at: new Date(2023, 4, 14, 12).toISOString(),
+        added_at: new Date(2023, 0, 2, 12).toISOString(),
+      },
+    ]);
+  });
+});
+
+describe('getBookMatchKey', () => {
+  it('ignores case and spacing', () => {
+    expect(getBookMatchKey(' Dune ', 'Frank  Herbert')).toBe(getBookMatchKey('dune', 'frank herbert'));
+    expect(getBookMatchKey('Dune', null)).toBe('dune|');
+  });
+});
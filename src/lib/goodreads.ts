@@ -0,0 +1,167 @@
+// Import CSV parsing helper
+import { parseCsvRecords } from '@/lib/csv';
+
+// Define type for book reading status - matches database enum
+type BookStatus = 'want_to_read' | 'reading' | 'read';
+
+// A book read from a Goodreads library export, mapped onto our columns
+export interface GoodreadsBook {
+  title: string; // Book title
+  author: string | null; // Primary author
+  status: BookStatus; // Mapped from the exclusive shelf
+  rating: number | null; // My Rating (Goodreads uses 0 for "not rated")
+  review: string | null; // My Review, converted from HTML to plain text
+  page_count: number | null; // Number of Pages
+  finished_at: string | null; // Date Read, as an ISO timestamp
+  added_at: string | null; // Date Added, as an ISO timestamp
+}
+
+// Map Goodreads' built-in exclusive shelves onto our statuses (custom shelves count as want to read)
+const shelfStatuses: Record<string, BookStatus> = {
+  'to-read': 'want_to_read',
+  'currently-reading': 'reading',
+  read: 'read',
+};
+
+// Map our statuses back onto Goodreads' exclusive shelves for export
+const statusShelves: Record<BookStatus, string> = {
+  want_to_read: 'to-read',
+  reading: 'currently-reading',
+  read: 'read',
+};
+
+// Columns of a Goodreads library export, in Goodreads' order
+export const GOODREADS_COLUMNS = [
+  'Book Id',
+  'Title',
+  'Author',
+  'Author l-f',
+  'Additional Authors',
+  'ISBN',
+  'ISBN13',
+  'My Rating',
+  'Average Rating',
+  'Publisher',
+  'Binding',
+  'Number of Pages',
+  'Year Published',
+  'Original Publication Year',
+  'Date Read',
+  'Date Added',
+  'Bookshelves',
+  'Bookshelves with positions',
+  'Exclusive Shelf',
+  'My Review',
+  'Spoiler',
+  'Private Notes',
+  'Read Count',
+  'Owned Copies',
+];
+
+// A library book with the extra details needed for a Goodreads row
+export interface GoodreadsExportBook {
+  title: string; // Book title
+  author: string | null; // Author name
+  status: BookStatus; // Reading status
+  rating: number | null; // User rating 1-5
+  review: string | null; // User's review text
+  page_count: number | null; // Total pages
+  finished_at: string | null; // When the book was finished
+  created_at: string; // When the book was added
+  shelves: string[]; // Names of the shelves the book is on
+  read_count: number; // Number of finished readings
+}
+
+// Format an ISO timestamp as a Goodreads date ("2023/05/14")
+const formatGoodreadsDate = (value: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  const pad = (part: number) => String(part).padStart(2, '0');
+  return `${date.getFullYear()}/${pad(date.getMonth() + 1)}/${pad(date.getDate())}`;
+};
+
+// Turn "Ursula K. Le Guin" into "Le Guin, Ursula K." style "Author l-f" (best effort: last word is the surname)
+const toLastFirst = (author: string | null) => {
+  if (!author) return '';
+  const parts = author.trim().split(/\s+/);
+  if (parts.length < 2) return author.trim();
+  return `${parts[parts.length - 1]}, ${parts.slice(0, -1).join(' ')}`;
+};
+
+// Build a Goodreads export row (matching GOODREADS_COLUMNS) for a library book
+export const toGoodreadsRow = (book: GoodreadsExportBook): string[] => {
+  const exclusiveShelf = statusShelves[book.status];
+  const values: Record<string, string> = {
+    Title: book.title,
+    Author: book.author ?? '',
+    'Author l-f': toLastFirst(book.author),
+    'My Rating': String(book.rating ?? 0), // Goodreads uses 0 for "not rated"
+    'Number of Pages': book.page_count ? String(book.page_count) : '',
+    'Date Read': formatGoodreadsDate(book.finished_at),
+    'Date Added': formatGoodreadsDate(book.created_at),
+    Bookshelves: [exclusiveShelf, ...book.shelves].join(', '),
+    'Exclusive Shelf': exclusiveShelf,
+    'My Review': book.review ?? '',
+    'Read Count': String(book.read_count),
+    'Owned Copies': '0',
+  };
+  // Columns we have no data for are left empty
+  return GOODREADS_COLUMNS.map((column) => values[column] ?? '');
+};
+
+// Parse a Goodreads date ("2023/05/14") into an ISO timestamp at local midday
+export const parseGoodreadsDate = (value: string) => {
+  const match = value.trim().match(/^(\d{4})\/(\d{1,2})\/(\d{1,2})$/);
+  if (!match) return null;
+  // Midday keeps the calendar day stable when shifted between time zones
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]), 12).toISOString();
+};
+
+// Convert the HTML Goodreads stores in reviews into plain text
+const reviewToText = (html: string) =>
+  html
+    .replace(/<br\s*\/?>/gi, '\n') // Line breaks become newlines
+    .replace(/<[^>]+>/g, '') // Other tags are dropped
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .trim();
+
+// Parse the text of a Goodreads "goodreads_library_export.csv" file
+export const parseGoodreadsExport = (text: string): GoodreadsBook[] => {
+  const records = parseCsvRecords(text);
+  // Reject files that don't look like a Goodreads export
+  if (records.length > 0 && !('Title' in records[0] && 'Exclusive Shelf' in records[0])) {
+    throw new Error('This file is not a Goodreads library export.');
+  }
+
+  return records
+    .filter((record) => record['Title'].trim())
+    .map((record) => {
+      const rating = parseInt(record['My Rating'], 10);
+      const pageCount = parseInt(record['Number of Pages'], 10);
+      const status = shelfStatuses[record['Exclusive Shelf'].trim()] ?? 'want_to_read';
+      const addedAt = parseGoodreadsDate(record['Date Added'] ?? '');
+      // Goodreads often has no Date Read for older books - fall back to Date Added
+      // so the database doesn't stamp them as finished today
+      const finishedAt =
+        status === 'read' ? parseGoodreadsDate(record['Date Read'] ?? '') ?? addedAt : null;
+
+      return {
+        title: record['Title'].trim(),
+        author: record['Author']?.trim() || null, // Optional column
+        status,
+        rating: rating >= 1 && rating <= 5 ? rating : null,
+        review: reviewToText(record['My Review'] ?? '') || null,
+        page_count: pageCount > 0 ? pageCount : null,
+        finished_at: finishedAt,
+        added_at: addedAt,
+      };
+    });
+};
+
+// Build a key for matching books by title and author (case and spacing insensitive)
+export const getBookMatchKey = (title: string, author: string | null) =>
+  `${title.trim()}|${(author ?? '').trim()}`.toLowerCase().replace(/\s+/g, ' ');
@@ -0,0 +1,61 @@
+// Import test helpers
+import { describe, expect, it } from 'vitest';
+// Import ISBN helpers under test
+import { isbn10To13, isbn13To10, isValidIsbn10, isValidIsbn13, parseIsbn } from '@/lib/isbn';
+
+describe('isValidIsbn10', () => {
+  it('accepts ISBN-10s with a correct check digit', () => {
+    expect(isValidIsbn10('0306406152')).toBe(true);
+    // X stands for a check digit of 10
+    expect(isValidIsbn10('080442957X')).toBe(true);
+  });
+
+  it('rejects a wrong check digit or a malformed ISBN', () => {
+    expect(isValidIsbn10('0306406153')).toBe(false);
+    expect(isValidIsbn10('08044295X7')).toBe(false);
+    expect(isValidIsbn10('030640615')).toBe(false);
+  });
+});
+
+describe('isValidIsbn13', () => {
+  it('accepts ISBN-13s with a correct check digit', () => {
+    expect(isValidIsbn13('9780306406157')).toBe(true);
+    expect(isValidIsbn13('9791234567896')).toBe(true);
+  });
+
+  it('rejects a wrong check digit or a prefix other than 978/979', () => {
+    expect(isValidIsbn13('9780306406158')).toBe(false);
+    // Correct checksum, but not a book number
+    expect(isValidIsbn13('1234567890128')).toBe(false);
+  });
+});
+
+describe('ISBN conversion', () => {
+  it('converts ISBN-10s to ISBN-13s and back', () => {
+    expect(isbn10To13('0306406152')).toBe('9780306406157');
+    expect(isbn13To10('9780306406157')).toBe('0306406152');
+    expect(isbn10To13('080442957X')).toBe('9780804429573');
+    expect(isbn13To10('9780547928227')).toBe('054792822X');
+  });
+
+  it('has no ISBN-10 for 979 ISBNs', () => {
+    expect(isbn13To10('9791234567896')).toBeNull();
+  });
+});
+
+describe('parseIsbn', () => {
+  it('reads ISBNs printed with hyphens and spaces', () => {
+    expect(parseIsbn('978-0-306-40615-7')).toEqual({ isbn13: '9780306406157', isbn10: '0306406152', error: null });
+    expect(parseIsbn(' 0 8044 2957 x ')).toEqual({ isbn13: '9780804429573', isbn10: '080442957X', error: null });
+  });
+
+  it('treats an empty input as no ISBN', () => {
+    expect(parseIsbn('  ')).toEqual({ isbn13: null, isbn10: null, error: null });
+  });
+
+  it('explains why an ISBN is invalid', () => {
+    expect(parseIsbn('0306406153').error).toMatch(/ISBN-10 has a typo/);
+    expect(parseIsbn('9780306406158').error).toMatch(/ISBN-13 has a typo/);
+    expect(parseIsbn('12345').error).toBe('An ISBN has 10 or 13 digits');
+  });
+});
@@ -0,0 +1,60 @@
+// Result of reading an ISBN typed by the reader
+export interface ParsedIsbn {
+  isbn13: string | null; // The ISBN as 13 digits (null when empty or invalid)
+  isbn10: string | null; // The same ISBN as 10 characters, when it has one (978 prefix only)
+  error: string | null; // Why the input isn't a valid ISBN (null when valid or empty)
+}
+
+// Strip the spaces and hyphens ISBNs are usually printed with
+const cleanIsbn = (input: string) => input.replace(/[\s-]/g, '').toUpperCase();
+
+// Check digit of the first 9 digits of an ISBN-10 (X stands for 10)
+const isbn10CheckDigit = (digits: string) => {
+  const sum = [...digits].reduce((total, digit, index) => total + Number(digit) * (10 - index), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? 'X' : String(check);
+};
+
+// Check digit of the first 12 digits of an ISBN-13
+const isbn13CheckDigit = (digits: string) => {
+  const sum = [...digits].reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return String((10 - (sum % 10)) % 10);
+};
+
+// Whether a cleaned ISBN-10 has a correct check digit
+export const isValidIsbn10 = (isbn: string) =>
+  /^\d{9}[\dX]$/.test(isbn) && isbn10CheckDigit(isbn.slice(0, 9)) === isbn[9];
+
+// Whether a cleaned ISBN-13 has a correct check digit (and a bookland prefix)
+export const isValidIsbn13 = (isbn: string) =>
+  /^97[89]\d{10}$/.test(isbn) && isbn13CheckDigit(isbn.slice(0, 12)) === isbn[12];
+
+// Convert a valid ISBN-10 to its ISBN-13
+export const isbn10To13 = (isbn10: string) => {
+  const digits = `978${isbn10.slice(0, 9)}`;
+  return digits + isbn13CheckDigit(digits);
+};
+
+// Convert a valid ISBN-13 to its ISBN-10 (null for 979 ISBNs, which have none)
+export const isbn13To10 = (isbn13: string) => {
+  if (!isbn13.startsWith('978')) return null;
+  const digits = isbn13.slice(3, 12);
+  return digits + isbn10CheckDigit(digits);
+};
+
+// Read an ISBN-10 or ISBN-13 as typed, checking its check digit
+export const parseIsbn = (input: string): ParsedIsbn => {
+  const isbn = cleanIsbn(input);
+  if (!isbn) return { isbn13: null, isbn10: null, error: null };
+  if (isbn.length === 10) {
+    return isValidIsbn10(isbn)
+      ? { isbn13: isbn10To13(isbn), isbn10: isbn, error: null }
+      : { isbn13: null, isbn10: null, error: 'This ISBN-10 has a typo - its check digit does not match' };
+  }
+  if (isbn.length === 13) {
+    return isValidIsbn13(isbn)
+      ? { isbn13: isbn, isbn10: isbn13To10(isbn), error: null }
+      : { isbn13: null, isbn10: null, error: 'This ISBN-13 has a typo - its check digit does not match' };
+  }
+  return { isbn13: null, isbn10: null, error: 'An ISBN has 10 or 13 digits' };
+};
@@ -0,0 +1,161 @@
+// Import Supabase client for database operations
+import { supabase } from '@/integrations/supabase/client';
+// Import generated database types
+import type { TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+// Import helper for saving shelf assignments
+import { setBookShelves } from '@/lib/shelves';
+// Import helpers for comparing queued changes with the server's version
+import { BookConflict, BookValues, diffBookVersions, fetchLatestBooks, mergeBookVersions } from '@/lib/conflicts';
+// Import browser database helpers
+import { deleteOfflineValue, getAllOfflineValues, getOfflineValue, putOfflineValue } from '@/lib/offlineStore';
+
+// A book write made without a connection, waiting to be sent
+// There is at most one per book - later writes to the same book are folded into it
+export interface QueuedBookWrite {
+  bookId: string; // Book written (generated on this device for new books)
+  userId: string; // Owner, so another account on the device never sends it
+  kind: 'insert' | 'update'; // A new book, or changes to an existing one
+  values: TablesUpdate<'books'>; // Columns to write
+  version?: string; // updated_at the changes were made against - replay checks the book hasn't moved on
+  base?: BookValues; // The columns as they were when editing started, for suggesting merges
+  shelfIds?: string[]; // Shelves to put the book on, when they were changed
+  queuedAt: string; // When the first write was queued, for sending in order
+}
+
+// What replaying the queue did
+export interface ReplayResult {
+  synced: number; // Writes sent
+  conflicts: BookConflict[]; // Books changed on the server since - left queued until merged or discarded
+  failures: QueuedBookWrite[]; // Writes the server refused - dropped, as sending them again won't help
+}
+
+// Number of writes waiting for the signed-in user, and listeners told when it changes
+let queuedCount = 0;
+const listeners = new Set<() => void>();
+
+// Listen for changes to the number of queued writes
+export const subscribeToQueue = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Number of queued writes
+export const getQueuedCount = () => queuedCount;
+
+// Whether the browser knows it has no connection
+export const isOffline = () => !navigator.onLine;
+
+// Whether a request failed without reaching the server (no signal, or the connection dropped)
+export const isNetworkError = (error: unknown) =>
+  isOffline() || /failed to fetch|networkerror|load failed|network request failed/i.test(String((error as Error)?.message));
+
+// Read a user's queued writes, oldest first
+const getQueuedWrites = async (userId: string) =>
+  (await getAllOfflineValues<QueuedBookWrite>('queue'))
+    .filter((write) => write.userId === userId)
+    .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+
+// Re-count a user's queued writes and tell listeners
+export const refreshQueuedCount = async (userId: string) => {
+  queuedCount = (await getQueuedWrites(userId)).length;
+  listeners.forEach((listener) => listener());
+};
+
+// Queue a book write to send once the connection is back
+// A write to a book that already has one queued is folded in, keeping the first version and base,
+// so the changes are sent (and checked for conflicts) together
+export const queueBookWrite = async (write: Omit<QueuedBookWrite, 'queuedAt'>) => {
+  const existing = await getOfflineValue<QueuedBookWrite>('queue', write.bookId);
+  const queued: QueuedBookWrite = existing
+    ? {
+        ...existing,
+        values: { ...existing.values, ...write.values },
+        version: existing.version ?? write.version,
+        base: { ...write.base, ...existing.base },
+        shelfIds: write.shelfIds ?? existing.shelfIds,
+      }
+    : { ...write, queuedAt: new Date().toISOString() };
+  await putOfflineValue('queue', queued);
+  await refreshQueuedCount(write.userId);
+};
+
+// Send one queued write, resolving with a conflict when the book has changed on the server since
+const sendWrite = async (write: QueuedBookWrite): Promise<BookConflict | null> => {
+  if (write.kind === 'insert') {
+    // The ID was generated on this device - if an earlier attempt got through, it is already there
+    const { error } = await supabase
+      .from('books')
+      .upsert({ ...write.values, id: write.bookId, user_id: write.userId } as TablesInsert<'books'>, {
+        onConflict: 'id',
+        ignoreDuplicates: true,
+      });
+    // Throw error if insert failed
+    if (error) throw error;
+  } else {
+    // Only update the book if it hasn't changed since the edit started
+    let query = supabase.from('books').update(write.values).eq('id', write.bookId);
+    if (write.version) query = query.eq('updated_at', write.version);
+    const { data, error } = await query.select('id');
+    // Throw error if update failed
+    if (error) throw error;
+    if (data.length === 0) {
+      const [latest] = await fetchLatestBooks([write.bookId]);
+      if (!latest) throw new Error('This book no longer exists');
+      const fields = diffBookVersions(write.values, latest, write.base);
+      if (fields.length > 0) {
+        return { bookId: write.bookId, title: latest.title, version: latest.updated_at, fields };
+      }
+      // Nothing being sent differs from theirs - send it again against their version
+      return sendWrite({ ...write, version: latest.updated_at });
+    }
+  }
+  // Shelf assignments follow the book
+  if (write.shelfIds) await setBookShelves(write.bookId, write.userId, write.shelfIds);
+  return null;
+};
+
+// Send a user's queued writes in order, stopping if the connection drops again
+export const replayQueuedWrites = async (userId: string): Promise<ReplayResult> => {
+  const result: ReplayResult = { synced: 0, conflicts: [], failures: [] };
+  for (const write of await getQueuedWrites(userId)) {
+    try {
+      const conflict = await sendWrite(write);
+      if (conflict) {
+        result.conflicts.push(conflict);
+        continue;
+      }
+      await deleteOfflineValue('queue', write.bookId);
+      result.synced += 1;
+    } catch (error) {
+      // Still no connection - leave the rest for the next attempt
+      if (isNetworkError(error)) break;
+      await deleteOfflineValue('queue', write.bookId);
+      result.failures.push(write);
+    }
+  }
+  await refreshQueuedCount(userId);
+  return result;
+};
+
+// Apply the choices made for conflicting queued writes, ready to be sent against the server's version
+export const resolveQueuedConflicts = async (userId: string, conflicts: BookConflict[]) => {
+  for (const conflict of conflicts) {
+    const write = await getOfflineValue<QueuedBookWrite>('queue', conflict.bookId);
+    if (!write) continue;
+    await putOfflineValue('queue', {
+      ...write,
+      values: mergeBookVersions(write.values, conflict.fields),
+      version: conflict.version,
+      base: undefined,
+    });
+  }
+  await refreshQueuedCount(userId);
+};
+
+// Drop queued writes, keeping the server's version of the books
+export const discardQueuedWrites = async (userId: string, bookIds: string[]) => {
+  for (const bookId of bookIds) await deleteOfflineValue('queue', bookId);
+  await refreshQueuedCount(userId);
+};
@@ -0,0 +1,55 @@
+// Name and version of the browser database holding the offline copy of the library
+const DB_NAME = 'booktracker-offline';
+const DB_VERSION = 1;
+
+// Object stores - the saved query cache (keyed by user ID) and book writes waiting to be sent (keyed by book ID)
+export type OfflineStoreName = 'cache' | 'queue';
+
+// Shared connection, opened (and on first use created) when first needed
+let connection: Promise<IDBDatabase> | null = null;
+
+// Open the database, creating its stores the first time
+const openDatabase = () => {
+  connection ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore('cache');
+      request.result.createObjectStore('queue', { keyPath: 'bookId' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return connection;
+};
+
+// Run a request in its own transaction, resolving with the result once the transaction has committed
+const run = async <T>(
+  storeName: OfflineStoreName,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const database = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = database.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Read one value (undefined when missing)
+export const getOfflineValue = <T>(storeName: OfflineStoreName, key: string) =>
+  run(storeName, 'readonly', (store) => store.get(key) as IDBRequest<T | undefined>);
+
+// Read every value in a store
+export const getAllOfflineValues = <T>(storeName: OfflineStoreName) =>
+  run(storeName, 'readonly', (store) => store.getAll() as IDBRequest<T[]>);
+
+// Add or replace a value (stores keyed by a property of the value take no key)
+export const putOfflineValue = (storeName: OfflineStoreName, value: unknown, key?: string) =>
+  run(storeName, 'readwrite', (store) => (key === undefined ? store.put(value) : store.put(value, key)));
+
+// Remove a value
+export const deleteOfflineValue = (storeName: OfflineStoreName, key: string) =>
+  run(storeName, 'readwrite', (store) => store.delete(key));
@@ -0,0 +1,21 @@
+// Import Supabase error type for page results
+import type { PostgrestError } from '@supabase/supabase-js';
+
+// Number of rows requested per page (Supabase caps rows per request at 1000 by default)
+const PAGE_SIZE = 1000;
+
+// Fetch every row of a query by requesting it one page at a time
+// The query must have a stable order so pages don't overlap
+export const fetchAllRows = async <T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+) => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    // Throw error if query failed
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    // Stop after the last (partial) page
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
@@ -0,0 +1,63 @@
+// Import test helpers
+import { describe, expect, it } from 'vitest';
+// Import progress helpers under test
+import { formatProgress, getProgressPercent, parseProgressInput } from '@/lib/progress';
+
+describe('parseProgressInput', () => {
+  it('reads a page with or without a prefix', () => {
+    expect(parseProgressInput('212', 640)).toEqual({ currentPage: 212 });
+    expect(parseProgressInput('page 212', 640)).toEqual({ currentPage: 212 });
+    expect(parseProgressInput(' P. 212 ', 640)).toEqual({ currentPage: 212 });
+    expect(parseProgressInput('pg 5', null)).toEqual({ currentPage: 5 });
+  });
+
+  it('treats an empty input as not started', () => {
+    expect(parseProgressInput('   ', 640)).toEqual({ currentPage: 0 });
+  });
+
+  it('converts a percentage to the nearest page', () => {
+    expect(parseProgressInput('33%', 640)).toEqual({ currentPage: 211 });
+    expect(parseProgressInput('12.5 %', 200)).toEqual({ currentPage: 25 });
+    expect(parseProgressInput('100%', 640)).toEqual({ currentPage: 640 });
+  });
+
+  it('needs the page count for a percentage', () => {
+    expect(parseProgressInput('33%', null).error).toBe('Enter the total number of pages to use a percentage.');
+  });
+
+  it('rejects progress past the end of the book', () => {
+    expect(parseProgressInput('101%', 640).error).toBe('Progress cannot be more than 100%.');
+    expect(parseProgressInput('641', 640).error).toBe('Page 641 is past the end of the book (640 pages).');
+  });
+
+  it('allows any page when the page count is unknown', () => {
+    expect(parseProgressInput('5000', null)).toEqual({ currentPage: 5000 });
+  });
+
+  it('explains the expected format for anything else', () => {
+    expect(parseProgressInput('halfway', 640).error).toMatch(/Enter a page like/);
+    expect(parseProgressInput('-5', 640).error).toMatch(/Enter a page like/);
+  });
+});
+
+describe('getProgressPercent', () => {
+  it('derives the percentage from pages', () => {
+    expect(getProgressPercent(212, 640)).toBe(33);
+    expect(getProgressPercent(0, 640)).toBe(0);
+  });
+
+  it('is 0 without a page count and never more than 100', () => {
+    expect(getProgressPercent(212, null)).toBe(0);
+    expect(getProgressPercent(700, 640)).toBe(100);
+  });
+});
+
+describe('formatProgress', () => {
+  it('shows pages and percentage when the page count is known', () => {
+    expect(formatProgress(212, 640)).toBe('212 / 640 pages (33%)');
+  });
+
+  it('shows the page alone otherwise', () => {
+    expect(formatProgress(212, null)).toBe('Page 212');
+  });
+});
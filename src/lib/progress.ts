@@ -0,0 +1,56 @@
+// Result of parsing the free-form progress input - either a page or an error message
+export type ProgressParseResult =
+  | { currentPage: number; error?: undefined }
+  | { currentPage?: undefined; error: string };
+
+// Parse progress entered as a page ("212", "page 212", "p. 212") or a percentage ("33%")
+export const parseProgressInput = (
+  input: string,
+  pageCount: number | null
+): ProgressParseResult => {
+  // Normalise whitespace and casing before matching
+  const value = input.trim().toLowerCase();
+  // An empty input means the book has not been started
+  if (!value) return { currentPage: 0 };
+
+  // Percentages are converted to a page, which requires knowing the page count
+  const percentMatch = value.match(/^(\d+(?:\.\d+)?)\s*%$/);
+  if (percentMatch) {
+    if (!pageCount) {
+      return { error: 'Enter the total number of pages to use a percentage.' };
+    }
+    const percent = Number(percentMatch[1]);
+    if (percent > 100) {
+      return { error: 'Progress cannot be more than 100%.' };
+    }
+    return { currentPage: Math.round((percent / 100) * pageCount) };
+  }
+
+  // Plain numbers and "page"/"p." prefixes are treated as a page number
+  const pageMatch = value.match(/^(?:page|pg\.?|p\.?)?\s*(\d+)$/);
+  if (pageMatch) {
+    const page = Number(pageMatch[1]);
+    if (pageCount && page > pageCount) {
+      return { error: `Page ${page} is past the end of the book (${pageCount} pages).` };
+    }
+    return { currentPage: page };
+  }
+
+  // Anything else is not understood
+  return { error: 'Enter a page like "page 212" or a percentage like "33%".' };
+};
+
+// Derive the percentage read from the current page and page count
+export const getProgressPercent = (currentPage: number, pageCount: number | null) => {
+  // Without a page count there is no meaningful percentage
+  if (!pageCount) return 0;
+  // Clamp to 100 in case the values are momentarily out of sync
+  return Math.min(100, Math.round((currentPage / pageCount) * 100));
+};
+
+// Format progress for display, e.g. "212 / 640 pages (33%)"
+export const formatProgress = (currentPage: number, pageCount: number | null) => {
+  // Fall back to the page number alone when the page count is unknown
+  if (!pageCount) return `Page ${currentPage}`;
+  return `${currentPage} / ${pageCount} pages (${getProgressPercent(currentPage, pageCount)}%)`;
+};
@@ -0,0 +1,53 @@
+// Import React Query helpers for saving and restoring the cache
+import { dehydrate, DehydratedState, hydrate, QueryClient } from '@tanstack/react-query';
+// Import browser database helpers
+import { deleteOfflineValue, getOfflineValue, putOfflineValue } from '@/lib/offlineStore';
+
+// Queries saved for offline use - books (lists, details, counts), shelves and smart shelves
+const PERSISTED_KEYS = ['books', 'shelves', 'smartShelves'];
+
+// Longest the saved copy lags behind the cache
+const SAVE_DELAY_MS = 1000;
+
+// Shape of the saved copy - bump to ignore copies saved by an older version of the app
+const CACHE_VERSION = 1;
+
+// A saved copy of the cache
+interface SavedCache {
+  version: number; // CACHE_VERSION when it was saved
+  state: DehydratedState; // The cached queries
+}
+
+// Load a user's saved copy of the cache into the query client (cached data that is newer is kept)
+export const restoreQueryCache = async (queryClient: QueryClient, userId: string) => {
+  const saved = await getOfflineValue<SavedCache>('cache', userId);
+  if (saved?.version === CACHE_VERSION) hydrate(queryClient, saved.state);
+};
+
+// Keep a user's copy of the cache up to date as queries load, returning a function that stops it
+export const persistQueryCache = (queryClient: QueryClient, userId: string) => {
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+
+  // Save every successful book, shelf and smart shelf query
+  const save = () => {
+    timeout = null;
+    const state = dehydrate(queryClient, {
+      shouldDehydrateQuery: (query) =>
+        query.state.status === 'success' && PERSISTED_KEYS.includes(query.queryKey[0] as string),
+    });
+    // A failed save only means the offline copy is a little older
+    putOfflineValue('cache', { version: CACHE_VERSION, state } satisfies SavedCache, userId).catch(() => undefined);
+  };
+
+  // Save shortly after the cache changes, batching bursts of updates
+  const unsubscribe = queryClient.getQueryCache().subscribe((event) => {
+    if (event.type === 'updated' && !timeout) timeout = setTimeout(save, SAVE_DELAY_MS);
+  });
+  return () => {
+    unsubscribe();
+    if (timeout) clearTimeout(timeout);
+  };
+};
+
+// Remove a user's saved copy of the cache (on sign out, so the next person can't read it)
+export const clearPersistedCache = (userId: string) => deleteOfflineValue('cache', userId);
@@ -0,0 +1,45 @@
+// Import Supabase user type for reading the saved preference
+import type { User } from '@supabase/supabase-js';
+
+// How a book's headline rating is derived from its read-throughs
+export type RatingMode = 'latest' | 'average';
+
+// Minimal read-through shape needed to derive a rating
+interface RatedReadThrough {
+  rating: number | null; // Rating given for this reading (optional)
+  finished_at: string | null; // When this reading was finished (optional)
+}
+
+// Read the user's rating mode preference from their profile metadata (defaults to latest)
+export const getRatingMode = (user: User | null): RatingMode =>
+  user?.user_metadata?.rating_mode === 'average' ? 'average' : 'latest';
+
+// Derive a book's headline rating from its read-throughs
+// Falls back to the book's own rating when no reading has been rated
+export const deriveRating = (
+  readThroughs: RatedReadThrough[],
+  fallback: number | null,
+  mode: RatingMode
+) => {
+  // Only readings that were actually rated count
+  const rated = readThroughs.filter((readThrough) => readThrough.rating !== null);
+  if (rated.length === 0) return fallback;
+
+  if (mode === 'average') {
+    // Average of all rated readings, rounded to one decimal place
+    const total = rated.reduce((sum, readThrough) => sum + readThrough.rating!, 0);
+    return Math.round((total / rated.length) * 10) / 10;
+  }
+
+  // Rating of the most recently finished reading (unfinished readings sort last)
+  const latest = [...rated].sort((a, b) => {
+    if (!a.finished_at) return 1;
+    if (!b.finished_at) return -1;
+    return b.finished_at.localeCompare(a.finished_at);
+  })[0];
+  return latest.rating;
+};
+
+// Count the finished readings of a book
+export const countReads = (readThroughs: RatedReadThrough[]) =>
+  readThroughs.filter((readThrough) => readThrough.finished_at).length;
@@ -0,0 +1,154 @@
+// Import test helpers
+import { describe, expect, it } from 'vitest';
+// Import search query parser and compiler under test
+import {
+  compileSearchNode,
+  compileSearchQuery,
+  createFieldNode,
+  getSearchField,
+  parseSearchQuery,
+} from '@/lib/searchQuery';
+
+// Local-time range boundaries as the compiler writes them
+const iso = (...parts: [number, number, number]) => new Date(...parts).toISOString();
+
+describe('parseSearchQuery', () => {
+  it('splits words, phrases and field filters', () => {
+    const { terms, error } = parseSearchQuery('dune "left hand" status:read');
+    expect(error).toBeNull();
+    expect(terms.map((term) => term.type)).toEqual(['text', 'text', 'field']);
+    expect(terms[1]).toEqual({ type: 'text', value: 'left hand', phrase: true });
+  });
+
+  it('treats unknown names before a colon as text', () => {
+    const { terms } = parseSearchQuery('Mistborn: constructor:x');
+    expect(terms).toEqual([
+      { type: 'text', value: 'Mistborn:', phrase: false },
+      { type: 'text', value: 'constructor:x', phrase: false },
+    ]);
+  });
+
+  it('groups terms joined by OR and negates terms with a leading -', () => {
+    const { terms } = parseSearchQuery('-dune status:read OR fav:yes');
+    expect(terms[0]).toEqual({ type: 'not', node: { type: 'text', value: 'dune', phrase: false } });
+    expect(terms[1].type).toBe('or');
+  });
+
+  it('accepts status aliases and relative dates', () => {
+    expect(createFieldNode('status', ':', 'to-read')).toMatchObject({ value: 'want_to_read' });
+    expect(createFieldNode('FAV', ':', 'No')).toMatchObject({ value: 'false' });
+    expect(parseSearchQuery('finished:this-year').error).toBeNull();
+  });
+
+  it('points errors at the offending token', () => {
+    expect(parseSearchQuery('dune rating:9').error).toEqual({
+      message: 'rating must be a number from 1 to 5, or none',
+      start: 5,
+      end: 13,
+    });
+    expect(parseSearchQuery('pages>abc').error?.message).toBe('pages must be a whole number, or none');
+    expect(parseSearchQuery('author>x').error?.message).toBe('author can only be matched with ":"');
+    expect(parseSearchQuery('finished:2024-02-30').error?.message).toBe(
+      'Use a date like 2024, 2024-05, 2024-05-14 or this-year'
+    );
+    expect(parseSearchQuery('status:').error?.message).toBe('Add a value after status:');
+  });
+
+  it('reports misplaced OR and unclosed quotes', () => {
+    expect(parseSearchQuery('OR dune').error?.message).toBe('OR needs a search term before it');
+    expect(parseSearchQuery('dune OR').error?.message).toBe('OR needs a search term after it');
+    expect(parseSearchQuery('dune "left hand').error).toEqual({ message: 'Missing closing quote', start: 5, end: 15 });
+  });
+
+  it('rejects unknown fields when building a filter directly', () => {
+    expect(() => createFieldNode('color', ':', 'red')).toThrow('Unknown field color');
+  });
+});
+
+describe('compileSearchQuery', () => {
+  it('passes plain text through untouched', () => {
+    expect(compileSearchQuery('  the left hand ')).toEqual({ text: 'the left hand', filter: null });
+  });
+
+  it('splits free text from field filters', () => {
+    expect(compileSearchQuery('dune "spice melange" status:read rating>=4')).toEqual({
+      text: 'dune "spice melange"',
+      filter: 'and(status.eq.read,rating.gte.4)',
+    });
+  });
+
+  it('compiles each kind of field', () => {
+    expect(compileSearchQuery('fav:yes').filter).toBe('is_favorite.is.true');
+    expect(compileSearchQuery('rating:none').filter).toBe('rating.is.null');
+    expect(compileSearchQuery('pages<300').filter).toBe('page_count.lt.300');
+    expect(compileSearchQuery('title:dune').filter).toBe('title.ilike.%dune%');
+  });
+
+  it('turns dates into the range they cover', () => {
+    const start = iso(2024, 0, 1);
+    const end = iso(2025, 0, 1);
+    expect(compileSearchQuery('finished:2024').filter).toBe(
+      `and(finished_at.gte."${start}",finished_at.lt."${end}")`
+    );
+    expect(compileSearchQuery('finished>2024').filter).toBe(`finished_at.gte."${end}"`);
+    expect(compileSearchQuery('added<2024-05').filter).toBe(`created_at.lt."${iso(2024, 4, 1)}"`);
+    expect(compileSearchQuery('started<=2024-05-14').filter).toBe(`started_at.lt."${iso(2024, 4, 15)}"`);
+  });
+
+  it('quotes values containing PostgREST syntax and escapes quotes and backslashes', () => {
+    expect(compileSearchQuery('author:"le guin"').filter).toBe('author.ilike."%le guin%"');
+    expect(compileSearchQuery('title:a,b(c)').filter).toBe('title.ilike."%a,b(c)%"');
+    expect(compileSearchQuery('title:a\\b').filter).toBe('title.ilike."%a\\\\\\\\b%"');
+  });
+
+  it('matches LIKE wildcards literally', () => {
+    expect(compileSearchQuery('title:100%_done').filter).toBe('title.ilike."%100\\\\%\\\\_done%"');
+  });
+
+  it('adds empty values back in when negating a nullable field', () => {
+    expect(compileSearchQuery('-author:tolkien').filter).toBe('or(author.is.null,author.not.ilike.%tolkien%)');
+    expect(compileSearchQuery('-status:read').filter).toBe('status.not.eq.read');
+    expect(compileSearchQuery('-rating:none').filter).toBe('rating.not.is.null');
+  });
+
+  it('pushes negation through date ranges', () => {
+    expect(compileSearchQuery('-finished:2024').filter).toBe(
+      `or(or(finished_at.is.null,finished_at.not.gte."${iso(2024, 0, 1)}"),` +
+        `or(finished_at.is.null,finished_at.not.lt."${iso(2025, 0, 1)}"))`
+    );
+  });
+
+  it('compiles OR groups, matching text the way search_books does', () => {
+    expect(compileSearchQuery('status:read OR fav:yes')).toEqual({
+      text: '',
+      filter: 'or(status.eq.read,is_favorite.is.true)',
+    });
+    expect(compileSearchQuery('dune OR rating:5').filter).toBe(
+      'or(or(search_vector.wfts(english).dune,title.ilike.%dune%,author.ilike.%dune%),rating.eq.5)'
+    );
+  });
+
+  it('requires every part of negated text to fail', () => {
+    expect(compileSearchQuery('-dune').filter).toBe(
+      'and(search_vector.not.wfts(english).dune,title.not.ilike.%dune%,or(author.is.null,author.not.ilike.%dune%))'
+    );
+  });
+
+  it('throws the parse error', () => {
+    expect(() => compileSearchQuery('rating:9')).toThrow('rating must be a number from 1 to 5, or none');
+  });
+});
+
+describe('compileSearchNode', () => {
+  it('compiles nodes built outside the search box', () => {
+    expect(
+      compileSearchNode({
+        type: 'and',
+        nodes: [
+          createFieldNode('status', ':', 'reading'),
+          { type: 'empty', field: getSearchField('pages')! },
+        ],
+      })
+    ).toBe('and(status.eq.reading,page_count.is.null)');
+  });
+});
@@ -0,0 +1,406 @@
+// Define type for book reading status - matches database enum
+type BookStatus = 'want_to_read' | 'reading' | 'read';
+
+// Operators allowed between a field name and its value (":" and "=" both mean "matches")
+export type SearchOperator = ':' | '=' | '>' | '>=' | '<' | '<=';
+
+// Kinds of field, which decide the operators and values a field accepts
+export type FieldKind = 'text' | 'status' | 'boolean' | 'number' | 'date';
+
+// A field that can be searched with "name:value" or a comparison
+export interface SearchField {
+  column: string; // Column in the books table
+  kind: FieldKind; // Kind of value the column holds
+  nullable: boolean; // Whether the column can be empty (negations then include empty values)
+  min?: number; // Smallest allowed number (number fields)
+  max?: number; // Largest allowed number (number fields)
+}
+
+// Fields available in the search box, by the name typed before the operator
+const searchFields: Record<string, SearchField> = {
+  title: { column: 'title', kind: 'text', nullable: false },
+  author: { column: 'author', kind: 'text', nullable: true },
+  review: { column: 'review', kind: 'text', nullable: true },
+  status: { column: 'status', kind: 'status', nullable: false },
+  fav: { column: 'is_favorite', kind: 'boolean', nullable: false },
+  favorite: { column: 'is_favorite', kind: 'boolean', nullable: false },
+  rating: { column: 'rating', kind: 'number', nullable: true, min: 1, max: 5 },
+  pages: { column: 'page_count', kind: 'number', nullable: true, min: 1 },
+  started: { column: 'started_at', kind: 'date', nullable: true },
+  finished: { column: 'finished_at', kind: 'date', nullable: true },
+  added: { column: 'created_at', kind: 'date', nullable: false },
+};
+
+// Status names accepted after "status:", including Goodreads-style shelf names
+const statusAliases: Record<string, BookStatus> = {
+  read: 'read',
+  reading: 'reading',
+  'currently-reading': 'reading',
+  want: 'want_to_read',
+  want_to_read: 'want_to_read',
+  'want-to-read': 'want_to_read',
+  'to-read': 'want_to_read',
+};
+
+// Values accepted by yes/no fields
+const booleanValues: Record<string, boolean> = { yes: true, true: true, no: false, false: false };
+
+// Look up a name in one of the tables above, ignoring case
+// Only the table's own keys count, so "constructor" and friends are unknown rather than Object methods
+const lookup = <T>(table: Record<string, T>, name: string): T | undefined => {
+  const key = name.toLowerCase();
+  return Object.prototype.hasOwnProperty.call(table, key) ? table[key] : undefined;
+};
+
+// Look up a searchable field by name (undefined for unknown names)
+export const getSearchField = (name: string) => lookup(searchFields, name);
+
+// A parsed search query (smart shelf rules compile to the same nodes)
+export type SearchNode =
+  | { type: 'text'; value: string; phrase: boolean } // A word or "quoted phrase" matched anywhere
+  | { type: 'field'; field: SearchField; operator: SearchOperator; value: string } // A field filter
+  | { type: 'empty'; field: SearchField } // The field has no value
+  | { type: 'not'; node: SearchNode } // -term
+  | { type: 'and'; nodes: SearchNode[] } // Every term matches
+  | { type: 'or'; nodes: SearchNode[] }; // term OR term
+
+// A mistake in the search box, with the position of the text it applies to
+export interface SearchQueryError {
+  message: string; // What is wrong, e.g. "rating must be a number from 1 to 5, or none"
+  start: number; // Index of the first character of the offending text
+  end: number; // Index after its last character
+}
+
+// The result of parsing the search box - terms are all required to match
+export interface ParsedSearchQuery {
+  terms: SearchNode[]; // Top-level terms (empty when there is an error)
+  error: SearchQueryError | null; // First mistake found, if any
+}
+
+// Thrown while parsing and turned into a SearchQueryError
+class SearchSyntaxError extends Error {
+  constructor(message: string, public start: number, public end: number) {
+    super(message);
+  }
+}
+
+// A run of non-space characters (quoted sections may contain spaces)
+interface SearchToken {
+  text: string; // The token as typed
+  start: number; // Index of its first character
+  end: number; // Index after its last character
+}
+
+// Split the search box into tokens at spaces outside quotes
+const tokenize = (input: string): SearchToken[] => {
+  const tokens: SearchToken[] = [];
+  let i = 0;
+  while (i < input.length) {
+    // Skip whitespace between tokens
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    while (i < input.length && !/\s/.test(input[i])) {
+      if (input[i] === '"') {
+        // Read through to the closing quote, spaces included
+        const close = input.indexOf('"', i + 1);
+        if (close === -1) throw new SearchSyntaxError('Missing closing quote', i, input.length);
+        i = close + 1;
+      } else {
+        i++;
+      }
+    }
+    tokens.push({ text: input.slice(start, i), start, end: i });
+  }
+  return tokens;
+};
+
+// Remove the quotes from a value, noting whether it was a quoted phrase
+const unquote = (value: string) => {
+  const phrase = value.length >= 2 && value.startsWith('"') && value.endsWith('"');
+  return { value: (phrase ? value.slice(1, -1) : value).replace(/"/g, '').trim(), phrase };
+};
+
+// Turn a relative date into the year or month it means today
+// Resolved each time a query is built, so saved smart shelves roll over with the calendar
+const resolveRelativeDate = (value: string) => {
+  const now = new Date();
+  const month = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  switch (value.toLowerCase()) {
+    case 'this-year':
+      return String(now.getFullYear());
+    case 'last-year':
+      return String(now.getFullYear() - 1);
+    case 'this-month':
+      return month(now);
+    case 'last-month':
+      return month(new Date(now.getFullYear(), now.getMonth() - 1, 1));
+    default:
+      return value;
+  }
+};
+
+// Parse "2024", "2024-05", "2024-05-14" or a relative date ("this-year") into the local-time
+// range it covers (null if invalid)
+const parseDateRange = (value: string) => {
+  const match = resolveRelativeDate(value).match(/^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/);
+  if (!match) return null;
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) : null;
+  const day = match[3] ? Number(match[3]) : null;
+  if (month !== null && (month < 1 || month > 12)) return null;
+  const start = new Date(year, (month ?? 1) - 1, day ?? 1);
+  // Reject days past the end of the month, which Date would roll into the next one
+  if (day !== null && start.getDate() !== day) return null;
+  // The range ends at the start of the next day, month or year
+  const end =
+    day !== null
+      ? new Date(year, month - 1, day + 1)
+      : month !== null
+        ? new Date(year, month, 1)
+        : new Date(year + 1, 0, 1);
+  return { start: start.toISOString(), end: end.toISOString() };
+};
+
+// Check a field filter's operator and value, returning the value in the form the compiler expects
+// Throws an error describing the problem when they don't fit the field
+const normalizeFieldValue = (name: string, field: SearchField, operator: SearchOperator, value: string) => {
+  const fail = (message: string) => {
+    throw new Error(message);
+  };
+  const isComparison = operator !== ':' && operator !== '=';
+  if (!value) fail(`Add a value after ${name}${operator}`);
+
+  switch (field.kind) {
+    case 'text':
+      if (isComparison) fail(`${name} can only be matched with ":"`);
+      return value;
+    case 'status': {
+      if (isComparison) fail(`status can only be matched with ":"`);
+      const status = lookup(statusAliases, value);
+      if (!status) fail('status must be read, reading or want');
+      return status;
+    }
+    case 'boolean': {
+      if (isComparison) fail(`${name} can only be matched with ":"`);
+      const flag = lookup(booleanValues, value);
+      if (flag === undefined) fail(`${name} must be yes or no`);
+      return String(flag);
+    }
+    case 'number': {
+      // "none" finds books without a value
+      if (value.toLowerCase() === 'none') {
+        if (isComparison) fail(`${name}:none can't be compared`);
+        return 'none';
+      }
+      const number = /^\d+$/.test(value) ? Number(value) : NaN;
+      const inRange = number >= (field.min ?? 0) && number <= (field.max ?? Infinity);
+      if (!inRange) {
+        fail(
+          field.max !== undefined
+            ? `${name} must be a number from ${field.min} to ${field.max}, or none`
+            : `${name} must be a whole number, or none`
+        );
+      }
+      return String(number);
+    }
+    case 'date':
+      if (!parseDateRange(value)) fail('Use a date like 2024, 2024-05, 2024-05-14 or this-year');
+      return value;
+  }
+};
+
+// Build a field filter from a field name, operator and value
+// Throws an error describing the problem when the name is unknown or the value doesn't fit
+export const createFieldNode = (name: string, operator: SearchOperator, value: string): SearchNode => {
+  const field = getSearchField(name);
+  if (!field) throw new Error(`Unknown field ${name}`);
+  return { type: 'field', field, operator, value: normalizeFieldValue(name.toLowerCase(), field, operator, value) };
+};
+
+// Turn a token into a search term
+const parseToken = (token: SearchToken): SearchNode | null => {
+  // A leading "-" excludes the term (a "-" on its own is ignored, like in a web search)
+  const negated = token.text.startsWith('-');
+  const body = negated ? token.text.slice(1) : token.text;
+  if (!body) return null;
+
+  let node: SearchNode | null = null;
+  // "name:value" and comparisons only count as filters for known field names, so text
+  // that happens to contain a colon ("Mistborn: The Final Empire") is still searched as text
+  const match = body.match(/^([a-z]+)(>=|<=|:|=|>|<)(.*)$/i);
+  if (match && getSearchField(match[1])) {
+    try {
+      node = createFieldNode(match[1], match[2] as SearchOperator, unquote(match[3]).value);
+    } catch (error) {
+      // Point the hint at the whole token
+      throw new SearchSyntaxError((error as Error).message, token.start, token.end);
+    }
+  } else {
+    const { value, phrase } = unquote(body);
+    // Skip empty quotes
+    if (value) node = { type: 'text', value, phrase };
+  }
+  return node && negated ? { type: 'not', node } : node;
+};
+
+// Parse the search box into terms that must all match
+// Terms are words, "quoted phrases" or field filters (status:read, rating>=4, author:"le guin"),
+// any of them can be excluded with a leading "-", and "OR" between terms matches either
+export const parseSearchQuery = (input: string): ParsedSearchQuery => {
+  try {
+    const tokens = tokenize(input);
+    const terms: SearchNode[] = [];
+    let i = 0;
+    while (i < tokens.length) {
+      if (tokens[i].text === 'OR') {
+        throw new SearchSyntaxError('OR needs a search term before it', tokens[i].start, tokens[i].end);
+      }
+      const alternatives = [parseToken(tokens[i])];
+      i++;
+      // Collect "term OR term OR ..." into one set of alternatives
+      while (tokens[i]?.text === 'OR') {
+        const next = tokens[i + 1];
+        if (!next || next.text === 'OR') {
+          throw new SearchSyntaxError('OR needs a search term after it', tokens[i].start, tokens[i].end);
+        }
+        alternatives.push(parseToken(next));
+        i += 2;
+      }
+      const nodes = alternatives.filter((node): node is SearchNode => node !== null);
+      if (nodes.length > 0) terms.push(nodes.length === 1 ? nodes[0] : { type: 'or', nodes });
+    }
+    return { terms, error: null };
+  } catch (error) {
+    if (!(error instanceof SearchSyntaxError)) throw error;
+    return { terms: [], error: { message: error.message, start: error.start, end: error.end } };
+  }
+};
+
+// Quote a filter value when it contains characters PostgREST treats as syntax
+const quoteValue = (value: string) =>
+  /[,().:"\\\s]/.test(value) ? `"${value.replace(/["\\]/g, (char) => `\\${char}`)}"` : value;
+
+// Build a case-insensitive "contains" pattern, with LIKE wildcards in the text matched literally
+const containsPattern = (value: string) => `%${value.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+
+// A single PostgREST condition, e.g. rating.gte.4
+const condition = (field: SearchField, operator: string, value: string, negate: boolean) => {
+  const formatted = operator === 'is' ? value : quoteValue(value);
+  if (!negate) return `${field.column}.${operator}.${formatted}`;
+  const negated = `${field.column}.not.${operator}.${formatted}`;
+  // NOT on an empty value is unknown rather than true, so empty values are added back in
+  // (-author:tolkien should find books without an author); "is null" checks handle this themselves
+  return field.nullable && operator !== 'is' ? `or(${field.column}.is.null,${negated})` : negated;
+};
+
+// Combine conditions that must all match (or, when negated, where any may fail)
+const allOf = (conditions: string[], negate: boolean) =>
+  conditions.length === 1 ? conditions[0] : `${negate ? 'or' : 'and'}(${conditions.join(',')})`;
+
+// Combine conditions where any may match (or, when negated, where all must fail)
+const anyOf = (conditions: string[], negate: boolean) =>
+  conditions.length === 1 ? conditions[0] : `${negate ? 'and' : 'or'}(${conditions.join(',')})`;
+
+// Comparison operators as PostgREST operators
+const comparisonOperators: Record<SearchOperator, string> = {
+  ':': 'eq',
+  '=': 'eq',
+  '>': 'gt',
+  '>=': 'gte',
+  '<': 'lt',
+  '<=': 'lte',
+};
+
+// Pseudo-fields used to match free text inside OR and negated terms
+const textFields: SearchField[] = [
+  { column: 'title', kind: 'text', nullable: false },
+  { column: 'author', kind: 'text', nullable: true },
+];
+const searchVectorField: SearchField = { column: 'search_vector', kind: 'text', nullable: false };
+
+// Compile a field filter into PostgREST conditions
+const compileField = (field: SearchField, operator: SearchOperator, value: string, negate: boolean) => {
+  switch (field.kind) {
+    case 'text':
+      return condition(field, 'ilike', containsPattern(value), negate);
+    case 'status':
+      return condition(field, 'eq', value, negate);
+    case 'boolean':
+      return condition(field, 'is', value, negate);
+    case 'number':
+      return value === 'none'
+        ? condition(field, 'is', 'null', negate)
+        : condition(field, comparisonOperators[operator], value, negate);
+    case 'date': {
+      // A date covers a range: "finished:2024" is the whole year, "finished<2024" is before it,
+      // "finished<=2024" is up to its end
+      const { start, end } = parseDateRange(value)!;
+      switch (operator) {
+        case '>':
+          return condition(field, 'gte', end, negate);
+        case '>=':
+          return condition(field, 'gte', start, negate);
+        case '<':
+          return condition(field, 'lt', start, negate);
+        case '<=':
+          return condition(field, 'lt', end, negate);
+        default:
+          return allOf([condition(field, 'gte', start, negate), condition(field, 'lt', end, negate)], negate);
+      }
+    }
+  }
+};
+
+// Compile a search term into a PostgREST logic tree, pushing negation down to the conditions
+const compileNode = (node: SearchNode, negate: boolean): string => {
+  switch (node.type) {
+    case 'text': {
+      // Same matching as search_books: full-text search or a title/author substring
+      const words = node.phrase ? `"${node.value}"` : node.value;
+      return anyOf(
+        [
+          condition(searchVectorField, 'wfts(english)', words, negate),
+          ...textFields.map((field) => condition(field, 'ilike', containsPattern(node.value), negate)),
+        ],
+        negate
+      );
+    }
+    case 'field':
+      return compileField(node.field, node.operator, node.value, negate);
+    case 'empty':
+      return condition(node.field, 'is', 'null', negate);
+    case 'not':
+      return compileNode(node.node, !negate);
+    case 'and':
+      return allOf(
+        node.nodes.map((child) => compileNode(child, negate)),
+        negate
+      );
+    case 'or':
+      return anyOf(
+        node.nodes.map((child) => compileNode(child, negate)),
+        negate
+      );
+  }
+};
+
+// Compile search terms into a PostgREST logic tree, for use with .or()
+export const compileSearchNode = (node: SearchNode) => compileNode(node, false);
+
+// Compile the search box into free text for search_books (ranked, with snippets) and a PostgREST
+// filter for everything else, applied with .or() - null when there is nothing to filter
+// Plain text without operators is passed through untouched, so it searches exactly like before
+export const compileSearchQuery = (input: string) => {
+  const { terms, error } = parseSearchQuery(input);
+  if (error) throw new Error(error.message);
+  const textTerms = terms.filter((term): term is Extract<SearchNode, { type: 'text' }> => term.type === 'text');
+  const otherTerms = terms.filter((term) => term.type !== 'text');
+  if (otherTerms.length === 0) return { text: input.trim(), filter: null };
+  return {
+    text: textTerms.map((term) => (term.phrase ? `"${term.value}"` : term.value)).join(' '),
+    filter: allOf(otherTerms.map((term) => compileNode(term, false)), false),
+  };
+};
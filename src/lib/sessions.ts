@@ -0,0 +1,31 @@
+// Get the length of a reading session in milliseconds (running sessions count up to now)
+export const getSessionDuration = (startedAt: string, endedAt: string | null, now = Date.now()) => {
+  // Use the current time as the end of a session that is still running
+  const end = endedAt ? new Date(endedAt).getTime() : now;
+  // Never report a negative duration if clocks disagree
+  return Math.max(0, end - new Date(startedAt).getTime());
+};
+
+// Format a duration as a stopwatch, e.g. "1:05:09" or "05:09"
+export const formatTimer = (durationMs: number) => {
+  // Break the duration into whole hours, minutes and seconds
+  const totalSeconds = Math.floor(durationMs / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  // Pad minutes and seconds to two digits
+  const mmss = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+  // Only show the hours part once a session passes the hour mark
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+// Format a duration in words, e.g. "1h 5m" or "12m"
+export const formatDuration = (durationMs: number) => {
+  // Round to whole minutes for the session log
+  const totalMinutes = Math.round(durationMs / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  // Very short sessions still read as something meaningful
+  if (totalMinutes === 0) return '<1m';
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
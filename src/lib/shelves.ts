@@ -0,0 +1,32 @@
+// Import Supabase client for database operations
+import { supabase } from '@/integrations/supabase/client';
+
+// Define interface for shelf data structure
+export interface Shelf {
+  id: string; // Unique identifier
+  name: string; // Display name, unique per user
+}
+
+// Replace a book's shelf assignments with the given set of shelves
+export const setBookShelves = async (bookId: string, userId: string, shelfIds: string[]) => {
+  // Remove assignments that are no longer selected
+  let removeQuery = supabase.from('book_shelves').delete().eq('book_id', bookId);
+  if (shelfIds.length > 0) {
+    // PostgREST expects the list as a parenthesised, comma-separated string
+    removeQuery = removeQuery.not('shelf_id', 'in', `(${shelfIds.join(',')})`);
+  }
+  const { error: removeError } = await removeQuery;
+  // Throw error if delete failed
+  if (removeError) throw removeError;
+
+  // Nothing more to do when the book has no shelves
+  if (shelfIds.length === 0) return;
+
+  // Add the selected assignments, ignoring ones that already exist
+  const { error: addError } = await supabase.from('book_shelves').upsert(
+    shelfIds.map((shelfId) => ({ book_id: bookId, shelf_id: shelfId, user_id: userId })),
+    { onConflict: 'book_id,shelf_id', ignoreDuplicates: true }
+  );
+  // Throw error if insert failed
+  if (addError) throw addError;
+};
@@ -0,0 +1,121 @@
+// Import test helpers
+import { describe, expect, it } from 'vitest';
+// Import smart shelf rule helpers under test
+import {
+  compileSmartShelf,
+  createRule,
+  getRuleOperators,
+  ruleNeedsValue,
+  validateRule,
+} from '@/lib/smartShelves';
+
+describe('getRuleOperators', () => {
+  it('offers operators for the field kind', () => {
+    expect(getRuleOperators('status').map((option) => option.value)).toEqual(['is', 'is_not']);
+    expect(getRuleOperators('fav').map((option) => option.value)).toEqual(['is']);
+  });
+
+  it('adds empty checks only for fields that can be empty', () => {
+    expect(getRuleOperators('rating').map((option) => option.value)).toContain('empty');
+    expect(getRuleOperators('title').map((option) => option.value)).not.toContain('empty');
+  });
+
+  it('offers nothing for unknown fields', () => {
+    expect(getRuleOperators('color')).toEqual([]);
+  });
+});
+
+describe('createRule', () => {
+  it('starts with the first operator and value', () => {
+    expect(createRule()).toEqual({ field: 'status', operator: 'is', value: 'want_to_read' });
+    expect(createRule('rating')).toEqual({ field: 'rating', operator: 'eq', value: '' });
+  });
+});
+
+describe('ruleNeedsValue', () => {
+  it('is false only for empty checks', () => {
+    expect(ruleNeedsValue('gte')).toBe(true);
+    expect(ruleNeedsValue('empty')).toBe(false);
+    expect(ruleNeedsValue('not_empty')).toBe(false);
+  });
+});
+
+describe('validateRule', () => {
+  it('accepts a valid rule', () => {
+    expect(validateRule({ field: 'rating', operator: 'gte', value: '4' })).toBeNull();
+  });
+
+  it('describes unknown fields, unsupported operators and bad values', () => {
+    expect(validateRule({ field: 'color', operator: 'is', value: 'red' })).toBe('Unknown field color');
+    expect(validateRule({ field: 'title', operator: 'gt', value: 'a' })).toBe("title can't be compared that way");
+    expect(validateRule({ field: 'title', operator: 'empty', value: '' })).toBe("title can't be compared that way");
+    expect(validateRule({ field: 'rating', operator: 'eq', value: '9' })).toBe(
+      'rating must be a number from 1 to 5, or none'
+    );
+  });
+});
+
+describe('compileSmartShelf', () => {
+  it('matches every book when there are no rules', () => {
+    expect(compileSmartShelf({ match: 'all', rules: [] })).toBeNull();
+    expect(compileSmartShelf({ match: 'all', rules: [{ match: 'any', rules: [] }] })).toBeNull();
+  });
+
+  it('combines rules with and/or', () => {
+    const rules = [
+      { field: 'status', operator: 'is' as const, value: 'read' },
+      { field: 'rating', operator: 'gte' as const, value: ' 4 ' },
+    ];
+    expect(compileSmartShelf({ match: 'all', rules })).toBe('and(status.eq.read,rating.gte.4)');
+    expect(compileSmartShelf({ match: 'any', rules })).toBe('or(status.eq.read,rating.gte.4)');
+  });
+
+  it('compiles nested groups', () => {
+    expect(
+      compileSmartShelf({
+        match: 'all',
+        rules: [
+          { field: 'fav', operator: 'is', value: 'yes' },
+          {
+            match: 'any',
+            rules: [
+              { field: 'pages', operator: 'lt', value: '300' },
+              { field: 'author', operator: 'contains', value: 'le guin' },
+            ],
+          },
+        ],
+      })
+    ).toBe('and(is_favorite.is.true,or(page_count.lt.300,author.ilike."%le guin%"))');
+  });
+
+  it('negates rules, keeping empty values for nullable fields', () => {
+    expect(
+      compileSmartShelf({
+        match: 'all',
+        rules: [
+          { field: 'status', operator: 'is_not', value: 'read' },
+          { field: 'author', operator: 'not_contains', value: 'tolkien' },
+          { field: 'rating', operator: 'neq', value: '3' },
+        ],
+      })
+    ).toBe('and(status.not.eq.read,or(author.is.null,author.not.ilike.%tolkien%),or(rating.is.null,rating.not.eq.3))');
+  });
+
+  it('compiles empty checks', () => {
+    expect(
+      compileSmartShelf({
+        match: 'any',
+        rules: [
+          { field: 'rating', operator: 'empty', value: '' },
+          { field: 'finished', operator: 'not_empty', value: '' },
+        ],
+      })
+    ).toBe('or(rating.is.null,finished_at.not.is.null)');
+  });
+
+  it('throws for an invalid rule', () => {
+    expect(() =>
+      compileSmartShelf({ match: 'all', rules: [{ field: 'pages', operator: 'gt', value: 'many' }] })
+    ).toThrow('pages must be a whole number, or none');
+  });
+});
@@ -0,0 +1,187 @@
+// Import search query helpers - smart shelf rules compile to the same filters as the search box
+import {
+  compileSearchNode,
+  createFieldNode,
+  FieldKind,
+  getSearchField,
+  SearchNode,
+  SearchOperator,
+} from '@/lib/searchQuery';
+
+// Operators a rule can use (which ones apply depends on the field)
+export type RuleOperator =
+  | 'contains'
+  | 'not_contains'
+  | 'is'
+  | 'is_not'
+  | 'eq'
+  | 'neq'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'in'
+  | 'before'
+  | 'after'
+  | 'empty'
+  | 'not_empty';
+
+// A single condition, e.g. rating ≥ 4
+export interface SmartShelfRule {
+  field: string; // Search field name (status, rating, finished, ...)
+  operator: RuleOperator; // How the value is compared
+  value: string; // Value as typed, e.g. "4" or "this-year" (empty for is empty / is not empty)
+}
+
+// Rules and nested groups combined with AND ("all") or OR ("any")
+export interface SmartShelfGroup {
+  match: 'all' | 'any'; // Whether every rule or any rule must match
+  rules: (SmartShelfRule | SmartShelfGroup)[]; // Conditions, in display order
+}
+
+// A saved smart shelf
+export interface SmartShelf {
+  id: string; // Unique identifier
+  name: string; // Display name, unique per user
+  rules: SmartShelfGroup; // Which books belong on the shelf
+}
+
+// Fields offered in the rule builder, in display order
+export const smartShelfFields = [
+  { name: 'status', label: 'Status' },
+  { name: 'rating', label: 'Rating' },
+  { name: 'fav', label: 'Favourite' },
+  { name: 'title', label: 'Title' },
+  { name: 'author', label: 'Author' },
+  { name: 'review', label: 'Review' },
+  { name: 'pages', label: 'Pages' },
+  { name: 'started', label: 'Started' },
+  { name: 'finished', label: 'Finished' },
+  { name: 'added', label: 'Added' },
+];
+
+// Label for each operator and the search filter it becomes
+const operatorDefinitions: Record<
+  RuleOperator,
+  { label: string; operator: SearchOperator | 'empty'; negate: boolean }
+> = {
+  contains: { label: 'contains', operator: ':', negate: false },
+  not_contains: { label: "doesn't contain", operator: ':', negate: true },
+  is: { label: 'is', operator: ':', negate: false },
+  is_not: { label: 'is not', operator: ':', negate: true },
+  eq: { label: '=', operator: '=', negate: false },
+  neq: { label: '≠', operator: '=', negate: true },
+  gt: { label: '>', operator: '>', negate: false },
+  gte: { label: '≥', operator: '>=', negate: false },
+  lt: { label: '<', operator: '<', negate: false },
+  lte: { label: '≤', operator: '<=', negate: false },
+  in: { label: 'is in', operator: ':', negate: false },
+  before: { label: 'is before', operator: '<', negate: false },
+  after: { label: 'is after', operator: '>', negate: false },
+  empty: { label: 'is empty', operator: 'empty', negate: false },
+  not_empty: { label: 'is not empty', operator: 'empty', negate: true },
+};
+
+// Operators offered for each kind of field
+const kindOperators: Record<FieldKind, RuleOperator[]> = {
+  text: ['contains', 'not_contains'],
+  status: ['is', 'is_not'],
+  boolean: ['is'],
+  number: ['eq', 'neq', 'gt', 'gte', 'lt', 'lte'],
+  date: ['in', 'before', 'after'],
+};
+
+// Operators a field supports, with labels (empty checks only for fields that can be empty)
+export const getRuleOperators = (fieldName: string) => {
+  const field = getSearchField(fieldName);
+  if (!field) return [];
+  const operators: RuleOperator[] = [...kindOperators[field.kind], ...(field.nullable ? ['empty', 'not_empty'] as const : [])];
+  return operators.map((operator) => ({ value: operator, label: operatorDefinitions[operator].label }));
+};
+
+// Whether an operator compares against a value (is empty / is not empty don't)
+export const ruleNeedsValue = (operator: RuleOperator) => operatorDefinitions[operator].operator !== 'empty';
+
+// Choices for fields with a fixed set of values (null when the value is typed)
+export const getRuleValueOptions = (fieldName: string) => {
+  switch (getSearchField(fieldName)?.kind) {
+    case 'status':
+      return [
+        { value: 'want_to_read', label: 'Want to Read' },
+        { value: 'reading', label: 'Reading' },
+        { value: 'read', label: 'Read' },
+      ];
+    case 'boolean':
+      return [
+        { value: 'yes', label: 'Yes' },
+        { value: 'no', label: 'No' },
+      ];
+    default:
+      return null;
+  }
+};
+
+// Placeholder for a typed value, hinting at the format
+export const getRuleValuePlaceholder = (fieldName: string) => {
+  switch (getSearchField(fieldName)?.kind) {
+    case 'number':
+      return fieldName === 'rating' ? '1-5' : 'Number';
+    case 'date':
+      return '2024, 2024-05 or this-year';
+    default:
+      return 'Text';
+  }
+};
+
+// A rule for a field, with its first operator and value
+export const createRule = (field = 'status'): SmartShelfRule => {
+  const operator = getRuleOperators(field)[0].value;
+  return { field, operator, value: getRuleValueOptions(field)?.[0].value ?? '' };
+};
+
+// A nested group with one rule
+export const createRuleGroup = (): SmartShelfGroup => ({ match: 'any', rules: [createRule()] });
+
+// Whether an item in a group is a nested group rather than a rule
+export const isRuleGroup = (item: SmartShelfRule | SmartShelfGroup): item is SmartShelfGroup => 'rules' in item;
+
+// Turn a rule into a search filter, throwing an error describing any problem
+const ruleToNode = (rule: SmartShelfRule): SearchNode => {
+  const field = getSearchField(rule.field);
+  if (!field) throw new Error(`Unknown field ${rule.field}`);
+  if (!getRuleOperators(rule.field).some((option) => option.value === rule.operator)) {
+    throw new Error(`${rule.field} can't be compared that way`);
+  }
+  const definition = operatorDefinitions[rule.operator];
+  const node: SearchNode =
+    definition.operator === 'empty'
+      ? { type: 'empty', field }
+      : createFieldNode(rule.field, definition.operator, rule.value.trim());
+  return definition.negate ? { type: 'not', node } : node;
+};
+
+// Turn a group into a search filter (null for a group without rules, which matches everything)
+const groupToNode = (group: SmartShelfGroup): SearchNode | null => {
+  const nodes = group.rules
+    .map((item) => (isRuleGroup(item) ? groupToNode(item) : ruleToNode(item)))
+    .filter((node): node is SearchNode => node !== null);
+  if (nodes.length === 0) return null;
+  return { type: group.match === 'all' ? 'and' : 'or', nodes };
+};
+
+// Check a rule, returning a description of the problem (null when it is valid)
+export const validateRule = (rule: SmartShelfRule) => {
+  try {
+    ruleToNode(rule);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+
+// Compile a smart shelf's rules into a PostgREST filter for .or() (null when every book matches)
+// Relative dates are resolved now, so compile when querying rather than storing the result
+export const compileSmartShelf = (rules: SmartShelfGroup) => {
+  const node = groupToNode(rules);
+  return node ? compileSearchNode(node) : null;
+};
@@ -0,0 +1,33 @@
+// Import Supabase client for database operations
+import { supabase } from '@/integrations/supabase/client';
+
+// Number of days a book stays in the trash before the nightly job purges it
+export const TRASH_RETENTION_DAYS = 30;
+
+// Move books to the trash (soft delete)
+export const moveBooksToTrash = async (bookIds: string[]) => {
+  const { error } = await supabase
+    .from('books')
+    .update({ deleted_at: new Date().toISOString() })
+    .in('id', bookIds);
+  // Throw error if update failed
+  if (error) throw error;
+};
+
+// Bring books back out of the trash
+export const restoreBooksFromTrash = async (bookIds: string[]) => {
+  const { error } = await supabase.from('books').update({ deleted_at: null }).in('id', bookIds);
+  // Throw error if update failed
+  if (error) throw error;
+};
+
+// Permanently delete books from the trash (their readings, sessions and shelf links cascade)
+export const purgeBooks = async (bookIds: string[]) => {
+  const { error } = await supabase
+    .from('books')
+    .delete()
+    .in('id', bookIds)
+    .not('deleted_at', 'is', null); // Only ever purge books that are already in the trash
+  // Throw error if delete failed
+  if (error) throw error;
+};
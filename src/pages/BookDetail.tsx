@@ -1,12 +1,15 @@
 // Import React hooks for state management and side effects
 import { useState, useEffect } from 'react';
 // Import hooks for URL params and navigation from React Router
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
 // Import icons from lucide-react icon library
-import { Loader2, Trash2 } from 'lucide-react';
+import { Loader2, RefreshCw, Trash2 } from 'lucide-react';
 // Import UI components from shadcn/ui component library
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { ToastAction } from '@/components/ui/toast';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 // Import AlertDialog components for delete confirmation modal
 import {
   AlertDialog,
@@ -22,23 +25,24 @@ import {
 // Import custom components
 import Header from '@/components/Header';
 import BookForm from '@/components/BookForm';
-// Import Supabase client for database operations
-import { supabase } from '@/integrations/supabase/client';
+import ReadingTimer from '@/components/ReadingTimer';
+import ReadThroughTimeline from '@/components/ReadThroughTimeline';
+import ConflictDialog from '@/components/ConflictDialog';
+import BookHistory from '@/components/BookHistory';
+import StatusTimeline from '@/components/StatusTimeline';
 // Import custom hooks
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
-
-// Define interface for book data structure
-interface Book {
-  id: string; // Unique identifier
-  title: string; // Book title (required)
-  author: string | null; // Author name (optional)
-  status: 'want_to_read' | 'reading' | 'read'; // Reading status enum
-  rating: number | null; // User rating 1-5 (optional)
-  review: string | null; // User's review text (optional)
-  is_favorite: boolean; // Whether book is marked as favorite
-  reading_progress: number | null; // Reading progress percentage (optional)
-}
+import {
+  BookDetailData,
+  useBook,
+  useDeleteBook,
+  useInvalidateBooks,
+  useRestoreBooks,
+  useUpdateBook,
+} from '@/hooks/useBooks';
+// Import helpers for merging edits made in two places
+import { BookConflict, BookConflictError, BookValues, diffBookVersions, mergeBookVersions } from '@/lib/conflicts';
 
 // BookDetail component - view and edit a single book
 const BookDetail = () => {
@@ -46,108 +50,121 @@ const BookDetail = () => {
   const { id } = useParams<{ id: string }>();
   // Hook to navigate between routes
   const navigate = useNavigate();
+  // The library view the book was opened from (with its filters), or the plain library
+  const location = useLocation();
+  const backTo = (location.state as { from?: string } | null)?.from ?? '/books';
   // Get current user from auth context
   const { user } = useAuth();
   // Hook for displaying toast notifications
   const { toast } = useToast();
-  // State to store the book data
-  const [book, setBook] = useState<Book | null>(null);
-  // State to track initial loading
-  const [loading, setLoading] = useState(true);
+  // Cached book query (null when the book doesn't exist or is in the trash)
+  const { data: book, isLoading: loading, isError } = useBook(id);
+  // Book mutations
+  const updateBook = useUpdateBook();
+  const deleteBook = useDeleteBook();
+  const restoreBooks = useRestoreBooks();
+  // Marks cached books stale after changes made by child components
+  const invalidateBooks = useInvalidateBooks();
   // State to track if update is in progress
   const [isUpdating, setIsUpdating] = useState(false);
-  // State to track if delete is in progress
-  const [isDeleting, setIsDeleting] = useState(false);
+  // State for the version of the book the form was filled in from
+  const [formBook, setFormBook] = useState<BookDetailData | null>(null);
+  // State to track if the form has unsaved edits
+  const [isFormDirty, setIsFormDirty] = useState(false);
+  // State for a newer version of the book the reader chose not to load
+  const [ignoredVersion, setIgnoredVersion] = useState<string | null>(null);
+  // State for a save that conflicted with a change made somewhere else, waiting to be merged
+  const [merge, setMerge] = useState<{ changes: BookValues; shelfIds: string[]; conflicts: BookConflict[] } | null>(
+    null
+  );
+  // The book as shown in the form (the latest one until the form has been filled in)
+  const shownBook = formBook?.id === book?.id ? formBook : book;
+  // Whether the book changed (in another tab, on another device, or from this page) while being edited
+  const hasNewerVersion = Boolean(
+    book && shownBook && book.updated_at !== shownBook.updated_at && book.updated_at !== ignoredVersion
+  );
 
-  // Effect to fetch book data when user and id are available
+  // Effect to keep the form showing the latest book - unless that would throw away unsaved edits
   useEffect(() => {
-    // Only fetch if both user is logged in and id exists
-    if (user && id) {
-      fetchBook();
-    }
-  }, [user, id]); // Re-run when user or id changes
+    if (book && !isFormDirty) setFormBook(book);
+  }, [book, isFormDirty]); // Re-run when the book changes or the edits are saved or undone
 
-  // Async function to fetch single book from Supabase
-  const fetchBook = async () => {
-    try {
-      // Query the books table for specific book by ID
-      const { data, error } = await supabase
-        .from('books') // Target books table
-        .select('*') // Select all columns
-        .eq('id', id) // Filter by book ID
-        .maybeSingle(); // Return single record or null (doesn't throw if not found)
-
-      // Throw error if query failed
-      if (error) throw error;
-      
-      // If no book found, show error and redirect
-      if (!data) {
-        toast({
-          title: 'Book not found',
-          description: 'This book does not exist or you do not have access.',
-          variant: 'destructive',
-        });
-        navigate('/books'); // Redirect to books list
-        return;
-      }
+  // Replace unsaved edits with the latest version of the book
+  const handleLoadNewerVersion = () => {
+    setFormBook(book);
+    setIsFormDirty(false);
+  };
 
-      // Update state with fetched book data
-      setBook(data);
-    } catch (error) {
+  // Effect to leave the page if the book can't be shown
+  useEffect(() => {
+    if (isError) {
       // Show error toast if fetch failed
       toast({
         title: 'Error',
         description: 'Failed to load book. Please try again.',
         variant: 'destructive',
       });
-      navigate('/books'); // Redirect to books list on error
-    } finally {
-      // Set loading to false regardless of outcome
-      setLoading(false);
+      navigate(backTo); // Redirect to books list on error
+    } else if (book === null && deleteBook.isIdle) {
+      // No book found (or it was deleted elsewhere - deleting here navigates away by itself)
+      toast({
+        title: 'Book not found',
+        description: 'This book does not exist or you do not have access.',
+        variant: 'destructive',
+      });
+      navigate(backTo); // Redirect to books list
     }
-  };
+  }, [isError, book, deleteBook.isIdle, backTo, navigate, toast]); // Re-run when the query result changes
 
-  // Handler function to update book in database
-  const handleUpdate = async (data: {
-    title: string;
-    author: string;
-    status: 'want_to_read' | 'reading' | 'read';
-    rating: number | null;
-    review: string;
-    is_favorite: boolean;
-    reading_progress: number;
-  }) => {
-    // Return early if no book ID
-    if (!id) return;
+  // Save a book's columns and shelves, but only if the book hasn't changed since version
+  // When it has, the differences are offered for merging instead of being overwritten
+  // Without a connection the save is queued and checked the same way once it is sent
+  const saveBook = async (changes: BookValues, shelfIds: string[], version: string) => {
+    // Return early if no book ID or user
+    if (!id || !user) return;
 
     // Set updating state to show loading indicator
     setIsUpdating(true);
     try {
-      // Update book record in Supabase
-      const { error } = await supabase
-        .from('books') // Target books table
-        .update({
-          title: data.title.trim(), // Trim whitespace from title
-          author: data.author.trim() || null, // Set to null if empty string
-          status: data.status,
-          rating: data.rating,
-          review: data.review.trim() || null, // Set to null if empty string
-          is_favorite: data.is_favorite,
-          reading_progress: data.reading_progress,
-        })
-        .eq('id', id); // Update only the book with matching ID
-
-      // Throw error if update failed
-      if (error) throw error;
+      // Update book record and shelves (applied to the cache straight away)
+      const { queued } = await updateBook.mutateAsync({
+        id,
+        changes,
+        version,
+        base: version === shownBook?.updated_at ? shownBook : undefined, // Suggests merges if a queued save conflicts
+        shelfIds,
+      });
 
       // Show success toast
-      toast({
-        title: 'Book updated!',
-        description: 'Your changes have been saved.',
-      });
-      // Navigate back to books list
-      navigate('/books');
+      toast(
+        queued
+          ? {
+              title: 'Saved offline',
+              description: "Your changes will be synced when you're back online.",
+            }
+          : {
+              title: 'Book updated!',
+              description: 'Your changes have been saved.',
+            }
+      );
+      // Navigate back to the library view the book was opened from
+      navigate(backTo);
     } catch (error) {
+      if (error instanceof BookConflictError && error.latest) {
+        // Compare with the version being edited, so columns only they changed start on their value
+        const fields = diffBookVersions(changes, error.latest, version === shownBook?.updated_at ? shownBook : undefined);
+        if (fields.length === 0) {
+          // Their change agrees with yours (or touched nothing you're saving) - save against the new version
+          await saveBook(changes, shelfIds, error.latest.updated_at);
+          return;
+        }
+        setMerge({
+          changes,
+          shelfIds,
+          conflicts: [{ bookId: id, title: error.latest.title, version: error.latest.updated_at, fields }],
+        });
+        return;
+      }
       // Show error toast if update failed
       toast({
         title: 'Error',
@@ -160,38 +177,100 @@ const BookDetail = () => {
     }
   };
 
-  // Handler function to delete book from database
-  const handleDelete = async () => {
+  // Handler function to update book in database from the form
+  const handleUpdate = (data: {
+    title: string;
+    author: string;
+    status: 'want_to_read' | 'reading' | 'read';
+    rating: number | null;
+    review: string;
+    is_favorite: boolean;
+    page_count: number | null;
+    current_page: number;
+    shelf_ids: string[];
+    started_at: string | null;
+    finished_at: string | null;
+    cover_path: string | null;
+    isbn: string | null;
+    publisher: string;
+    published_year: number | null;
+  }) =>
+    saveBook(
+      {
+        title: data.title.trim(), // Trim whitespace from title
+        author: data.author.trim() || null, // Set to null if empty string
+        status: data.status,
+        rating: data.rating,
+        review: data.review.trim() || null, // Set to null if empty string
+        is_favorite: data.is_favorite,
+        page_count: data.page_count,
+        current_page: data.current_page,
+        started_at: data.started_at,
+        finished_at: data.finished_at,
+        cover_path: data.cover_path,
+        isbn: data.isbn,
+        publisher: data.publisher.trim() || null, // Set to null if empty string
+        published_year: data.published_year,
+      },
+      data.shelf_ids,
+      shownBook.updated_at // Only overwrite the version the form was filled in from
+    );
+
+  // Handler to save the merge chosen in the conflict dialog, checked against their version
+  const handleMerge = ([conflict]: BookConflict[]) => {
+    setMerge(null);
+    saveBook(mergeBookVersions(merge.changes, conflict.fields), merge.shelfIds, conflict.version);
+  };
+
+  // Handler function to move the book to the trash
+  const handleDelete = () => {
     // Return early if no book ID
     if (!id) return;
 
-    // Set deleting state to show loading indicator
-    setIsDeleting(true);
-    try {
-      // Delete book record from Supabase
-      const { error } = await supabase.from('books').delete().eq('id', id);
+    deleteBook.mutate(id, {
+      onSuccess: () => {
+        // Show success toast with an undo action that brings the reader back here
+        toast({
+          title: 'Book moved to trash',
+          description: 'You can restore it from the trash for 30 days.',
+          action: (
+            <ToastAction altText="Undo delete" onClick={() => handleUndoDelete(id)}>
+              Undo
+            </ToastAction>
+          ),
+        });
+        // Navigate back to the library view the book was opened from
+        navigate(backTo);
+      },
+      onError: () => {
+        // Show error toast if delete failed
+        toast({
+          title: 'Error',
+          description: 'Failed to delete book. Please try again.',
+          variant: 'destructive',
+        });
+      },
+    });
+  };
 
-      // Throw error if delete failed
-      if (error) throw error;
+  // Handler to bring a just-deleted book back and return to it
+  const handleUndoDelete = (bookId: string) => {
+    restoreBooks.mutate([bookId], {
+      onSuccess: () => navigate(`/books/${bookId}`, { state: { from: backTo } }),
+      onError: () => {
+        // Show error toast if restore failed
+        toast({
+          title: 'Error',
+          description: 'Failed to restore book. You can still restore it from the trash.',
+          variant: 'destructive',
+        });
+      },
+    });
+  };
 
-      // Show success toast
-      toast({
-        title: 'Book deleted',
-        description: 'The book has been removed from your library.',
-      });
-      // Navigate back to books list
-      navigate('/books');
-    } catch (error) {
-      // Show error toast if delete failed
-      toast({
-        title: 'Error',
-        description: 'Failed to delete book. Please try again.',
-        variant: 'destructive',
-      });
-    } finally {
-      // Reset deleting state
-      setIsDeleting(false);
-    }
+  // Handler to reload the book after a reading session or re-read changes it
+  const handleBookChanged = () => {
+    invalidateBooks();
   };
 
   // Show loading spinner while fetching book data
@@ -208,7 +287,7 @@ const BookDetail = () => {
     );
   }
 
-  // Return null if book not found (redirect happens in fetchBook)
+  // Return null if book not found (the redirect happens in the effect above)
   if (!book) {
     return null;
   }
@@ -221,77 +300,206 @@ const BookDetail = () => {
       
       {/* Main content with max width constraint */}
       <main className="container py-8 max-w-xl">
-        {/* Card container for edit form with animation */}
-        <Card className="animate-slide-up shadow-soft">
-          <CardHeader>
-            {/* Header with title and delete button */}
-            <div className="flex items-start justify-between">
-              <div>
+        {/* Banner shown when the book changes while it is being edited, instead of resetting the form */}
+        {hasNewerVersion && (
+          <Alert className="mb-6 animate-fade-in">
+            <RefreshCw className="h-4 w-4" />
+            <AlertTitle>This book has changed</AlertTitle>
+            <AlertDescription className="space-y-3">
+              <p>
+                It was updated somewhere else while you were editing. If you keep your edits, you can choose
+                which changes to keep when you save.
+              </p>
+              <div className="flex gap-2">
+                <Button size="sm" onClick={handleLoadNewerVersion}>
+                  Load latest
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setIgnoredVersion(book.updated_at)}>
+                  Keep my edits
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+        {/* Tabs switching between editing the book and its history */}
+        <Tabs defaultValue="details">
+          <TabsList className="grid w-full grid-cols-2 mb-6">
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+
+          {/* Details tab - kept mounted while hidden so unsaved edits survive a look at the history */}
+          <TabsContent value="details" forceMount className="mt-0 data-[state=inactive]:hidden">
+            {/* Card container for edit form with animation */}
+            <Card className="animate-slide-up shadow-soft">
+              <CardHeader>
+                {/* Header with title and delete button */}
+                <div className="flex items-start justify-between">
+                  <div>
+                    {/* Card title */}
+                    <CardTitle className="font-serif text-2xl">Edit Book</CardTitle>
+                    {/* Card description */}
+                    <CardDescription>
+                      Update book details or remove from library
+                    </CardDescription>
+                  </div>
+                  {/* Delete button with confirmation dialog */}
+                  <AlertDialog>
+                    {/* Button that triggers the dialog */}
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    {/* Dialog content */}
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        {/* Dialog title */}
+                        <AlertDialogTitle>Delete this book?</AlertDialogTitle>
+                        {/* Dialog description with book title */}
+                        <AlertDialogDescription>
+                          "{book.title}" will be moved to the trash. You can restore it
+                          from there for 30 days.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        {/* Cancel button */}
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        {/* Confirm delete button */}
+                        <AlertDialogAction
+                          onClick={handleDelete} // Trigger delete on click
+                          disabled={deleteBook.isPending} // Disable while deleting
+                          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        >
+                          {/* Show spinner while deleting, otherwise show text */}
+                          {deleteBook.isPending ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            'Delete'
+                          )}
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {/* Book edit form with pre-filled data */}
+                <BookForm
+                  bookId={book.id}
+                  key={shownBook.updated_at} // Re-initialize form when it moves to a newer version of the book
+                  initialData={{
+                    title: shownBook.title,
+                    author: shownBook.author || '', // Convert null to empty string
+                    status: shownBook.status,
+                    rating: shownBook.rating,
+                    review: shownBook.review || '', // Convert null to empty string
+                    is_favorite: shownBook.is_favorite,
+                    page_count: shownBook.page_count,
+                    current_page: shownBook.current_page,
+                    shelf_ids: shownBook.book_shelves.map((bookShelf) => bookShelf.shelf_id),
+                    started_at: shownBook.started_at,
+                    finished_at: shownBook.finished_at,
+                    cover_path: shownBook.cover_path,
+                    isbn: shownBook.isbn,
+                    publisher: shownBook.publisher || '', // Convert null to empty string
+                    published_year: shownBook.published_year,
+                  }}
+                  legacyProgress={shownBook.legacy_progress}
+                  onSubmit={handleUpdate} // Handler for form submission
+                  submitLabel="Save Changes" // Button text
+                  isLoading={isUpdating} // Loading state for button
+                  cancelTo={backTo} // Cancel returns to the filtered library view
+                  onDirtyChange={setIsFormDirty} // Newer versions wait while there are unsaved edits
+                />
+              </CardContent>
+            </Card>
+
+            {/* Card container for the reading timer and session log */}
+            <Card className="mt-6 animate-slide-up shadow-soft">
+              <CardHeader>
                 {/* Card title */}
-                <CardTitle className="font-serif text-2xl">Edit Book</CardTitle>
+                <CardTitle className="font-serif text-xl">Reading Sessions</CardTitle>
                 {/* Card description */}
                 <CardDescription>
-                  Update book details or remove from library
+                  Time your reading and keep a log of each session
                 </CardDescription>
-              </div>
-              {/* Delete button with confirmation dialog */}
-              <AlertDialog>
-                {/* Button that triggers the dialog */}
-                <AlertDialogTrigger asChild>
-                  <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive">
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
-                </AlertDialogTrigger>
-                {/* Dialog content */}
-                <AlertDialogContent>
-                  <AlertDialogHeader>
-                    {/* Dialog title */}
-                    <AlertDialogTitle>Delete this book?</AlertDialogTitle>
-                    {/* Dialog description with book title */}
-                    <AlertDialogDescription>
-                      This will permanently remove "{book.title}" from your library.
-                      This action cannot be undone.
-                    </AlertDialogDescription>
-                  </AlertDialogHeader>
-                  <AlertDialogFooter>
-                    {/* Cancel button */}
-                    <AlertDialogCancel>Cancel</AlertDialogCancel>
-                    {/* Confirm delete button */}
-                    <AlertDialogAction
-                      onClick={handleDelete} // Trigger delete on click
-                      disabled={isDeleting} // Disable while deleting
-                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                    >
-                      {/* Show spinner while deleting, otherwise show text */}
-                      {isDeleting ? (
-                        <Loader2 className="h-4 w-4 animate-spin" />
-                      ) : (
-                        'Delete'
-                      )}
-                    </AlertDialogAction>
-                  </AlertDialogFooter>
-                </AlertDialogContent>
-              </AlertDialog>
-            </div>
-          </CardHeader>
-          <CardContent>
-            {/* Book edit form with pre-filled data */}
-            <BookForm
-              initialData={{
-                title: book.title,
-                author: book.author || '', // Convert null to empty string
-                status: book.status,
-                rating: book.rating,
-                review: book.review || '', // Convert null to empty string
-                is_favorite: book.is_favorite,
-                reading_progress: book.reading_progress || 0, // Default to 0 if null
-              }}
-              onSubmit={handleUpdate} // Handler for form submission
-              submitLabel="Save Changes" // Button text
-              isLoading={isUpdating} // Loading state for button
-            />
-          </CardContent>
-        </Card>
+              </CardHeader>
+              <CardContent>
+                {/* Timer that starts/stops sessions and updates progress */}
+                <ReadingTimer
+                  bookId={book.id}
+                  currentPage={book.current_page}
+                  pageCount={book.page_count}
+                  onProgressUpdate={handleBookChanged}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Card container for the timeline of readings */}
+            <Card className="mt-6 animate-slide-up shadow-soft">
+              <CardHeader>
+                {/* Card title */}
+                <CardTitle className="font-serif text-xl">Readings</CardTitle>
+                {/* Card description */}
+                <CardDescription>
+                  Every time you've read this book, with its own dates, rating and review
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {/* Timeline of read-throughs with re-read action */}
+                <ReadThroughTimeline
+                  bookId={book.id}
+                  bookStatus={book.status}
+                  bookRating={book.rating}
+                  bookVersion={book.updated_at}
+                  onRereadStarted={handleBookChanged}
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* History tab - when the book moved between statuses, and every change to it with reverts */}
+          <TabsContent value="history" className="mt-0">
+            <Card className="animate-slide-up shadow-soft">
+              <CardHeader>
+                {/* Card title */}
+                <CardTitle className="font-serif text-xl">Status Timeline</CardTitle>
+                {/* Card description */}
+                <CardDescription>
+                  When this book was queued, started and finished, and how long each took
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {/* Status changes with time spent in each status */}
+                <StatusTimeline bookId={book.id} />
+              </CardContent>
+            </Card>
+
+            <Card className="mt-6 animate-slide-up shadow-soft">
+              <CardHeader>
+                {/* Card title */}
+                <CardTitle className="font-serif text-xl">History</CardTitle>
+                {/* Card description */}
+                <CardDescription>
+                  Every change to this book. Revert a change to set that field back.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {/* Timeline of changes with per-field reverts */}
+                <BookHistory book={book} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+
+        {/* Yours vs theirs when saving conflicts with a change made somewhere else */}
+        <ConflictDialog
+          conflicts={merge?.conflicts ?? null}
+          isSaving={isUpdating}
+          onResolve={handleMerge}
+          onCancel={() => setMerge(null)}
+        />
       </main>
     </div>
   );
@@ -1,9 +1,9 @@
 // Import React hooks for state management and side effects
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 // Import Link component for client-side navigation
 import { Link } from 'react-router-dom';
 // Import icons from lucide-react icon library
-import { Search, BookOpen, Plus, Filter } from 'lucide-react';
+import { Search, BookOpen, Plus, Filter, Library, ListChecks, ArrowUpDown, Loader2 } from 'lucide-react';
 // Import UI components from shadcn/ui component library
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
@@ -15,28 +15,58 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Skeleton } from '@/components/ui/skeleton';
+import { ToastAction } from '@/components/ui/toast';
 // Import custom components
 import Header from '@/components/Header';
 import BookCard from '@/components/BookCard';
-// Import Supabase client for database operations
-import { supabase } from '@/integrations/supabase/client';
+import ShelfManager from '@/components/ShelfManager';
+import GoalCard from '@/components/GoalCard';
+import BulkActionBar from '@/components/BulkActionBar';
+import SearchHelp from '@/components/SearchHelp';
+import SmartShelfSidebar from '@/components/SmartShelfSidebar';
+import ConflictDialog from '@/components/ConflictDialog';
 // Import custom hooks
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
+import { useShelves } from '@/hooks/useShelves';
+import { useSmartShelves } from '@/hooks/useSmartShelves';
+import { useBookFilterParams } from '@/hooks/useBookFilterParams';
+import {
+  BookListItem,
+  fetchBookVersions,
+  useBookCount,
+  useBooks,
+  useDeleteBook,
+  useInvalidateBooks,
+  useQueueBulkUpdate,
+  useRestoreBooks,
+  useSearchSnippets,
+  useSmartShelfCounts,
+  useUpdateBook,
+} from '@/hooks/useBooks';
+import { useCoverUrls } from '@/hooks/useCovers';
+// Import helpers for deriving the headline rating from readings
+import { countReads, deriveRating, getRatingMode } from '@/lib/ratings';
+// Import utility function for merging class names
+import { cn } from '@/lib/utils';
+// Import helper for changing many books in one request
+import { BulkChanges, BulkFailure, bulkUpdateBooks } from '@/lib/bulk';
+// Import helpers for merging bulk changes with changes made somewhere else
+import { BookConflict, BookConflictError, BookValues, diffBookVersions, fetchLatestBooks } from '@/lib/conflicts';
+// Import helper for finding cover thumbnails
+import { getThumbnailPath } from '@/lib/covers';
+// Import check for requests that failed for lack of a connection
+import { isNetworkError } from '@/lib/offlineQueue';
+// Import library search, filter and sort settings
+import { BookFilters, BookSort, bookSorts, hasActiveFilters } from '@/lib/bookFilters';
+// Import search box query language parser
+import { compileSearchQuery, parseSearchQuery } from '@/lib/searchQuery';
 
 // Define type for book reading status - matches database enum
 type BookStatus = 'want_to_read' | 'reading' | 'read';
 
-// Define interface for book data structure
-interface Book {
-  id: string; // Unique identifier
-  title: string; // Book title (required)
-  author: string | null; // Author name (optional)
-  status: BookStatus; // Reading status
-  rating: number | null; // User rating 1-5 (optional)
-  is_favorite: boolean; // Whether book is marked as favorite
-  reading_progress: number | null; // Reading progress percentage (optional)
-}
+// How long typing must pause before the search is applied (and added to the browser history)
+const SEARCH_DEBOUNCE_MS = 400;
 
 // Books component - displays user's book collection with search and filter
 const Books = () => {
@@ -44,90 +74,419 @@ const Books = () => {
   const { user } = useAuth();
   // Hook for displaying toast notifications
   const { toast } = useToast();
-  // State to store list of books from database
-  const [books, setBooks] = useState<Book[]>([]);
-  // State to track loading status during data fetch
-  const [loading, setLoading] = useState(true);
-  // State for search input value
-  const [searchQuery, setSearchQuery] = useState('');
-  // State for status filter dropdown value
-  const [statusFilter, setStatusFilter] = useState<string>('all');
-
-  // Effect to fetch books when user is available
-  useEffect(() => {
-    // Only fetch if user is logged in
-    if (user) {
-      fetchBooks();
-    }
-  }, [user]); // Re-run when user changes
+  // Search, filter, sort and page settings, kept in the URL
+  const { filters, searchParam, pages, setFilters, setPages } = useBookFilterParams();
+  // State for search input value, as typed (applied to the URL once typing pauses)
+  const [searchInput, setSearchInput] = useState(searchParam);
+  // Mistake in the search input, shown under it
+  const searchError = parseSearchQuery(searchInput).error;
+  // Free text part of the search (without field filters), used for ranking and snippets
+  const searchText = compileSearchQuery(filters.search).text;
+  // User's smart shelves plus create/update/delete operations
+  const {
+    smartShelves,
+    loading: smartShelvesLoading,
+    createSmartShelf,
+    updateSmartShelf,
+    deleteSmartShelf,
+  } = useSmartShelves();
+  // Number of books on each smart shelf
+  const smartShelfCounts = useSmartShelfCounts(smartShelves);
+  // Smart shelf being shown, if any
+  const selectedSmartShelf = smartShelves.find((smartShelf) => smartShelf.id === filters.smartShelfId);
+  // Its rules (null for the whole library, undefined until the smart shelves load)
+  const smartRules = filters.smartShelfId === 'all' ? null : selectedSmartShelf?.rules;
+  // Cached library query, one page at a time (refetched in the background when stale or on window focus)
+  const {
+    data,
+    isLoading: booksLoading,
+    isError,
+    isPlaceholderData,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useBooks(filters, smartRules);
+  // The grid is loading until the smart shelf's rules are known too
+  const loading = booksLoading || smartRules === undefined;
+  // Books loaded so far, in order
+  const books = data?.pages.flatMap((page) => page.books) ?? [];
+  // Number of books matching the filters (including pages not loaded yet)
+  const matchCount = data?.pages[0]?.count ?? 0;
+  // Review extracts matching the search, for the loaded books
+  const { data: snippets = {} } = useSearchSnippets(
+    searchText,
+    books.map((book) => book.id)
+  );
+  // Signed URLs for the loaded books' cover thumbnails
+  const thumbnailUrls = useCoverUrls(books.map((book) => book.cover_path && getThumbnailPath(book.cover_path)));
+  // Number of books in the whole library, for the subtitle
+  const { data: libraryCount = 0 } = useBookCount();
+  // Element at the end of the grid that loads the next page when scrolled into view
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  // Mutations with optimistic cache updates
+  const updateBook = useUpdateBook();
+  const deleteBook = useDeleteBook();
+  const restoreBooks = useRestoreBooks();
+  // Marks cached books stale after bulk changes
+  const invalidateBooks = useInvalidateBooks();
+  // Queues bulk changes made without a connection
+  const queueBulkUpdate = useQueueBulkUpdate();
+  // User's preference for deriving the headline rating
+  const ratingMode = getRatingMode(user);
+  // User's shelves plus rename/delete operations
+  const { shelves, renameShelf, deleteShelf } = useShelves();
+  // State for selection mode, where clicking a card selects it
+  const [selectionMode, setSelectionMode] = useState(false);
+  // State for the IDs of the selected books
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // State for the last clicked book, where shift-click ranges start
+  const [anchorId, setAnchorId] = useState<string | null>(null);
+  // State to track if a bulk action is running
+  const [isBulkWorking, setIsBulkWorking] = useState(false);
+  // State for the versions of books chosen with "select all", by ID (loaded books use the grid's)
+  const [selectAllVersions, setSelectAllVersions] = useState<Record<string, string>>({});
+  // State for a bulk change that conflicted with changes made somewhere else, waiting to be merged
+  const [bulkMerge, setBulkMerge] = useState<{ changes: BulkChanges; conflicts: BookConflict[] } | null>(null);
 
-  // Async function to fetch books from Supabase database
-  const fetchBooks = async () => {
-    try {
-      // Query the books table, selecting specific columns
-      const { data, error } = await supabase
-        .from('books') // Target books table
-        .select('id, title, author, status, rating, is_favorite, reading_progress') // Select fields
-        .order('created_at', { ascending: false }); // Sort by newest first
-
-      // Throw error if query failed
-      if (error) throw error;
-      // Update state with fetched books or empty array
-      setBooks(data || []);
-    } catch (error) {
-      // Show error toast if fetch failed
+  // Effect to report a failed library load
+  useEffect(() => {
+    if (isError) {
       toast({
         title: 'Error',
         description: 'Failed to load books. Please try again.',
         variant: 'destructive',
       });
-    } finally {
-      // Set loading to false regardless of outcome
-      setLoading(false);
     }
+  }, [isError, toast]); // Re-run when the query fails or recovers
+
+  // Effect to apply the search once typing pauses - one history entry per pause, not per keystroke
+  // A search with a mistake isn't applied; the results for the last valid search stay
+  useEffect(() => {
+    if (searchInput === searchParam || parseSearchQuery(searchInput).error) return;
+    const timeout = setTimeout(() => {
+      // Rank results by relevance when a text search starts, and go back to newest first when it ends
+      const text = compileSearchQuery(searchInput).text;
+      const changes: Partial<BookFilters> = { search: searchInput };
+      if (text && !searchText) changes.sort = 'relevance';
+      if (!text && filters.sort === 'relevance') changes.sort = 'newest';
+      setFilters(changes);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchInput, searchParam, searchText, filters.sort, setFilters]); // Re-run on every keystroke, restarting the pause
+
+  // Effect to go back to the whole library if the URL names a smart shelf that doesn't exist (deleted, old link)
+  useEffect(() => {
+    if (!smartShelvesLoading && filters.smartShelfId !== 'all' && !selectedSmartShelf) {
+      setFilters({ smartShelfId: 'all' }, { replace: true });
+    }
+  }, [smartShelvesLoading, filters.smartShelfId, selectedSmartShelf, setFilters]); // Re-run when the shelves or the choice change
+
+  // Effect to show the URL's search in the input when it changes from outside (back button, links)
+  useEffect(() => {
+    setSearchInput(searchParam);
+  }, [searchParam]); // Re-run when the URL's search changes
+
+  // Effect to load as many pages as the URL asks for, e.g. when coming back to the list
+  useEffect(() => {
+    if (data && !isPlaceholderData && data.pages.length < pages && hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [data, isPlaceholderData, pages, hasNextPage, isFetchingNextPage, fetchNextPage]); // Re-run as pages load
+
+  // Effect to record in the URL how many pages have been scrolled through
+  useEffect(() => {
+    if (data && !isPlaceholderData && data.pages.length > pages) setPages(data.pages.length);
+  }, [data, isPlaceholderData, pages, setPages]); // Re-run when a page is added
+
+  // Effect to load the next page when the end of the grid scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting && !isFetchingNextPage) fetchNextPage();
+      },
+      { rootMargin: '400px' } // Start loading a little before the end is visible
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]); // Re-run when paging state changes
+
+  // Handler to move a book to the trash (the card disappears straight away), with an undo action
+  const handleDeleteBook = (bookId: string) => {
+    deleteBook.mutate(bookId, {
+      onSuccess: () => {
+        // Show success toast with an undo action
+        toast({
+          title: 'Book moved to trash',
+          description: 'You can restore it from the trash for 30 days.',
+          action: (
+            <ToastAction altText="Undo delete" onClick={() => handleUndoDelete([bookId])}>
+              Undo
+            </ToastAction>
+          ),
+        });
+      },
+      onError: () => {
+        // Show error toast if delete failed (the card has been put back)
+        toast({
+          title: 'Error',
+          description: 'Failed to delete book. Please try again.',
+          variant: 'destructive',
+        });
+      },
+    });
   };
 
-  // Async function to delete a book from Supabase database
-  const handleDeleteBook = async (bookId: string) => {
-    try {
-      // Delete the book from the database
-      const { error } = await supabase
-        .from('books')
-        .delete()
-        .eq('id', bookId);
+  // Handler to bring just-deleted books back
+  const handleUndoDelete = (bookIds: string[]) => {
+    restoreBooks.mutate(bookIds, {
+      onError: () => {
+        // Show error toast if restore failed
+        toast({
+          title: 'Error',
+          description: 'Failed to restore. You can still restore from the trash.',
+          variant: 'destructive',
+        });
+      },
+    });
+  };
 
-      // Throw error if delete failed
-      if (error) throw error;
+  // Handler to update a single book from its card (applied to the grid straight away)
+  // Only the version shown on the card is overwritten - a change made somewhere else is offered for merging
+  const handleQuickUpdate = (
+    bookId: string,
+    changes: { is_favorite?: boolean; status?: BookStatus },
+    version: string
+  ) => {
+    updateBook.mutate(
+      { id: bookId, changes, version },
+      {
+        onError: async (error) => {
+          if (error instanceof BookConflictError && error.latest) {
+            try {
+              // Compare with their version the way bulk changes are compared
+              await offerBulkMerge(changes, [bookId]);
+              return;
+            } catch {
+              // Couldn't load their version - report the failed update below
+            }
+          }
+          // Show error toast if update failed (the card has been put back)
+          toast({
+            title: 'Error',
+            description: 'Failed to update book. Please try again.',
+            variant: 'destructive',
+          });
+        },
+      }
+    );
+  };
 
-      // Remove book from local state for immediate UI update
-      setBooks((prevBooks) => prevBooks.filter((book) => book.id !== bookId));
+  // Turn selection mode on or off (turning it off clears the selection)
+  const toggleSelectionMode = () => {
+    setSelectionMode((prev) => !prev);
+    setSelectedIds([]);
+    setAnchorId(null);
+  };
+
+  // Select or deselect a book - with range, everything between it and the last clicked book too
+  const handleSelect = (bookId: string, range: boolean) => {
+    const index = books.findIndex((book) => book.id === bookId);
+    const anchorIndex = books.findIndex((book) => book.id === anchorId);
+    const ids =
+      range && anchorIndex !== -1
+        ? books
+            .slice(Math.min(index, anchorIndex), Math.max(index, anchorIndex) + 1)
+            .map((book) => book.id)
+        : [bookId];
+    // The clicked book decides whether the range is selected or deselected
+    const select = !selectedIds.includes(bookId);
+    setSelectedIds((prev) =>
+      select ? [...new Set([...prev, ...ids])] : prev.filter((id) => !ids.includes(id))
+    );
+    setAnchorId(bookId);
+  };
 
-      // Show success toast
+  // Select every book matching the filters, including pages not loaded yet
+  const handleSelectAll = async () => {
+    try {
+      const versions = await fetchBookVersions(filters, smartRules ?? null);
+      setSelectAllVersions(versions);
+      setSelectedIds(Object.keys(versions));
+    } catch (error) {
+      // Show error toast if the lookup failed
       toast({
-        title: 'Book deleted',
-        description: 'The book has been removed from your library.',
+        title: 'Error',
+        description: 'Failed to select books. Please try again.',
+        variant: 'destructive',
       });
+    }
+  };
+
+  // The updated_at each book was shown with, so bulk edits don't overwrite changes made since
+  const getBookVersions = (ids: string[]) =>
+    Object.fromEntries(
+      ids
+        .map((bookId) => [bookId, books.find((book) => book.id === bookId)?.updated_at ?? selectAllVersions[bookId]])
+        .filter(([, version]) => version)
+    );
+
+  // Show which books a bulk action couldn't change, and why
+  const reportFailures = (total: number, failures: BulkFailure[]) => {
+    const titleOf = (bookId: string) => books.find((book) => book.id === bookId)?.title ?? 'Unknown book';
+    toast({
+      title: `Updated ${total - failures.length} of ${total} books`,
+      description: (
+        <ul className="space-y-1">
+          {failures.slice(0, 3).map((failure) => (
+            <li key={failure.bookId}>
+              <span className="font-medium">{titleOf(failure.bookId)}</span>: {failure.error}
+            </li>
+          ))}
+          {failures.length > 3 && <li>and {failures.length - 3} more</li>}
+        </ul>
+      ),
+      variant: 'destructive',
+    });
+  };
+
+  // Apply a change to some books (the selection by default) in a single request
+  // Status and favourite changes skip books changed since their versions, which are offered for merging
+  // Resolves with the IDs of the books when all of them changed (null after reporting a failure or conflict)
+  const runBulkUpdate = async (changes: BulkChanges, ids = selectedIds, versions = getBookVersions(ids)) => {
+    setIsBulkWorking(true);
+    // Trash and shelf changes don't overwrite anyone's edits, so they aren't checked
+    const checked = changes.status !== undefined || changes.is_favorite !== undefined;
+    try {
+      const failures = await bulkUpdateBooks(ids, changes, checked ? versions : undefined);
+      const failedIds = failures.map((failure) => failure.bookId);
+      // Keep the failed books selected so the action can be retried
+      setSelectedIds((prev) => prev.filter((bookId) => !ids.includes(bookId) || failedIds.includes(bookId)));
+      const errors = failures.filter((failure) => !failure.conflict);
+      const conflictIds = failures.filter((failure) => failure.conflict).map((failure) => failure.bookId);
+      if (errors.length > 0) reportFailures(ids.length - conflictIds.length, errors);
+      // Reload the list to show the changes
+      await invalidateBooks();
+      if (conflictIds.length > 0) await offerBulkMerge(changes, conflictIds);
+      return failures.length === 0 ? ids : null;
     } catch (error) {
-      // Show error toast if delete failed
+      if (isNetworkError(error)) {
+        // No connection - queue the change for each book to be sent (and checked) when it's back
+        await queueBulkUpdate(changes, ids, checked ? versions : undefined);
+        setSelectedIds((prev) => prev.filter((bookId) => !ids.includes(bookId)));
+        toast({
+          title: 'Saved offline',
+          description: `Changes to ${ids.length} ${ids.length === 1 ? 'book' : 'books'} will be synced when you're back online.`,
+        });
+        return ids;
+      }
+      // Show error toast if the request failed
       toast({
         title: 'Error',
-        description: 'Failed to delete book. Please try again.',
+        description: 'Bulk update failed. No books were changed.',
         variant: 'destructive',
       });
+      return null;
+    } finally {
+      setIsBulkWorking(false);
+    }
+  };
+
+  // Compare books changed somewhere else with a bulk change, and offer the differences for merging
+  // Books that already have the new status and favourite flag get the rest of the change straight away
+  const offerBulkMerge = async (changes: BulkChanges, ids: string[]) => {
+    const yours: BookValues = {};
+    if (changes.status !== undefined) yours.status = changes.status;
+    if (changes.is_favorite !== undefined) yours.is_favorite = changes.is_favorite;
+    const conflicts = (await fetchLatestBooks(ids)).map((book) => ({
+      bookId: book.id,
+      title: book.title,
+      version: book.updated_at,
+      fields: diffBookVersions(yours, book),
+    }));
+    const agreeing = conflicts.filter((conflict) => conflict.fields.length === 0);
+    if (agreeing.length > 0) {
+      await runBulkUpdate(
+        changes,
+        agreeing.map((conflict) => conflict.bookId),
+        Object.fromEntries(agreeing.map((conflict) => [conflict.bookId, conflict.version]))
+      );
+    }
+    const differing = conflicts.filter((conflict) => conflict.fields.length > 0);
+    if (differing.length > 0) setBulkMerge({ changes, conflicts: differing });
+  };
+
+  // Handler to save the merge chosen in the conflict dialog - each book gets the bulk change minus the
+  // columns where their value was kept, checked against their version (one request per combination)
+  const handleBulkMerge = async (resolved: BookConflict[]) => {
+    const { changes } = bulkMerge;
+    setBulkMerge(null);
+    const groups = new Map<string, { changes: BulkChanges; versions: Record<string, string> }>();
+    resolved.forEach((conflict) => {
+      const merged = { ...changes };
+      conflict.fields
+        .filter((field) => field.choice === 'theirs')
+        .forEach((field) => delete merged[field.field as keyof BulkChanges]);
+      const key = JSON.stringify(merged);
+      const group = groups.get(key) ?? { changes: merged, versions: {} };
+      group.versions[conflict.bookId] = conflict.version;
+      groups.set(key, group);
+    });
+    let savedCount = 0;
+    for (const group of groups.values()) {
+      const ids = Object.keys(group.versions);
+      if (Object.keys(group.changes).length === 0) {
+        // Their values were kept throughout - nothing left to change
+        setSelectedIds((prev) => prev.filter((bookId) => !ids.includes(bookId)));
+        continue;
+      }
+      savedCount += (await runBulkUpdate(group.changes, ids, group.versions))?.length ?? 0;
+    }
+    // Confirm the merged books (failures and further conflicts have their own feedback)
+    if (savedCount > 0) {
+      toast({
+        title: 'Books updated',
+        description: `Saved merged changes to ${savedCount} ${savedCount === 1 ? 'book' : 'books'}.`,
+      });
+    }
+  };
+
+  // Handler for status, favourite and shelf changes from the action bar
+  const handleBulkApply = async (changes: BulkChanges) => {
+    const updatedIds = await runBulkUpdate(changes);
+    // Confirm when every book was updated (failures have their own toast)
+    if (updatedIds) {
+      toast({
+        title: 'Books updated',
+        description: `Updated ${updatedIds.length} ${updatedIds.length === 1 ? 'book' : 'books'}.`,
+      });
     }
   };
 
-  // Filter books based on search query and status filter
-  const filteredBooks = books.filter((book) => {
-    // Check if book title or author matches search query (case-insensitive)
-    const matchesSearch =
-      book.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      (book.author?.toLowerCase().includes(searchQuery.toLowerCase()) ?? false);
-    // Check if book status matches selected filter (or filter is 'all')
-    const matchesStatus = statusFilter === 'all' || book.status === statusFilter;
-    // Return true only if both conditions are met
-    return matchesSearch && matchesStatus;
-  });
+  // Handler for moving the selection to the trash, with an undo action
+  const handleBulkDelete = async () => {
+    const deletedIds = await runBulkUpdate({ deleted: true });
+    if (!deletedIds) return;
+    toast({
+      title: `${deletedIds.length} ${deletedIds.length === 1 ? 'book' : 'books'} moved to trash`,
+      description: 'You can restore them from the trash for 30 days.',
+      action: (
+        <ToastAction altText="Undo delete" onClick={() => handleUndoDelete(deletedIds)}>
+          Undo
+        </ToastAction>
+      ),
+    });
+  };
+
+  // Look up shelf names for a book's assignments (skipping shelves that no longer exist)
+  const getShelfNames = (book: BookListItem) =>
+    shelves
+      .filter((shelf) => book.book_shelves.some((bookShelf) => bookShelf.shelf_id === shelf.id))
+      .map((shelf) => shelf.name);
+
+  // Whether any search or filter is narrowing the list
+  const hasFilters = hasActiveFilters(filters);
 
   // Render the books page
   return (
@@ -137,7 +496,8 @@ const Books = () => {
       <Header />
       
       {/* Main content area with container padding */}
-      <main className="container py-8">
+      {/* Extra bottom padding keeps the last cards clear of the bulk action bar */}
+      <main className={cn('container py-8', selectionMode && 'pb-28')}>
         {/* Page title section with fade-in animation */}
         <div className="mb-8 animate-fade-in">
           {/* Page heading */}
@@ -146,100 +506,252 @@ const Books = () => {
           </h1>
           {/* Book count subtitle - uses singular/plural based on count */}
           <p className="text-muted-foreground">
-            {books.length} {books.length === 1 ? 'book' : 'books'} in your collection
+            {libraryCount} {libraryCount === 1 ? 'book' : 'books'} in your collection
           </p>
         </div>
 
-        {/* Search and Filter controls - stacks on mobile, side by side on larger screens */}
-        <div className="flex flex-col sm:flex-row gap-3 mb-6 animate-fade-in" style={{ animationDelay: '100ms' }}>
-          {/* Search input with icon */}
-          <div className="relative flex-1">
-            {/* Search icon positioned inside input */}
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-            {/* Search input field with left padding for icon */}
-            <Input
-              placeholder="Search by title or author..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)} // Update search state on change
-              className="pl-10 bg-background"
-            />
-          </div>
-          {/* Status filter dropdown */}
-          <Select value={statusFilter} onValueChange={setStatusFilter}>
-            {/* Dropdown trigger button */}
-            <SelectTrigger className="w-full sm:w-48 bg-background">
-              <Filter className="h-4 w-4 mr-2 text-muted-foreground" />
-              <SelectValue placeholder="Filter by status" />
-            </SelectTrigger>
-            {/* Dropdown options */}
-            <SelectContent>
-              <SelectItem value="all">All Books</SelectItem>
-              <SelectItem value="want_to_read">Want to Read</SelectItem>
-              <SelectItem value="reading">Reading</SelectItem>
-              <SelectItem value="read">Read</SelectItem>
-            </SelectContent>
-          </Select>
-        </div>
+        {/* Progress towards this year's reading goal */}
+        <GoalCard />
 
-        {/* Books grid - conditionally renders based on loading/data state */}
-        {loading ? (
-          // Show skeleton loading placeholders while fetching
-          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-            {/* Create 6 skeleton placeholders */}
-            {[...Array(6)].map((_, i) => (
-              <Skeleton key={i} className="h-40 rounded-lg" />
-            ))}
-          </div>
-        ) : filteredBooks.length > 0 ? (
-          // Show books grid if there are filtered results
-          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-            {/* Map through filtered books and render BookCard for each */}
-            {filteredBooks.map((book, index) => (
-              <BookCard
-                key={book.id} // Unique key for React list rendering
-                id={book.id}
-                title={book.title}
-                author={book.author}
-                status={book.status}
-                rating={book.rating}
-                isFavorite={book.is_favorite}
-                readingProgress={book.reading_progress ?? 0} // Default to 0 if null
-                index={index} // For staggered animation delay
-                onDelete={handleDeleteBook} // Pass delete handler
+        {/* Smart shelves beside the library - above it on small screens */}
+        <div className="lg:flex lg:items-start lg:gap-8">
+          <SmartShelfSidebar
+            className="mb-6 lg:mb-0 lg:w-56 lg:flex-shrink-0 animate-fade-in"
+            smartShelves={smartShelves}
+            counts={smartShelfCounts}
+            libraryCount={libraryCount}
+            selectedId={filters.smartShelfId}
+            onSelect={(smartShelfId) => setFilters({ smartShelfId })}
+            onCreate={async (name, rules) => {
+              const smartShelf = await createSmartShelf(name, rules);
+              // Show the new shelf straight away
+              setFilters({ smartShelfId: smartShelf.id });
+            }}
+            onUpdate={updateSmartShelf}
+            onDelete={async (smartShelfId) => {
+              await deleteSmartShelf(smartShelfId);
+              // Go back to the whole library if the deleted shelf was being shown
+              if (filters.smartShelfId === smartShelfId) setFilters({ smartShelfId: 'all' }, { replace: true });
+            }}
+          />
+          {/* Library controls and grid */}
+          <div className="flex-1 min-w-0">
+            {/* Search and Filter controls - stacks on mobile, side by side on larger screens */}
+            <div className="flex flex-col sm:flex-row sm:items-start gap-3 mb-6 animate-fade-in" style={{ animationDelay: '100ms' }}>
+              {/* Search input with icon, syntax help and mistakes shown underneath */}
+              <div className="flex-1 space-y-1.5">
+                <div className="relative">
+                  {/* Search icon positioned inside input */}
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  {/* Search input field with padding for the icon and help button */}
+                  <Input
+                    placeholder="Search, or filter like status:read rating>=4"
+                    value={searchInput}
+                    onChange={(e) => setSearchInput(e.target.value)} // Update search state on change
+                    className={cn('pl-10 pr-10 bg-background', searchError && 'border-destructive')}
+                    aria-invalid={Boolean(searchError)}
+                    aria-describedby={searchError ? 'search-error' : undefined}
+                  />
+                  {/* Query syntax help */}
+                  <SearchHelp />
+                </div>
+                {/* Inline hint for a mistake in the query, quoting the part it applies to */}
+                {searchError && (
+                  <p id="search-error" className="text-sm text-destructive">
+                    <span className="font-mono">{searchInput.slice(searchError.start, searchError.end)}</span>
+                    {' – '}
+                    {searchError.message}
+                  </p>
+                )}
+              </div>
+              {/* Status filter dropdown */}
+              <Select
+                value={filters.status}
+                onValueChange={(value: BookFilters['status']) => setFilters({ status: value })}
+              >
+                {/* Dropdown trigger button */}
+                <SelectTrigger className="w-full sm:w-48 bg-background">
+                  <Filter className="h-4 w-4 mr-2 text-muted-foreground" />
+                  <SelectValue placeholder="Filter by status" />
+                </SelectTrigger>
+                {/* Dropdown options */}
+                <SelectContent>
+                  <SelectItem value="all">All Books</SelectItem>
+                  <SelectItem value="want_to_read">Want to Read</SelectItem>
+                  <SelectItem value="reading">Reading</SelectItem>
+                  <SelectItem value="read">Read</SelectItem>
+                </SelectContent>
+              </Select>
+              {/* Sort order dropdown */}
+              <Select value={filters.sort} onValueChange={(value: BookSort) => setFilters({ sort: value })}>
+                {/* Dropdown trigger button */}
+                <SelectTrigger className="w-full sm:w-52 bg-background">
+                  <ArrowUpDown className="h-4 w-4 mr-2 text-muted-foreground" />
+                  <SelectValue placeholder="Sort by" />
+                </SelectTrigger>
+                {/* Dropdown options - one per sort order (best match only applies to a search) */}
+                <SelectContent>
+                  {(Object.keys(bookSorts) as BookSort[])
+                    .filter((sort) => sort !== 'relevance' || searchText || filters.sort === 'relevance')
+                    .map((sort) => (
+                      <SelectItem key={sort} value={sort}>
+                        {bookSorts[sort].label}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              {/* Shelf filter dropdown */}
+              <Select value={filters.shelfId} onValueChange={(value) => setFilters({ shelfId: value })}>
+                {/* Dropdown trigger button */}
+                <SelectTrigger className="w-full sm:w-48 bg-background">
+                  <Library className="h-4 w-4 mr-2 text-muted-foreground" />
+                  <SelectValue placeholder="Filter by shelf" />
+                </SelectTrigger>
+                {/* Dropdown options - one per shelf */}
+                <SelectContent>
+                  <SelectItem value="all">All Shelves</SelectItem>
+                  {shelves.map((shelf) => (
+                    <SelectItem key={shelf.id} value={shelf.id}>
+                      {shelf.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {/* Dialog for renaming and deleting shelves */}
+              <ShelfManager
+                shelves={shelves}
+                onRename={renameShelf}
+                onDelete={async (shelfId) => {
+                  await deleteShelf(shelfId);
+                  // Clear the shelf filter if it pointed at the deleted shelf
+                  if (filters.shelfId === shelfId) setFilters({ shelfId: 'all' }, { replace: true });
+                }}
               />
-            ))}
-          </div>
-        ) : (
-          // Show empty state when no books match filters or library is empty
-          <div className="flex flex-col items-center justify-center py-16 text-center animate-fade-in">
-            {/* Empty state icon */}
-            <div className="p-4 rounded-full bg-muted mb-4">
-              <BookOpen className="h-8 w-8 text-muted-foreground" />
-            </div>
-            {/* Empty state heading - different message based on filter state */}
-            <h3 className="font-serif text-xl font-semibold text-foreground mb-2">
-              {searchQuery || statusFilter !== 'all'
-                ? 'No books found' // When filters are active
-                : 'Your library is empty'} {/* When no filters */}
-            </h3>
-            {/* Empty state description */}
-            <p className="text-muted-foreground mb-6 max-w-sm">
-              {searchQuery || statusFilter !== 'all'
-                ? 'Try adjusting your search or filter'
-                : 'Start building your reading list by adding your first book'}
-            </p>
-            {/* Show add book button only when library is truly empty (no filters active) */}
-            {!searchQuery && statusFilter === 'all' && (
-              <Button asChild>
-                {/* Link to new book page */}
-                <Link to="/books/new">
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add Your First Book
-                </Link>
+              {/* Selection mode toggle for bulk actions */}
+              <Button
+                variant={selectionMode ? 'secondary' : 'outline'}
+                onClick={toggleSelectionMode}
+                disabled={libraryCount === 0}
+              >
+                <ListChecks className="h-4 w-4 mr-2" />
+                {selectionMode ? 'Done' : 'Select'}
               </Button>
+            </div>
+
+            {/* Books grid - conditionally renders based on loading/data state */}
+            {loading ? (
+              // Show skeleton loading placeholders while fetching
+              <div className="grid gap-4 sm:grid-cols-2 xl:grid-cols-3">
+                {/* Create 6 skeleton placeholders */}
+                {[...Array(6)].map((_, i) => (
+                  <Skeleton key={i} className="h-40 rounded-lg" />
+                ))}
+              </div>
+            ) : books.length > 0 ? (
+              <>
+                {/* Show books grid if there are filtered results */}
+                <div className="grid gap-4 sm:grid-cols-2 xl:grid-cols-3">
+                  {/* Map through filtered books and render BookCard for each */}
+                  {books.map((book, index) => (
+                    <BookCard
+                      key={book.id} // Unique key for React list rendering
+                      id={book.id}
+                      title={book.title}
+                      author={book.author}
+                      coverUrl={book.cover_path && thumbnailUrls[getThumbnailPath(book.cover_path)]}
+                      status={book.status}
+                      rating={deriveRating(book.read_throughs, book.rating, ratingMode)}
+                      readCount={countReads(book.read_throughs)}
+                      isFavorite={book.is_favorite}
+                      currentPage={book.current_page}
+                      pageCount={book.page_count}
+                      legacyProgress={book.legacy_progress}
+                      shelves={getShelfNames(book)}
+                      snippet={snippets[book.id]}
+                      index={index} // For staggered animation delay
+                      onDelete={handleDeleteBook} // Pass delete handler
+                      onToggleFavorite={(bookId) =>
+                        handleQuickUpdate(bookId, { is_favorite: !book.is_favorite }, book.updated_at)
+                      }
+                      onStatusChange={(bookId, status) => handleQuickUpdate(bookId, { status }, book.updated_at)}
+                      selectionMode={selectionMode}
+                      selected={selectedIds.includes(book.id)}
+                      onSelect={handleSelect}
+                    />
+                  ))}
+                </div>
+                {/* Paging footer - scrolling here loads the next page, the button is a fallback */}
+                <div ref={loadMoreRef} className="flex flex-col items-center gap-3 py-8 text-sm text-muted-foreground">
+                  <p>
+                    Showing {books.length} of {matchCount} {matchCount === 1 ? 'book' : 'books'}
+                  </p>
+                  {hasNextPage && (
+                    <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                      {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Load More
+                    </Button>
+                  )}
+                </div>
+              </>
+            ) : (
+              // Show empty state when no books match filters or library is empty
+              <div className="flex flex-col items-center justify-center py-16 text-center animate-fade-in">
+                {/* Empty state icon */}
+                <div className="p-4 rounded-full bg-muted mb-4">
+                  <BookOpen className="h-8 w-8 text-muted-foreground" />
+                </div>
+                {/* Empty state heading - different message based on filter state */}
+                <h3 className="font-serif text-xl font-semibold text-foreground mb-2">
+                  {hasFilters
+                    ? 'No books found' // When filters are active
+                    : 'Your library is empty'} {/* When no filters */}
+                </h3>
+                {/* Empty state description */}
+                <p className="text-muted-foreground mb-6 max-w-sm">
+                  {hasFilters
+                    ? 'Try adjusting your search or filter'
+                    : 'Start building your reading list by adding your first book'}
+                </p>
+                {/* Show add book button only when library is truly empty (no filters active) */}
+                {!hasFilters && (
+                  <Button asChild>
+                    {/* Link to new book page */}
+                    <Link to="/books/new">
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add Your First Book
+                    </Link>
+                  </Button>
+                )}
+              </div>
             )}
           </div>
+        </div>
+
+        {/* Bulk actions for the selected books (shown in selection mode) */}
+        {selectionMode && (
+          <BulkActionBar
+            selectedCount={selectedIds.length}
+            filteredCount={matchCount}
+            allFavorite={
+              selectedIds.length > 0 &&
+              books.filter((book) => selectedIds.includes(book.id)).every((book) => book.is_favorite)
+            }
+            shelves={shelves}
+            isWorking={isBulkWorking}
+            onSelectAll={handleSelectAll}
+            onClear={() => setSelectedIds([])}
+            onApply={handleBulkApply}
+            onDelete={handleBulkDelete}
+          />
         )}
+
+        {/* Yours vs theirs for books a bulk change conflicted with */}
+        <ConflictDialog
+          conflicts={bulkMerge?.conflicts ?? null}
+          isSaving={isBulkWorking}
+          onResolve={handleBulkMerge}
+          onCancel={() => setBulkMerge(null)}
+        />
       </main>
     </div>
   );
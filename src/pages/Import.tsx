@@ -0,0 +1,363 @@
+// Import React hooks for state management
+import { useState } from 'react';
+// Import navigation hook from React Router
+import { useNavigate } from 'react-router-dom';
+// Import date formatting helper
+import { format } from 'date-fns';
+// Import icons from lucide-react icon library
+import { AlertTriangle, FileUp, Loader2 } from 'lucide-react';
+// Import UI components from shadcn/ui component library
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+// Import custom components
+import Header from '@/components/Header';
+import StatusBadge from '@/components/StatusBadge';
+import StarRating from '@/components/StarRating';
+// Import Supabase client for database operations
+import { supabase } from '@/integrations/supabase/client';
+// Import custom hooks
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useInvalidateBooks } from '@/hooks/useBooks';
+// Import Goodreads export parsing helpers
+import { getBookMatchKey, GoodreadsBook, parseGoodreadsExport } from '@/lib/goodreads';
+// Import helper for reading every page of a query
+import { fetchAllRows } from '@/lib/paging';
+
+// What to do with a row that matches a book already in the library
+type DuplicateAction = 'skip' | 'overwrite' | 'import';
+
+// Define interface for a row in the import preview
+interface ImportRow extends GoodreadsBook {
+  key: number; // Position in the file, used as a React key
+  include: boolean; // Whether the row will be imported
+  duplicateOf: string | null; // ID of the matching library book (null if new)
+  repeatOf: number | null; // Key of an earlier row in the file for the same book (null if first)
+  action: DuplicateAction; // What to do if the row is a duplicate
+}
+
+// Number of rows sent per request when importing
+const BATCH_SIZE = 500;
+
+// Import component - imports a Goodreads library export with a preview
+const Import = () => {
+  // Hook to navigate between routes programmatically
+  const navigate = useNavigate();
+  // Get current user from auth context
+  const { user } = useAuth();
+  // Hook for displaying toast notifications
+  const { toast } = useToast();
+  // Marks cached books stale so the library shows the changes
+  const invalidateBooks = useInvalidateBooks();
+  // State for the parsed rows (null until a file is chosen)
+  const [rows, setRows] = useState<ImportRow[] | null>(null);
+  // State to track if the file is being read and matched
+  const [isParsing, setIsParsing] = useState(false);
+  // State to track if the import is running
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Rows that will be written, split by how they are written
+  const rowsToInsert = rows?.filter((row) => row.include && (!row.duplicateOf || row.action === 'import')) ?? [];
+  const rowsToOverwrite = rows?.filter((row) => row.include && row.duplicateOf && row.action === 'overwrite') ?? [];
+  // Number of duplicates found in the file
+  const duplicateCount = rows?.filter((row) => row.duplicateOf).length ?? 0;
+  // Number of rows repeating an earlier row of the file
+  const repeatCount = rows?.filter((row) => row.repeatOf !== null).length ?? 0;
+
+  // Async function to load the title/author of every book in the library for duplicate matching
+  const fetchLibraryKeys = async () => {
+    const books = await fetchAllRows((from, to) =>
+      supabase
+        .from('books')
+        .select('id, title, author')
+        .is('deleted_at', null)
+        .order('created_at')
+        .order('id')
+        .range(from, to)
+    );
+    return new Map(books.map((book) => [getBookMatchKey(book.title, book.author), book.id]));
+  };
+
+  // Handler for choosing a file - parse it and flag duplicates
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Nothing to do if the selection was cleared
+    if (!file) return;
+
+    // Set parsing state to show loading indicator
+    setIsParsing(true);
+    try {
+      // Read and parse the file alongside the library lookup
+      const [books, libraryKeys] = await Promise.all([
+        file.text().then(parseGoodreadsExport),
+        fetchLibraryKeys(),
+      ]);
+      // First row of the file for each book, to spot books listed more than once
+      const fileKeys = new Map<string, number>();
+      // Build preview rows - duplicates are skipped unless the user chooses otherwise,
+      // and repeats of an earlier row start unticked
+      setRows(
+        books.map((book, index) => {
+          const matchKey = getBookMatchKey(book.title, book.author);
+          const duplicateOf = libraryKeys.get(matchKey) ?? null;
+          const repeatOf = fileKeys.get(matchKey) ?? null;
+          if (repeatOf === null) fileKeys.set(matchKey, index);
+          return { ...book, key: index, include: repeatOf === null, duplicateOf, repeatOf, action: 'skip' };
+        })
+      );
+    } catch (error) {
+      // Show error toast if the file couldn't be read
+      toast({
+        title: 'Could not read file',
+        description: error instanceof Error ? error.message : 'Please choose a Goodreads CSV export.',
+        variant: 'destructive',
+      });
+    } finally {
+      // Reset parsing state
+      setIsParsing(false);
+    }
+  };
+
+  // Update a single preview row
+  const updateRow = (key: number, changes: Partial<ImportRow>) => {
+    setRows((prevRows) => prevRows!.map((row) => (row.key === key ? { ...row, ...changes } : row)));
+  };
+
+  // Include or exclude every row at once
+  const setAllIncluded = (include: boolean) => {
+    setRows((prevRows) => prevRows!.map((row) => ({ ...row, include })));
+  };
+
+  // Handler function to write the chosen rows to the library
+  const handleImport = async () => {
+    // Return early if user is not logged in
+    if (!user) return;
+
+    // Set importing state to show loading indicator
+    setIsImporting(true);
+    try {
+      // Columns shared by new and overwritten books
+      const toBook = (row: ImportRow) => ({
+        user_id: user.id,
+        title: row.title,
+        author: row.author,
+        status: row.status,
+        rating: row.rating,
+        review: row.review,
+        page_count: row.page_count,
+        finished_at: row.finished_at,
+      });
+
+      // Insert new books in batches, keeping their Goodreads "Date Added"
+      for (let i = 0; i < rowsToInsert.length; i += BATCH_SIZE) {
+        const { error } = await supabase.from('books').insert(
+          rowsToInsert.slice(i, i + BATCH_SIZE).map((row) => ({
+            ...toBook(row),
+            ...(row.added_at && { created_at: row.added_at }),
+          }))
+        );
+        // Throw error if insert failed
+        if (error) throw error;
+      }
+
+      // Overwrite matching books in batches, keyed on their existing ID
+      for (let i = 0; i < rowsToOverwrite.length; i += BATCH_SIZE) {
+        const { error } = await supabase.from('books').upsert(
+          rowsToOverwrite.slice(i, i + BATCH_SIZE).map((row) => ({
+            ...toBook(row),
+            id: row.duplicateOf!,
+          }))
+        );
+        // Throw error if update failed
+        if (error) throw error;
+      }
+
+      // Refresh the cached library
+      invalidateBooks();
+      // Show success toast with counts
+      toast({
+        title: 'Import complete',
+        description: `Added ${rowsToInsert.length} and updated ${rowsToOverwrite.length} ${
+          rowsToInsert.length + rowsToOverwrite.length === 1 ? 'book' : 'books'
+        }.`,
+      });
+      // Navigate to books list page
+      navigate('/books');
+    } catch (error) {
+      // Some batches may have been written before the failure
+      invalidateBooks();
+      // Show error toast if import failed
+      toast({
+        title: 'Error',
+        description: 'Import failed part way through. Some books may already have been added.',
+        variant: 'destructive',
+      });
+    } finally {
+      // Reset importing state
+      setIsImporting(false);
+    }
+  };
+
+  // Render the import page
+  return (
+    // Main container with full viewport height
+    <div className="min-h-screen bg-background">
+      {/* Navigation header component */}
+      <Header />
+
+      {/* Main content area with container padding */}
+      <main className="container py-8">
+        {/* Card container for file selection with slide-up animation */}
+        <Card className="animate-slide-up shadow-soft mb-6">
+          <CardHeader>
+            <CardTitle className="font-serif text-2xl">Import from Goodreads</CardTitle>
+            <CardDescription>
+              In Goodreads, go to My Books → Import and export → Export Library, then choose the
+              downloaded CSV file here.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {/* File input for the Goodreads CSV */}
+            <div className="flex items-center gap-3">
+              <FileUp className="h-5 w-5 text-muted-foreground" />
+              <Input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleFileChange}
+                disabled={isParsing || isImporting}
+                className="bg-background"
+              />
+              {isParsing && <Loader2 className="h-5 w-5 animate-spin text-primary" />}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Preview table (shown once a file has been parsed) */}
+        {rows && (
+          <Card className="animate-fade-in shadow-soft">
+            <CardHeader>
+              {/* Preview summary with select all / none */}
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div>
+                  <CardTitle className="font-serif text-xl">Preview</CardTitle>
+                  <CardDescription>
+                    {rows.length} {rows.length === 1 ? 'book' : 'books'} found
+                    {duplicateCount > 0 && `, ${duplicateCount} already in your library`}
+                    {repeatCount > 0 && `, ${repeatCount} listed more than once`}
+                  </CardDescription>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setAllIncluded(true)}>
+                    Include All
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setAllIncluded(false)}>
+                    Skip All
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="rounded-lg border border-border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10" />
+                      <TableHead>Title</TableHead>
+                      <TableHead>Author</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Rating</TableHead>
+                      <TableHead>Finished</TableHead>
+                      <TableHead>Duplicate</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row) => (
+                      <TableRow key={row.key} className={row.include ? undefined : 'opacity-50'}>
+                        {/* Include/skip checkbox */}
+                        <TableCell>
+                          <Checkbox
+                            checked={row.include}
+                            onCheckedChange={(checked) => updateRow(row.key, { include: checked === true })}
+                            aria-label={`Include ${row.title}`}
+                          />
+                        </TableCell>
+                        <TableCell className="font-medium max-w-xs truncate">{row.title}</TableCell>
+                        <TableCell className="text-muted-foreground">{row.author}</TableCell>
+                        <TableCell>
+                          <StatusBadge status={row.status} />
+                        </TableCell>
+                        <TableCell>
+                          {row.rating && <StarRating rating={row.rating} readonly size="sm" />}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground whitespace-nowrap">
+                          {row.finished_at && format(new Date(row.finished_at), 'MMM d, yyyy')}
+                        </TableCell>
+                        {/* Duplicate handling (only shown for rows matching a library book or an earlier row) */}
+                        <TableCell>
+                          {row.repeatOf !== null && (
+                            <p className="text-xs text-muted-foreground whitespace-nowrap">Listed earlier in the file</p>
+                          )}
+                          {row.duplicateOf && (
+                            <div className="flex items-center gap-2">
+                              <AlertTriangle className="h-4 w-4 text-destructive flex-shrink-0" />
+                              <Select
+                                value={row.action}
+                                onValueChange={(action: DuplicateAction) => updateRow(row.key, { action })}
+                                disabled={!row.include}
+                              >
+                                <SelectTrigger className="h-8 w-36 bg-background">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="skip">Skip</SelectItem>
+                                  <SelectItem value="overwrite">Overwrite</SelectItem>
+                                  <SelectItem value="import">Import anyway</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {/* Import button with counts */}
+              <div className="flex justify-end">
+                <Button
+                  onClick={handleImport}
+                  disabled={isImporting || rowsToInsert.length + rowsToOverwrite.length === 0}
+                >
+                  {isImporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Import {rowsToInsert.length} new
+                  {rowsToOverwrite.length > 0 && `, overwrite ${rowsToOverwrite.length}`}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
+
+// Export Import component as default export
+export default Import;
@@ -7,11 +7,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 // Import custom components
 import Header from '@/components/Header';
 import BookForm from '@/components/BookForm';
-// Import Supabase client for database operations
-import { supabase } from '@/integrations/supabase/client';
 // Import custom hooks
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
+import { useCreateBook } from '@/hooks/useBooks';
 
 // NewBook component - form to add a new book to the library
 const NewBook = () => {
@@ -21,8 +20,12 @@ const NewBook = () => {
   const { user } = useAuth();
   // Hook for displaying toast notifications
   const { toast } = useToast();
+  // Mutation that adds the book (queued when offline)
+  const createBook = useCreateBook();
   // State to track if form is being submitted
   const [isLoading, setIsLoading] = useState(false);
+  // ID for the new book, known up front so its cover can be uploaded before it is saved
+  const [bookId] = useState(() => crypto.randomUUID());
 
   // Handler function to submit new book to database
   const handleSubmit = async (data: {
@@ -32,7 +35,15 @@ const NewBook = () => {
     rating: number | null; // User rating 1-5 (optional)
     review: string; // User's review text
     is_favorite: boolean; // Whether to mark as favorite
-    reading_progress: number; // Reading progress percentage
+    page_count: number | null; // Total pages in the book
+    current_page: number; // Page the reader is currently on
+    shelf_ids: string[]; // Shelves to put the book on
+    started_at: string | null; // Start date (stamped by the database if empty)
+    finished_at: string | null; // Finish date (stamped by the database if empty)
+    cover_path: string | null; // Uploaded cover image
+    isbn: string | null; // ISBN-13 (ISBN-10s are converted)
+    publisher: string; // Publisher name
+    published_year: number | null; // Year the edition was published
   }) => {
     // Return early if user is not logged in
     if (!user) return;
@@ -40,25 +51,34 @@ const NewBook = () => {
     // Set loading state to show spinner on button
     setIsLoading(true);
     try {
-      // Insert new book record into Supabase
-      const { error } = await supabase.from('books').insert({
-        user_id: user.id, // Associate book with current user
-        title: data.title.trim(), // Trim whitespace from title
-        author: data.author.trim() || null, // Set to null if empty string
-        status: data.status,
-        rating: data.rating,
-        review: data.review.trim() || null, // Set to null if empty string
-        is_favorite: data.is_favorite,
-        reading_progress: data.reading_progress,
+      // Insert new book record with its shelves (queued when offline)
+      const { queued } = await createBook.mutateAsync({
+        id: bookId,
+        values: {
+          title: data.title.trim(), // Trim whitespace from title
+          author: data.author.trim() || null, // Set to null if empty string
+          status: data.status,
+          rating: data.rating,
+          review: data.review.trim() || null, // Set to null if empty string
+          is_favorite: data.is_favorite,
+          page_count: data.page_count,
+          current_page: data.current_page,
+          started_at: data.started_at,
+          finished_at: data.finished_at,
+          cover_path: data.cover_path,
+          isbn: data.isbn,
+          publisher: data.publisher.trim() || null, // Set to null if empty string
+          published_year: data.published_year,
+        },
+        shelfIds: data.shelf_ids,
       });
 
-      // Throw error if insert failed
-      if (error) throw error;
-
       // Show success toast with book title
       toast({
-        title: 'Book added!',
-        description: `"${data.title}" has been added to your library.`,
+        title: queued ? 'Saved offline' : 'Book added!',
+        description: queued
+          ? `"${data.title}" will be added to your library when you're back online.`
+          : `"${data.title}" has been added to your library.`,
       });
       // Navigate to books list page
       navigate('/books');
@@ -97,6 +117,7 @@ const NewBook = () => {
           <CardContent>
             {/* Reusable BookForm component */}
             <BookForm
+              bookId={bookId} // Covers are uploaded under the new book's ID
               onSubmit={handleSubmit} // Handler for form submission
               submitLabel="Add Book" // Text for submit button
               isLoading={isLoading} // Loading state for button spinner
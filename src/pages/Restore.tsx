@@ -0,0 +1,346 @@
+// Import React hooks for state management
+import { useState } from 'react';
+// Import navigation hook from React Router
+import { useNavigate } from 'react-router-dom';
+// Import date formatting helper
+import { format } from 'date-fns';
+// Import icons from lucide-react icon library
+import { FileUp, Loader2 } from 'lucide-react';
+// Import UI components from shadcn/ui component library
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+// Import custom components
+import Header from '@/components/Header';
+import StatusBadge from '@/components/StatusBadge';
+// Import Supabase client for database operations
+import { supabase } from '@/integrations/supabase/client';
+// Import custom hooks
+import { useToast } from '@/hooks/use-toast';
+import { useInvalidateBooks } from '@/hooks/useBooks';
+// Import backup parsing and comparison helpers
+import { BackupBook, compareBackupBook, parseLibraryBackup, RestoreChange } from '@/lib/backup';
+// Import helper for reading every page of a query
+import { fetchAllRows } from '@/lib/paging';
+
+// How the backup is applied: merge into the library or replace it
+type RestoreMode = 'merge' | 'replace';
+
+// Define interface for a backup book with its comparison against the library
+interface RestoreRow {
+  key: number; // Position in the file, used as a React key
+  book: BackupBook; // Book read from the backup
+  change: RestoreChange; // New, changed or identical
+  columns: string[]; // Columns that differ (changed books only)
+}
+
+// Define interface for a parsed backup ready to restore
+interface RestorePlan {
+  exportedAt: string; // When the backup was made
+  rows: RestoreRow[]; // Every book in the backup
+  removedCount: number; // Library books missing from the backup (moved to the trash in replace mode)
+}
+
+// Badge styles for each kind of change
+const changeLabels: Record<RestoreChange, string> = {
+  new: 'New',
+  changed: 'Changed',
+  identical: 'Identical',
+};
+
+// Restore component - restores the library from a JSON backup
+const Restore = () => {
+  // Hook to navigate between routes programmatically
+  const navigate = useNavigate();
+  // Hook for displaying toast notifications
+  const { toast } = useToast();
+  // Marks cached books stale so the library shows the changes
+  const invalidateBooks = useInvalidateBooks();
+  // State for the parsed backup (null until a file is chosen)
+  const [plan, setPlan] = useState<RestorePlan | null>(null);
+  // State for the chosen restore mode
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  // State to track if the file is being read and compared
+  const [isParsing, setIsParsing] = useState(false);
+  // State to track if the restore is running
+  const [isRestoring, setIsRestoring] = useState(false);
+  // State to control the replace confirmation dialog
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  // Number of backup books of each kind
+  const countOf = (change: RestoreChange) => plan?.rows.filter((row) => row.change === change).length ?? 0;
+  // Rows worth listing - identical books are only counted
+  const differingRows = plan?.rows.filter((row) => row.change !== 'identical') ?? [];
+
+  // Handler for choosing a file - validate it and compare it with the library
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Nothing to do if the selection was cleared
+    if (!file) return;
+
+    // Set parsing state to show loading indicator
+    setIsParsing(true);
+    try {
+      // Read and validate the file alongside loading the library
+      const [backup, libraryBooks] = await Promise.all([
+        file.text().then(parseLibraryBackup),
+        fetchAllRows((from, to) =>
+          supabase
+            .from('books')
+            .select('*')
+            .is('deleted_at', null)
+            .order('created_at')
+            .order('id')
+            .range(from, to)
+        ),
+      ]);
+      const library = new Map(libraryBooks.map((book) => [book.id, book]));
+      const backupIds = new Set(backup.books.map((book) => book.id));
+
+      // Compare every backup book with the library, keyed on ID
+      setPlan({
+        exportedAt: backup.exported_at,
+        rows: backup.books.map((book, index) => ({ key: index, book, ...compareBackupBook(book, library) })),
+        removedCount: libraryBooks.filter((book) => !backupIds.has(book.id)).length,
+      });
+    } catch (error) {
+      // Show error toast if the file couldn't be read
+      setPlan(null);
+      toast({
+        title: 'Could not read backup',
+        description: error instanceof Error ? error.message : 'Please choose a BookTracker JSON backup.',
+        variant: 'destructive',
+      });
+    } finally {
+      // Reset parsing state
+      setIsParsing(false);
+    }
+  };
+
+  // Handler function to apply the backup in a single transaction
+  const handleRestore = async () => {
+    // Return early if no backup has been chosen
+    if (!plan) return;
+
+    // Set restoring state to show loading indicator
+    setIsRestoring(true);
+    try {
+      const { error } = await supabase.rpc('restore_library', {
+        p_books: plan.rows.map((row) => row.book),
+        p_mode: mode,
+      });
+      // Throw error if the restore failed - nothing has been changed
+      if (error) throw error;
+      // Refresh the cached library
+      invalidateBooks();
+
+      // Show success toast
+      toast({
+        title: 'Library restored',
+        description: `Restored ${plan.rows.length} ${plan.rows.length === 1 ? 'book' : 'books'} from the backup.`,
+      });
+      // Navigate to books list page
+      navigate('/books');
+    } catch (error) {
+      // Show error toast if restore failed
+      toast({
+        title: 'Error',
+        description: 'Restore failed. Your library has not been changed.',
+        variant: 'destructive',
+      });
+    } finally {
+      // Reset restoring state
+      setIsRestoring(false);
+    }
+  };
+
+  // Render the restore page
+  return (
+    // Main container with full viewport height
+    <div className="min-h-screen bg-background">
+      {/* Navigation header component */}
+      <Header />
+
+      {/* Main content area with container padding */}
+      <main className="container py-8">
+        {/* Card container for file selection with slide-up animation */}
+        <Card className="animate-slide-up shadow-soft mb-6">
+          <CardHeader>
+            <CardTitle className="font-serif text-2xl">Restore from Backup</CardTitle>
+            <CardDescription>
+              Choose a JSON backup made with Export Books as JSON. You'll see what will change before
+              anything is restored. Backups hold your books only - shelves, past readings, reading
+              sessions and goals are left as they are.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {/* File input for the JSON backup */}
+            <div className="flex items-center gap-3">
+              <FileUp className="h-5 w-5 text-muted-foreground" />
+              <Input
+                type="file"
+                accept=".json,application/json"
+                onChange={handleFileChange}
+                disabled={isParsing || isRestoring}
+                className="bg-background"
+              />
+              {isParsing && <Loader2 className="h-5 w-5 animate-spin text-primary" />}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Summary and options (shown once a backup has been read) */}
+        {plan && (
+          <Card className="animate-fade-in shadow-soft">
+            <CardHeader>
+              <CardTitle className="font-serif text-xl">Summary</CardTitle>
+              <CardDescription>
+                Backup from {format(new Date(plan.exportedAt), 'MMM d, yyyy h:mm a')} with{' '}
+                {plan.rows.length} {plan.rows.length === 1 ? 'book' : 'books'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {/* Counts of new, changed and identical books */}
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                {(['new', 'changed', 'identical'] as const).map((change) => (
+                  <div key={change} className="rounded-lg border border-border p-4">
+                    <p className="font-serif text-2xl font-bold text-foreground">{countOf(change)}</p>
+                    <p className="text-sm text-muted-foreground">{changeLabels[change]}</p>
+                  </div>
+                ))}
+                {/* Books that only exist in the library */}
+                <div className="rounded-lg border border-border p-4">
+                  <p className="font-serif text-2xl font-bold text-foreground">{plan.removedCount}</p>
+                  <p className="text-sm text-muted-foreground">Not in backup</p>
+                </div>
+              </div>
+
+              {/* New and changed books */}
+              {differingRows.length > 0 && (
+                <div className="rounded-lg border border-border overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Title</TableHead>
+                        <TableHead>Author</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Change</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {differingRows.map((row) => (
+                        <TableRow key={row.key}>
+                          <TableCell className="font-medium max-w-xs truncate">{row.book.title}</TableCell>
+                          <TableCell className="text-muted-foreground">{row.book.author}</TableCell>
+                          <TableCell>
+                            <StatusBadge status={row.book.status} />
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap items-center gap-2">
+                              <Badge variant={row.change === 'new' ? 'default' : 'secondary'}>
+                                {changeLabels[row.change]}
+                              </Badge>
+                              {/* Columns that will be overwritten */}
+                              {row.columns.length > 0 && (
+                                <span className="text-xs text-muted-foreground">
+                                  {row.columns.map((column) => column.replace('_', ' ')).join(', ')}
+                                </span>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              {/* Merge or replace */}
+              <RadioGroup value={mode} onValueChange={(value: RestoreMode) => setMode(value)}>
+                <div className="flex items-start gap-3">
+                  <RadioGroupItem value="merge" id="mode-merge" className="mt-1" />
+                  <Label htmlFor="mode-merge" className="font-normal">
+                    <span className="font-medium">Merge</span>
+                    <span className="block text-muted-foreground">
+                      Add new books and overwrite changed ones. Books not in the backup are kept.
+                    </span>
+                  </Label>
+                </div>
+                <div className="flex items-start gap-3">
+                  <RadioGroupItem value="replace" id="mode-replace" className="mt-1" />
+                  <Label htmlFor="mode-replace" className="font-normal">
+                    <span className="font-medium">Replace</span>
+                    <span className="block text-muted-foreground">
+                      Make your library match the backup exactly. {plan.removedCount}{' '}
+                      {plan.removedCount === 1 ? 'book' : 'books'} not in the backup will be moved to the trash.
+                    </span>
+                  </Label>
+                </div>
+              </RadioGroup>
+
+              {/* Restore button - replacing asks for confirmation when books would be trashed */}
+              <div className="flex justify-end">
+                <Button
+                  onClick={() =>
+                    mode === 'replace' && plan.removedCount > 0 ? setConfirmOpen(true) : handleRestore()
+                  }
+                  disabled={isRestoring || plan.rows.length + plan.removedCount === 0}
+                  variant={mode === 'replace' ? 'destructive' : 'default'}
+                >
+                  {isRestoring && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {mode === 'replace' ? 'Replace Library' : 'Merge into Library'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Confirmation dialog for a replace that trashes books */}
+        <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Replace your library?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {plan?.removedCount} {plan?.removedCount === 1 ? 'book' : 'books'} not in the backup will be
+                moved to the trash.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleRestore}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Replace
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </main>
+    </div>
+  );
+};
+
+// Export Restore component as default export
+export default Restore;
@@ -0,0 +1,368 @@
+// Import React hooks for state management and side effects
+import { useState, useCallback, useEffect } from 'react';
+// Import chart primitives from recharts
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from 'recharts';
+// Import icons from lucide-react icon library
+import { Clock, Hourglass, Loader2 } from 'lucide-react';
+// Import UI components from shadcn/ui component library
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+// Import custom components
+import Header from '@/components/Header';
+// Import Supabase client for database operations
+import { supabase } from '@/integrations/supabase/client';
+// Import custom hooks
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+// Import time zone helper so years match the goal card
+import { getTimeZone } from '@/lib/goals';
+
+// Define type for book reading status - matches database enum
+type BookStatus = 'want_to_read' | 'reading' | 'read';
+
+// Define interface for all statistics shown on the page
+interface ReadingStats {
+  finishedPerMonth: { month: string; finished: number }[]; // Readings finished each month
+  ratings: { rating: string; readings: number }[]; // Readings per star rating
+  statuses: { status: BookStatus; books: number }[]; // Books per status
+  topAuthors: { author: string; readings: number }[]; // Most-read authors
+  averageDays: number | null; // Average days from start to finish (null if unknown)
+  timedReadings: number; // Readings with both dates, used for the average
+  averageQueueDays: number | null; // Average days books waited in Want to Read before being started
+  queuedStarts: number; // Books started straight from Want to Read, used for the average
+}
+
+// Short month names for the chart axis, indexed from 1
+const monthNames = ['', 'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Chart configuration for the per-month and rating bar charts
+const finishedChartConfig = {
+  finished: { label: 'Finished', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+const ratingChartConfig = {
+  readings: { label: 'Readings', color: 'hsl(var(--star-filled))' },
+} satisfies ChartConfig;
+const authorChartConfig = {
+  readings: { label: 'Readings', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+// Chart configuration for the status pie chart - colours match the status badges
+const statusChartConfig = {
+  books: { label: 'Books' },
+  want_to_read: { label: 'Want to Read', color: 'hsl(var(--status-want-to-read))' },
+  reading: { label: 'Reading', color: 'hsl(var(--status-reading))' },
+  read: { label: 'Read', color: 'hsl(var(--status-read))' },
+} satisfies ChartConfig;
+
+// Stats component - reading statistics dashboard with a year selector
+const Stats = () => {
+  // Get current user from auth context
+  const { user } = useAuth();
+  // Hook for displaying toast notifications
+  const { toast } = useToast();
+  // The current calendar year, selected by default
+  const currentYear = new Date().getFullYear();
+  // State for the selected year
+  const [year, setYear] = useState(currentYear);
+  // State for the years that have finished readings (always includes this year)
+  const [years, setYears] = useState<number[]>([currentYear]);
+  // State to store the statistics for the selected year
+  const [stats, setStats] = useState<ReadingStats | null>(null);
+  // State to track loading status during data fetch
+  const [loading, setLoading] = useState(true);
+
+  // Async function to fetch the years that have finished readings
+  const fetchYears = useCallback(async () => {
+    const { data, error } = await supabase.rpc('reading_years', { p_time_zone: getTimeZone() });
+    // Keep the default (current year only) if the query failed
+    if (error) return;
+    // Merge in the current year and sort newest first
+    setYears([...new Set([currentYear, ...data.map((row) => row.year)])].sort((a, b) => b - a));
+  }, [currentYear]);
+
+  // Async function to fetch every statistic for the selected year
+  const fetchStats = useCallback(async () => {
+    // Show the loading state while switching years
+    setLoading(true);
+    try {
+      // Years, months and days are split in the reader's time zone
+      const p_time_zone = getTimeZone();
+      // Run the aggregation functions in parallel
+      const [perMonth, ratings, statuses, authors, duration, queue] = await Promise.all([
+        supabase.rpc('books_finished_per_month', { p_year: year, p_time_zone }),
+        supabase.rpc('rating_distribution', { p_year: year, p_time_zone }),
+        supabase.rpc('status_breakdown'),
+        supabase.rpc('top_authors', { p_year: year, p_limit: 5, p_time_zone }),
+        supabase.rpc('average_days_to_finish', { p_year: year, p_time_zone }),
+        supabase.rpc('average_days_in_queue', { p_year: year, p_time_zone }),
+      ]);
+
+      // Throw the first error if any query failed
+      const error = [perMonth, ratings, statuses, authors, duration, queue].find((result) => result.error)?.error;
+      if (error) throw error;
+
+      // Shape the results for the charts
+      setStats({
+        finishedPerMonth: perMonth.data.map((row) => ({
+          month: monthNames[row.month],
+          finished: row.finished,
+        })),
+        ratings: ratings.data.map((row) => ({
+          rating: `${row.rating}★`,
+          readings: row.readings,
+        })),
+        statuses: statuses.data,
+        topAuthors: authors.data,
+        averageDays: duration.data[0]?.average_days ?? null,
+        timedReadings: duration.data[0]?.readings ?? 0,
+        averageQueueDays: queue.data[0]?.average_days ?? null,
+        queuedStarts: queue.data[0]?.books ?? 0,
+      });
+    } catch (error) {
+      // Show error toast if fetch failed
+      toast({
+        title: 'Error',
+        description: 'Failed to load statistics. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      // Set loading to false regardless of outcome
+      setLoading(false);
+    }
+  }, [year, toast]);
+
+  // Effect to fetch the available years when user is available
+  useEffect(() => {
+    // Only fetch if user is logged in
+    if (user) {
+      fetchYears();
+    }
+  }, [user, fetchYears]); // Re-run when user changes
+
+  // Effect to fetch statistics when user or selected year changes
+  useEffect(() => {
+    // Only fetch if user is logged in
+    if (user) {
+      fetchStats();
+    }
+  }, [user, fetchStats]); // Re-run when user or year changes
+
+  // Total readings finished in the selected year
+  const totalFinished = stats?.finishedPerMonth.reduce((total, row) => total + row.finished, 0) ?? 0;
+
+  // Render the statistics page
+  return (
+    // Main container with full viewport height
+    <div className="min-h-screen bg-background">
+      {/* Navigation header component */}
+      <Header />
+
+      {/* Main content area with container padding */}
+      <main className="container py-8">
+        {/* Page title with year selector */}
+        <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4 mb-8 animate-fade-in">
+          <div>
+            {/* Page heading */}
+            <h1 className="font-serif text-3xl font-bold text-foreground mb-2">Reading Stats</h1>
+            {/* Summary subtitle */}
+            <p className="text-muted-foreground">
+              {totalFinished} {totalFinished === 1 ? 'book' : 'books'} finished in {year}
+            </p>
+          </div>
+          {/* Year selector */}
+          <Select value={String(year)} onValueChange={(value) => setYear(Number(value))}>
+            <SelectTrigger className="w-full sm:w-32 bg-background">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {years.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {loading || !stats ? (
+          // Show spinner while fetching statistics
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          // Grid of statistic cards
+          <div className="grid gap-6 lg:grid-cols-2 animate-fade-in">
+            {/* Books finished per month */}
+            <Card className="lg:col-span-2 shadow-soft">
+              <CardHeader>
+                <CardTitle className="font-serif text-xl">Books Finished per Month</CardTitle>
+                <CardDescription>Including re-reads</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={finishedChartConfig} className="h-64 w-full aspect-auto">
+                  <BarChart data={stats.finishedPerMonth}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="month" tickLine={false} axisLine={false} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={28} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="finished" fill="var(--color-finished)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            {/* Rating distribution */}
+            <Card className="shadow-soft">
+              <CardHeader>
+                <CardTitle className="font-serif text-xl">Ratings</CardTitle>
+                <CardDescription>How you rated the books you finished</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={ratingChartConfig} className="h-56 w-full aspect-auto">
+                  <BarChart data={stats.ratings}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="rating" tickLine={false} axisLine={false} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={28} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="readings" fill="var(--color-readings)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            {/* Status breakdown */}
+            <Card className="shadow-soft">
+              <CardHeader>
+                <CardTitle className="font-serif text-xl">Library Status</CardTitle>
+                <CardDescription>All books in your library right now</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {stats.statuses.length > 0 ? (
+                  <ChartContainer config={statusChartConfig} className="h-56 w-full aspect-auto">
+                    <PieChart>
+                      <ChartTooltip content={<ChartTooltipContent nameKey="status" hideLabel />} />
+                      <Pie data={stats.statuses} dataKey="books" nameKey="status" innerRadius={50}>
+                        {/* One slice per status, coloured like the status badges */}
+                        {stats.statuses.map((row) => (
+                          <Cell key={row.status} fill={`var(--color-${row.status})`} />
+                        ))}
+                      </Pie>
+                      <ChartLegend content={<ChartLegendContent nameKey="status" />} />
+                    </PieChart>
+                  </ChartContainer>
+                ) : (
+                  <p className="text-sm text-muted-foreground text-center py-8">Your library is empty.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Most-read authors */}
+            <Card className="shadow-soft">
+              <CardHeader>
+                <CardTitle className="font-serif text-xl">Most-Read Authors</CardTitle>
+                <CardDescription>By books finished in {year}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {stats.topAuthors.length > 0 ? (
+                  <ChartContainer config={authorChartConfig} className="h-56 w-full aspect-auto">
+                    <BarChart data={stats.topAuthors} layout="vertical" margin={{ left: 8 }}>
+                      <XAxis type="number" allowDecimals={false} hide />
+                      <YAxis
+                        type="category"
+                        dataKey="author"
+                        tickLine={false}
+                        axisLine={false}
+                        width={120}
+                      />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="readings" fill="var(--color-readings)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                ) : (
+                  <p className="text-sm text-muted-foreground text-center py-8">
+                    No finished books with an author in {year}.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Average time to finish */}
+            <Card className="shadow-soft">
+              <CardHeader>
+                <CardTitle className="font-serif text-xl">Average Time to Finish</CardTitle>
+                <CardDescription>From start date to finish date</CardDescription>
+              </CardHeader>
+              <CardContent className="flex items-center gap-4 py-8">
+                {/* Clock icon */}
+                <div className="p-3 rounded-full bg-primary/10">
+                  <Clock className="h-6 w-6 text-primary" />
+                </div>
+                {stats.averageDays !== null ? (
+                  <div>
+                    <p className="font-serif text-3xl font-bold text-foreground">
+                      {stats.averageDays} {stats.averageDays === 1 ? 'day' : 'days'}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      Across {stats.timedReadings} {stats.timedReadings === 1 ? 'book' : 'books'} with
+                      start and finish dates
+                    </p>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    No books with both a start and finish date in {year}.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Average time waiting to be started */}
+            <Card className="shadow-soft">
+              <CardHeader>
+                <CardTitle className="font-serif text-xl">Average Time in Want to Read</CardTitle>
+                <CardDescription>From being added to the queue to being started</CardDescription>
+              </CardHeader>
+              <CardContent className="flex items-center gap-4 py-8">
+                {/* Hourglass icon */}
+                <div className="p-3 rounded-full bg-primary/10">
+                  <Hourglass className="h-6 w-6 text-primary" />
+                </div>
+                {stats.averageQueueDays !== null ? (
+                  <div>
+                    <p className="font-serif text-3xl font-bold text-foreground">
+                      {stats.averageQueueDays} {stats.averageQueueDays === 1 ? 'day' : 'days'}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      Across {stats.queuedStarts} {stats.queuedStarts === 1 ? 'book' : 'books'} started from
+                      Want to Read
+                    </p>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    No books started from Want to Read in {year}.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+// Export Stats component as default export
+export default Stats;
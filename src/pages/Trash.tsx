@@ -0,0 +1,249 @@
+// Import React hooks for state management and side effects
+import { useState, useEffect } from 'react';
+// Import date helpers for formatting and counting down the retention period
+import { addDays, differenceInCalendarDays, format } from 'date-fns';
+// Import icons from lucide-react icon library
+import { Loader2, RotateCcw, Trash2 } from 'lucide-react';
+// Import UI components from shadcn/ui component library
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+// Import custom components
+import Header from '@/components/Header';
+import StatusBadge from '@/components/StatusBadge';
+// Import custom hooks
+import { useToast } from '@/hooks/use-toast';
+import { usePurgeBooks, useRestoreBooks, useTrashedBooks } from '@/hooks/useBooks';
+// Import the trash retention period
+import { TRASH_RETENTION_DAYS } from '@/lib/trash';
+
+// Describe how long a trashed book has left before it is purged, e.g. "12 days left"
+const formatDaysLeft = (deletedAt: string) => {
+  const days = Math.max(
+    0,
+    differenceInCalendarDays(addDays(new Date(deletedAt), TRASH_RETENTION_DAYS), new Date())
+  );
+  return `${days} ${days === 1 ? 'day' : 'days'} left`;
+};
+
+// Trash component - lists deleted books so they can be restored or purged
+const Trash = () => {
+  // Hook for displaying toast notifications
+  const { toast } = useToast();
+  // Cached trash query, most recently deleted first
+  const { data: books = [], isLoading: loading, isError } = useTrashedBooks();
+  // Mutations for restoring and purging books
+  const restoreBooks = useRestoreBooks();
+  const purgeBooks = usePurgeBooks();
+  // State for the IDs of books with an action in progress
+  const [busyIds, setBusyIds] = useState<string[]>([]);
+
+  // Effect to report a failed trash load
+  useEffect(() => {
+    if (isError) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load the trash. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  }, [isError, toast]); // Re-run when the query fails or recovers
+
+  // Run an action on some books (the trash is refetched afterwards)
+  const runAction = async (bookIds: string[], action: (ids: string[]) => Promise<void>, failure: string) => {
+    setBusyIds((prev) => [...prev, ...bookIds]);
+    try {
+      await action(bookIds);
+    } catch (error) {
+      // Show error toast if the action failed
+      toast({
+        title: 'Error',
+        description: failure,
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyIds((prev) => prev.filter((id) => !bookIds.includes(id)));
+    }
+  };
+
+  // Handler to restore a book to the library
+  const handleRestore = (bookId: string) =>
+    runAction([bookId], restoreBooks.mutateAsync, 'Failed to restore book. Please try again.');
+
+  // Handler to permanently delete a book
+  const handlePurge = (bookId: string) =>
+    runAction([bookId], purgeBooks.mutateAsync, 'Failed to delete book. Please try again.');
+
+  // Handler to permanently delete everything in the trash
+  const handleEmptyTrash = () =>
+    runAction(
+      books.map((book) => book.id),
+      purgeBooks.mutateAsync,
+      'Failed to empty the trash. Please try again.'
+    );
+
+  // Render the trash page
+  return (
+    // Main container with full viewport height
+    <div className="min-h-screen bg-background">
+      {/* Navigation header component */}
+      <Header />
+
+      {/* Main content area with container padding */}
+      <main className="container py-8">
+        <Card className="animate-slide-up shadow-soft">
+          <CardHeader>
+            {/* Title with the empty trash action */}
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <div>
+                <CardTitle className="font-serif text-2xl">Trash</CardTitle>
+                <CardDescription>
+                  Deleted books are kept for {TRASH_RETENTION_DAYS} days, then removed permanently.
+                </CardDescription>
+              </div>
+              {books.length > 0 && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" size="sm" className="text-destructive hover:text-destructive">
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Empty Trash
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Empty the trash?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        {books.length} {books.length === 1 ? 'book' : 'books'} and their reading history
+                        will be permanently deleted. This action cannot be undone.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={handleEmptyTrash}
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                      >
+                        Delete Forever
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              // Show spinner while fetching the trash
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : books.length > 0 ? (
+              // Table of deleted books
+              <div className="rounded-lg border border-border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Title</TableHead>
+                      <TableHead>Author</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Deleted</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {books.map((book) => (
+                      <TableRow key={book.id}>
+                        <TableCell className="font-medium max-w-xs truncate">{book.title}</TableCell>
+                        <TableCell className="text-muted-foreground">{book.author}</TableCell>
+                        <TableCell>
+                          <StatusBadge status={book.status} />
+                        </TableCell>
+                        {/* Deletion date and time left before the purge */}
+                        <TableCell className="text-muted-foreground whitespace-nowrap">
+                          {format(new Date(book.deleted_at), 'MMM d, yyyy')}
+                          <span className="block text-xs">{formatDaysLeft(book.deleted_at)}</span>
+                        </TableCell>
+                        {/* Restore and purge actions */}
+                        <TableCell>
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleRestore(book.id)}
+                              disabled={busyIds.includes(book.id)}
+                            >
+                              <RotateCcw className="h-3 w-3 mr-1" />
+                              Restore
+                            </Button>
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                                  disabled={busyIds.includes(book.id)}
+                                >
+                                  <Trash2 className="h-3 w-3 mr-1" />
+                                  Delete Forever
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete "{book.title}" forever?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    The book and its reading history will be permanently deleted. This
+                                    action cannot be undone.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction
+                                    onClick={() => handlePurge(book.id)}
+                                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                  >
+                                    Delete Forever
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              // Empty state
+              <div className="text-center py-12">
+                <Trash2 className="h-10 w-10 text-muted-foreground/50 mx-auto mb-3" />
+                <p className="text-muted-foreground">The trash is empty.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+// Export Trash component as default export
+export default Trash;
@@ -0,0 +1,5 @@
+// CORS headers for functions called from the app with supabase.functions.invoke
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
@@ -0,0 +1,62 @@
+// Look up a book's details by ISBN-13 for the "Look up" button on the book form
+// POST { isbn } -> { book } with the book's details, or { book: null } when the ISBN is unknown
+import { encodeBase64 } from 'jsr:@std/encoding@1/base64';
+import { corsHeaders } from '../_shared/cors.ts';
+import { getProvider } from './providers/index.ts';
+import type { BookMetadata } from './providers/index.ts';
+
+// Covers larger than this are skipped (the app re-encodes them at a much smaller size anyway)
+const MAX_COVER_BYTES = 5 * 1024 * 1024;
+
+// Whether a string is an ISBN-13 with a correct check digit
+const isIsbn13 = (isbn: string) => {
+  if (!/^97[89]\d{10}$/.test(isbn)) return false;
+  const sum = [...isbn].reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return sum % 10 === 0;
+};
+
+// Fetch a cover as a data URL, so the app can crop it without running into the provider's CORS rules
+// Covers are a nice-to-have, so a cover that can't be fetched is left out rather than failing the lookup
+const fetchCover = async (url: string) => {
+  try {
+    const response = await fetch(url);
+    const type = response.headers.get('content-type') ?? '';
+    if (!response.ok || !type.startsWith('image/')) return null;
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    if (bytes.length > MAX_COVER_BYTES) return null;
+    return `data:${type};base64,${encodeBase64(bytes)}`;
+  } catch (error) {
+    console.error(`Failed to fetch cover ${url}`, error);
+    return null;
+  }
+};
+
+// Send a JSON response with the CORS headers
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+Deno.serve(async (req) => {
+  // Answer the browser's preflight request
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  let isbn: unknown;
+  try {
+    ({ isbn } = await req.json());
+  } catch (error) {
+    return json({ error: 'Expected a JSON body with an isbn' }, 400);
+  }
+  // The app converts ISBN-10s before looking them up
+  if (typeof isbn !== 'string' || !isIsbn13(isbn)) return json({ error: 'Expected a valid ISBN-13' }, 400);
+
+  let book: BookMetadata | null;
+  try {
+    book = await getProvider().lookup(isbn);
+  } catch (error) {
+    console.error(`Lookup of ${isbn} failed`, error);
+    return json({ error: 'The book metadata provider could not be reached' }, 502);
+  }
+  if (!book) return json({ book: null });
+
+  const { coverUrl, ...details } = book;
+  return json({ book: { ...details, cover: coverUrl ? await fetchCover(coverUrl) : null } });
+});
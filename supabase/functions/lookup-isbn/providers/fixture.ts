@@ -0,0 +1,14 @@
+// Import provider types
+import type { BookMetadata, MetadataProvider } from './types.ts';
+// Import canned book details, keyed by ISBN-13
+import fixtures from './fixtures.json' with { type: 'json' };
+
+// Provider answering from fixtures.json, for developing and testing without a network
+// Fixture covers are small data URLs, so importing a cover works offline too
+export const fixtureProvider: MetadataProvider = {
+  name: 'fixture',
+  lookup: async (isbn13) => {
+    const book = (fixtures as Record<string, Omit<BookMetadata, 'isbn'>>)[isbn13];
+    return book ? { ...book, isbn: isbn13 } : null;
+  },
+};
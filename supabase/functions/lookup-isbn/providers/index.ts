@@ -0,0 +1,18 @@
+// Import the available providers
+import { fixtureProvider } from './fixture.ts';
+import { openLibraryProvider } from './openLibrary.ts';
+import type { MetadataProvider } from './types.ts';
+
+// Providers by name - the first is used unless BOOK_METADATA_PROVIDER names another
+const providers: MetadataProvider[] = [openLibraryProvider, fixtureProvider];
+
+// The provider chosen for this deployment (set BOOK_METADATA_PROVIDER=fixture to work offline)
+export const getProvider = () => {
+  const name = Deno.env.get('BOOK_METADATA_PROVIDER');
+  if (!name) return providers[0];
+  const provider = providers.find((candidate) => candidate.name === name);
+  if (!provider) throw new Error(`Unknown book metadata provider "${name}"`);
+  return provider;
+};
+
+export type { BookMetadata, MetadataProvider } from './types.ts';
@@ -0,0 +1,45 @@
+// Import provider types
+import type { BookMetadata, MetadataProvider } from './types.ts';
+
+// Open Library's books API, returning one entry per requested ISBN
+const OPEN_LIBRARY_URL = 'https://openlibrary.org/api/books';
+
+// The parts of an Open Library entry that are used (jscmd=data format)
+interface OpenLibraryBook {
+  title?: string;
+  subtitle?: string;
+  authors?: { name: string }[];
+  number_of_pages?: number;
+  publishers?: { name: string }[];
+  publish_date?: string; // Free text, e.g. "2012", "September 18, 2012" or "Sept. 2012"
+  cover?: { small?: string; medium?: string; large?: string };
+}
+
+// Turn an Open Library entry into book details
+export const toBookMetadata = (isbn13: string, book: OpenLibraryBook): BookMetadata | null => {
+  if (!book.title) return null;
+  const year = book.publish_date?.match(/\b\d{4}\b/)?.[0];
+  return {
+    isbn: isbn13,
+    title: book.subtitle ? `${book.title}: ${book.subtitle}` : book.title,
+    authors: (book.authors ?? []).map((author) => author.name),
+    pageCount: book.number_of_pages > 0 ? book.number_of_pages : null,
+    publisher: book.publishers?.[0]?.name ?? null,
+    publishedYear: year ? Number(year) : null,
+    coverUrl: book.cover?.large ?? book.cover?.medium ?? null,
+  };
+};
+
+// Provider backed by Open Library (openlibrary.org) - free and keyless
+export const openLibraryProvider: MetadataProvider = {
+  name: 'openlibrary',
+  lookup: async (isbn13) => {
+    const url = `${OPEN_LIBRARY_URL}?bibkeys=ISBN:${isbn13}&format=json&jscmd=data`;
+    // Open Library asks API users to identify themselves
+    const response = await fetch(url, { headers: { 'User-Agent': 'BookTracker (ISBN lookup)' } });
+    if (!response.ok) throw new Error(`Open Library responded with ${response.status}`);
+    const books: Record<string, OpenLibraryBook> = await response.json();
+    const book = books[`ISBN:${isbn13}`];
+    return book ? toBookMetadata(isbn13, book) : null;
+  },
+};
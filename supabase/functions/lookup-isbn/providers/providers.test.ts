@@ -0,0 +1,115 @@
+// Import test helpers
+import { afterEach, describe, expect, it, vi } from 'vitest';
+// Import the providers under test
+import { fixtureProvider } from './fixture.ts';
+import { getProvider } from './index.ts';
+import { openLibraryProvider, toBookMetadata } from './openLibrary.ts';
+// Import canned book details, to check every fixture
+import fixtures from './fixtures.json' with { type: 'json' };
+// Import the app's ISBN check, which the function's own check mirrors
+import { isValidIsbn13 } from '../../../../src/lib/isbn';
+
+// A trimmed Open Library entry for The Hobbit (jscmd=data format)
+const hobbit = {
+  title: 'The Hobbit',
+  subtitle: 'or There and Back Again',
+  authors: [{ name: 'J.R.R. Tolkien' }],
+  number_of_pages: 300,
+  publishers: [{ name: 'Houghton Mifflin Harcourt' }, { name: 'Mariner Books' }],
+  publish_date: 'September 18, 2012',
+  cover: { medium: 'https://covers.example/m.jpg', large: 'https://covers.example/l.jpg' },
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('toBookMetadata', () => {
+  it('maps an Open Library entry onto book details', () => {
+    expect(toBookMetadata('9780547928227', hobbit)).toEqual({
+      isbn: '9780547928227',
+      title: 'The Hobbit: or There and Back Again',
+      authors: ['J.R.R. Tolkien'],
+      pageCount: 300,
+      publisher: 'Houghton Mifflin Harcourt',
+      publishedYear: 2012,
+      coverUrl: 'https://covers.example/l.jpg',
+    });
+  });
+
+  it('leaves out details the entry does not have', () => {
+    expect(toBookMetadata('9780547928227', { title: 'The Hobbit', number_of_pages: 0, publish_date: 'n.d.' })).toEqual({
+      isbn: '9780547928227',
+      title: 'The Hobbit',
+      authors: [],
+      pageCount: null,
+      publisher: null,
+      publishedYear: null,
+      coverUrl: null,
+    });
+  });
+
+  it('ignores entries without a title', () => {
+    expect(toBookMetadata('9780547928227', {})).toBeNull();
+  });
+});
+
+describe('openLibraryProvider', () => {
+  it('looks the ISBN up and maps the result', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ 'ISBN:9780547928227': hobbit })));
+    vi.stubGlobal('fetch', fetchMock);
+    const book = await openLibraryProvider.lookup('9780547928227');
+    expect(fetchMock.mock.calls[0][0]).toContain('bibkeys=ISBN:9780547928227');
+    expect(book?.title).toBe('The Hobbit: or There and Back Again');
+  });
+
+  it('resolves with null for an unknown ISBN', async () => {
+    vi.stubGlobal('fetch', async () => new Response('{}'));
+    expect(await openLibraryProvider.lookup('9780306406157')).toBeNull();
+  });
+
+  it('throws when Open Library fails', async () => {
+    vi.stubGlobal('fetch', async () => new Response('Unavailable', { status: 503 }));
+    await expect(openLibraryProvider.lookup('9780547928227')).rejects.toThrow('503');
+  });
+});
+
+describe('fixtureProvider', () => {
+  it('answers from the fixtures, with a cover that can be fetched offline', async () => {
+    const book = await fixtureProvider.lookup('9780547928227');
+    expect(book).toMatchObject({ isbn: '9780547928227', title: 'The Hobbit', authors: ['J.R.R. Tolkien'] });
+    // The cover is a PNG data URL
+    const cover = await fetch(book!.coverUrl!);
+    const bytes = new Uint8Array(await cover.arrayBuffer());
+    expect(cover.headers.get('content-type')).toBe('image/png');
+    expect([...bytes.slice(1, 4)]).toEqual([0x50, 0x4e, 0x47]);
+  });
+
+  it('resolves with null for an ISBN it has no fixture for', async () => {
+    expect(await fixtureProvider.lookup('9791234567896')).toBeNull();
+  });
+
+  it('keys every fixture by a valid ISBN-13', () => {
+    for (const isbn of Object.keys(fixtures)) expect(isValidIsbn13(isbn)).toBe(true);
+  });
+});
+
+describe('getProvider', () => {
+  // Stand in for the Deno runtime's environment
+  const stubEnv = (value: string | undefined) => vi.stubGlobal('Deno', { env: { get: () => value } });
+
+  it('uses Open Library by default', () => {
+    stubEnv(undefined);
+    expect(getProvider()).toBe(openLibraryProvider);
+  });
+
+  it('uses the provider named in BOOK_METADATA_PROVIDER', () => {
+    stubEnv('fixture');
+    expect(getProvider()).toBe(fixtureProvider);
+  });
+
+  it('refuses an unknown provider', () => {
+    stubEnv('goodreads');
+    expect(() => getProvider()).toThrow('Unknown book metadata provider "goodreads"');
+  });
+});
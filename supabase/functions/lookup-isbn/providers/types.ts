@@ -0,0 +1,16 @@
+// Details of a book found by ISBN, as returned to the app
+export interface BookMetadata {
+  isbn: string; // ISBN-13 that was looked up
+  title: string;
+  authors: string[]; // Author names, in credit order
+  pageCount: number | null;
+  publisher: string | null;
+  publishedYear: number | null;
+  coverUrl: string | null; // Where the provider serves the cover (fetched by the function, not the app)
+}
+
+// A source of book details - every provider answers the same question, so they can be swapped
+export interface MetadataProvider {
+  name: string; // Name used to pick the provider with BOOK_METADATA_PROVIDER
+  lookup: (isbn13: string) => Promise<BookMetadata | null>; // Resolves with null when the ISBN is unknown
+}
@@ -0,0 +1,64 @@
+// Empty the trash of books deleted more than 30 days ago, along with their cover images
+// Called every night by the purge-deleted-books cron job - storage files can only be removed
+// through the Storage API, so the purge can't be a plain DELETE in SQL
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+// How long deleted books stay in the trash
+const RETENTION_DAYS = 30;
+// Storage bucket holding cover images, in a folder per user and a subfolder per book
+const COVER_BUCKET = 'covers';
+// Books purged per round trip
+const BATCH_SIZE = 100;
+
+// Send a JSON response
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+Deno.serve(async (req) => {
+  // Only the cron job may call this - it sends the service role key
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) return json({ error: 'Forbidden' }, 403);
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL'), serviceRoleKey);
+  const bucket = supabase.storage.from(COVER_BUCKET);
+  const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  let purged = 0;
+
+  try {
+    for (;;) {
+      const { data: books, error } = await supabase
+        .from('books')
+        .select('id, user_id')
+        .lt('deleted_at', cutoff)
+        .limit(BATCH_SIZE);
+      // Throw error if fetch failed
+      if (error) throw error;
+      if (books.length === 0) break;
+
+      // Remove the covers first, so a failure leaves the books in the trash to be retried tomorrow
+      for (const book of books) {
+        const folder = `${book.user_id}/${book.id}`;
+        const { data: files, error: listError } = await bucket.list(folder, { limit: 1000 });
+        // Throw error if listing failed
+        if (listError) throw listError;
+        if (files.length === 0) continue;
+        const { error: removeError } = await bucket.remove(files.map((file) => `${folder}/${file.name}`));
+        // Throw error if delete failed
+        if (removeError) throw removeError;
+      }
+
+      const { error: deleteError } = await supabase
+        .from('books')
+        .delete()
+        .in('id', books.map((book) => book.id));
+      // Throw error if delete failed
+      if (deleteError) throw deleteError;
+      purged += books.length;
+    }
+  } catch (error) {
+    console.error(`Purge failed after ${purged} books`, error);
+    return json({ error: 'Purge failed', purged }, 500);
+  }
+
+  return json({ purged });
+});
@@ -0,0 +1,45 @@
+-- Add page-based progress columns to books
+ALTER TABLE public.books
+  ADD COLUMN page_count INTEGER CHECK (page_count > 0),
+  ADD COLUMN current_page INTEGER NOT NULL DEFAULT 0 CHECK (current_page >= 0);
+
+-- Existing percentages can't become a page without the page count, which was never asked for, so they are
+-- kept as they are until the reader enters one (a made-up count would show up in stats and searches)
+ALTER TABLE public.books RENAME COLUMN reading_progress TO legacy_progress;
+ALTER TABLE public.books ALTER COLUMN legacy_progress DROP DEFAULT;
+
+-- Only books with some progress have anything to carry over
+UPDATE public.books
+SET legacy_progress = NULL
+WHERE legacy_progress = 0;
+
+-- Keep the current page within the book when the page count is known
+ALTER TABLE public.books
+  ADD CONSTRAINT books_current_page_within_page_count
+  CHECK (page_count IS NULL OR current_page <= page_count);
+
+-- Create function turning a kept percentage into a page once the book's page count is known
+-- A page entered by the reader replaces the percentage instead
+CREATE OR REPLACE FUNCTION public.convert_legacy_progress()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.legacy_progress IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.current_page IS DISTINCT FROM OLD.current_page THEN
+    NEW.legacy_progress = NULL;
+  ELSIF NEW.page_count IS NOT NULL THEN
+    NEW.current_page = ROUND(NEW.legacy_progress * NEW.page_count / 100.0);
+    NEW.legacy_progress = NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Create trigger converting kept percentages (new books never have one)
+CREATE TRIGGER convert_books_legacy_progress
+BEFORE UPDATE ON public.books
+FOR EACH ROW
+EXECUTE FUNCTION public.convert_legacy_progress();
@@ -0,0 +1,76 @@
+-- Create reading sessions table to log time spent reading each book
+CREATE TABLE public.reading_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  book_id UUID NOT NULL REFERENCES public.books(id) ON DELETE CASCADE,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ended_at TIMESTAMP WITH TIME ZONE CHECK (ended_at >= started_at),
+  start_page INTEGER CHECK (start_page >= 0),
+  end_page INTEGER CHECK (end_page >= 0),
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Index for listing a book's sessions newest first
+CREATE INDEX reading_sessions_book_id_started_at_idx
+ON public.reading_sessions (book_id, started_at DESC);
+
+-- Only one running (unfinished) session per book
+CREATE UNIQUE INDEX reading_sessions_one_open_per_book_idx
+ON public.reading_sessions (book_id)
+WHERE ended_at IS NULL;
+
+-- Enable Row Level Security
+ALTER TABLE public.reading_sessions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: Users can only access their own sessions, for their own books
+CREATE POLICY "Users can view their own reading sessions" 
+ON public.reading_sessions 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own reading sessions" 
+ON public.reading_sessions 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.books WHERE books.id = book_id AND books.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update their own reading sessions" 
+ON public.reading_sessions 
+FOR UPDATE 
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.books WHERE books.id = book_id AND books.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can delete their own reading sessions" 
+ON public.reading_sessions 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Create function stopping a running session and moving the book's progress to its end page
+-- Both writes happen in one transaction, so a session is never saved without the progress
+CREATE OR REPLACE FUNCTION public.stop_reading_session(p_session_id UUID, p_end_page INTEGER, p_note TEXT)
+RETURNS public.reading_sessions AS $$
+DECLARE
+  stopped public.reading_sessions;
+BEGIN
+  UPDATE public.reading_sessions
+  SET ended_at = now(), end_page = p_end_page, note = p_note
+  WHERE id = p_session_id
+    AND ended_at IS NULL
+  RETURNING * INTO stopped;
+
+  IF stopped.id IS NULL THEN
+    RAISE EXCEPTION 'No running reading session %', p_session_id;
+  END IF;
+
+  UPDATE public.books SET current_page = p_end_page
+  WHERE id = stopped.book_id;
+
+  RETURN stopped;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
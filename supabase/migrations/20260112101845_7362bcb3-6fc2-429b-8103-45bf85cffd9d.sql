@@ -0,0 +1,76 @@
+-- Create shelves table for user-defined groupings of books
+CREATE TABLE public.shelves (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Shelf names are unique per user, ignoring case
+CREATE UNIQUE INDEX shelves_user_id_name_key
+ON public.shelves (user_id, lower(name));
+
+-- Create join table assigning books to shelves (many-to-many)
+-- Deleting a shelf or a book only removes the assignment, never the other side
+CREATE TABLE public.book_shelves (
+  book_id UUID NOT NULL REFERENCES public.books(id) ON DELETE CASCADE,
+  shelf_id UUID NOT NULL REFERENCES public.shelves(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (book_id, shelf_id)
+);
+
+-- Index for filtering books by shelf
+CREATE INDEX book_shelves_shelf_id_idx ON public.book_shelves (shelf_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.shelves ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.book_shelves ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: Users can only access their own shelves
+CREATE POLICY "Users can view their own shelves" 
+ON public.shelves 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own shelves" 
+ON public.shelves 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own shelves" 
+ON public.shelves 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own shelves" 
+ON public.shelves 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- RLS Policies: Users can only assign their own books to their own shelves
+CREATE POLICY "Users can view their own book shelves" 
+ON public.book_shelves 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own book shelves" 
+ON public.book_shelves 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.books WHERE books.id = book_id AND books.user_id = auth.uid())
+  AND EXISTS (SELECT 1 FROM public.shelves WHERE shelves.id = shelf_id AND shelves.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can delete their own book shelves" 
+ON public.book_shelves 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates on shelves
+CREATE TRIGGER update_shelves_updated_at
+BEFORE UPDATE ON public.shelves
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,76 @@
+-- Track when a book was finished (updated_at is bumped by any edit, so it can't be used)
+ALTER TABLE public.books ADD COLUMN finished_at TIMESTAMP WITH TIME ZONE;
+
+-- Backfill books already marked as read with the best estimate available
+UPDATE public.books
+SET finished_at = updated_at
+WHERE status = 'read';
+
+-- Index for counting books finished within a period
+CREATE INDEX books_user_id_finished_at_idx
+ON public.books (user_id, finished_at)
+WHERE status = 'read';
+
+-- Create function to stamp the finished date when a book moves to 'read'
+-- An explicitly provided finished_at is kept as is
+CREATE OR REPLACE FUNCTION public.set_book_status_dates()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'read' AND NEW.finished_at IS NULL THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.finished_at = now();
+    ELSIF OLD.status IS DISTINCT FROM 'read' THEN
+      NEW.finished_at = now();
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Create trigger for automatic status date stamping
+CREATE TRIGGER set_books_status_dates
+BEFORE INSERT OR UPDATE ON public.books
+FOR EACH ROW
+EXECUTE FUNCTION public.set_book_status_dates();
+
+-- Create reading goals table for per-year targets
+CREATE TABLE public.reading_goals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  year INTEGER NOT NULL CHECK (year >= 1900 AND year <= 9999),
+  target_books INTEGER NOT NULL CHECK (target_books > 0),
+  target_pages INTEGER CHECK (target_pages > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, year)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.reading_goals ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: Users can only access their own goals
+CREATE POLICY "Users can view their own reading goals" 
+ON public.reading_goals 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own reading goals" 
+ON public.reading_goals 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own reading goals" 
+ON public.reading_goals 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own reading goals" 
+ON public.reading_goals 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates on goals
+CREATE TRIGGER update_reading_goals_updated_at
+BEFORE UPDATE ON public.reading_goals
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
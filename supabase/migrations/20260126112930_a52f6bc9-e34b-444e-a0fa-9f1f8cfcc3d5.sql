@@ -0,0 +1,48 @@
+-- Track when a book was started
+ALTER TABLE public.books ADD COLUMN started_at TIMESTAMP WITH TIME ZONE;
+
+-- Backfill books currently being read with the best estimate available
+UPDATE public.books
+SET started_at = created_at
+WHERE status = 'reading';
+
+-- Replace the status date function so it stamps both start and finish dates
+-- Dates are only stamped when the status changes and the statement did not set them explicitly,
+-- so a date chosen by the user always wins
+CREATE OR REPLACE FUNCTION public.set_book_status_dates()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    -- New books: fill in whichever dates the initial status implies
+    IF NEW.status = 'reading' AND NEW.started_at IS NULL THEN
+      NEW.started_at = now();
+    END IF;
+    IF NEW.status = 'read' AND NEW.finished_at IS NULL THEN
+      NEW.finished_at = now();
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- Moving into 'reading'
+  IF NEW.status = 'reading' AND OLD.status IS DISTINCT FROM 'reading' THEN
+    IF NEW.started_at IS NOT DISTINCT FROM OLD.started_at THEN
+      -- Starting again after finishing begins a new reading; otherwise keep an existing start date
+      IF OLD.status = 'read' OR NEW.started_at IS NULL THEN
+        NEW.started_at = now();
+      END IF;
+    END IF;
+    IF OLD.status = 'read' AND NEW.finished_at IS NOT DISTINCT FROM OLD.finished_at THEN
+      NEW.finished_at = NULL;
+    END IF;
+  END IF;
+
+  -- Moving into 'read'
+  IF NEW.status = 'read' AND OLD.status IS DISTINCT FROM 'read' THEN
+    IF NEW.finished_at IS NULL OR NEW.finished_at IS NOT DISTINCT FROM OLD.finished_at THEN
+      NEW.finished_at = now();
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
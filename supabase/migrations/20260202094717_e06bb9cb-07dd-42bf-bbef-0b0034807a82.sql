@@ -0,0 +1,184 @@
+-- Create read-throughs table so a book can be read (and rated/reviewed) more than once
+CREATE TABLE public.read_throughs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  book_id UUID NOT NULL REFERENCES public.books(id) ON DELETE CASCADE,
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  rating INTEGER CHECK (rating >= 1 AND rating <= 5),
+  review TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Index for listing a book's read-throughs in order
+CREATE INDEX read_throughs_book_id_finished_at_idx
+ON public.read_throughs (book_id, finished_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.read_throughs ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: Users can only access their own read-throughs, for their own books
+CREATE POLICY "Users can view their own read throughs" 
+ON public.read_throughs 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own read throughs" 
+ON public.read_throughs 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.books WHERE books.id = book_id AND books.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update their own read throughs" 
+ON public.read_throughs 
+FOR UPDATE 
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.books WHERE books.id = book_id AND books.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can delete their own read throughs" 
+ON public.read_throughs 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates on read-throughs
+CREATE TRIGGER update_read_throughs_updated_at
+BEFORE UPDATE ON public.read_throughs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Backfill one read-through for every book already marked as read
+INSERT INTO public.read_throughs (user_id, book_id, started_at, finished_at, rating, review)
+SELECT user_id, id, started_at, finished_at, rating, review
+FROM public.books
+WHERE status = 'read';
+
+-- Replace the status date function so moving a finished book back to reading resumes its last reading
+-- A re-read is started by sending a new start date; without one the start date is kept, and finishing
+-- again restores the old finish date when no session was logged since (an accidental status toggle)
+CREATE OR REPLACE FUNCTION public.set_book_status_dates()
+RETURNS TRIGGER AS $$
+DECLARE
+  last_reading public.read_throughs%ROWTYPE;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    -- New books: fill in whichever dates the initial status implies
+    IF NEW.status = 'reading' AND NEW.started_at IS NULL THEN
+      NEW.started_at = now();
+    END IF;
+    IF NEW.status = 'read' AND NEW.finished_at IS NULL THEN
+      NEW.finished_at = now();
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- Moving into 'reading'
+  IF NEW.status = 'reading' AND OLD.status IS DISTINCT FROM 'reading' THEN
+    -- Keep an existing start date; a finished book without one stays without, so it still matches its reading
+    IF NEW.started_at IS NULL AND OLD.status IS DISTINCT FROM 'read' THEN
+      NEW.started_at = now();
+    END IF;
+    IF OLD.status = 'read' AND NEW.finished_at IS NOT DISTINCT FROM OLD.finished_at THEN
+      NEW.finished_at = NULL;
+    END IF;
+  END IF;
+
+  -- Moving into 'read'
+  IF NEW.status = 'read' AND OLD.status IS DISTINCT FROM 'read' THEN
+    IF NEW.finished_at IS NULL OR NEW.finished_at IS NOT DISTINCT FROM OLD.finished_at THEN
+      -- The book's latest reading, if this finishes it again
+      SELECT * INTO last_reading
+      FROM public.read_throughs
+      WHERE book_id = NEW.id
+      ORDER BY finished_at DESC NULLS LAST, created_at DESC
+      LIMIT 1;
+
+      IF FOUND
+        AND last_reading.started_at IS NOT DISTINCT FROM NEW.started_at
+        AND last_reading.finished_at IS NOT NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM public.reading_sessions
+          WHERE reading_sessions.book_id = NEW.id
+            AND reading_sessions.started_at > last_reading.finished_at
+        ) THEN
+        NEW.finished_at = last_reading.finished_at;
+      ELSE
+        NEW.finished_at = now();
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Create function keeping read-throughs in step with the book row
+-- Finishing a book records a new read-through, unless it finishes the latest one again (same start date,
+-- e.g. read -> reading -> read by mistake); later edits to a finished book's dates, rating or review are
+-- copied onto its latest read-through
+CREATE OR REPLACE FUNCTION public.record_read_through()
+RETURNS TRIGGER AS $$
+DECLARE
+  last_reading public.read_throughs%ROWTYPE;
+BEGIN
+  IF NEW.status <> 'read' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.read_throughs (user_id, book_id, started_at, finished_at, rating, review)
+    VALUES (NEW.user_id, NEW.id, NEW.started_at, NEW.finished_at, NEW.rating, NEW.review);
+    RETURN NEW;
+  END IF;
+
+  -- The book's latest reading
+  SELECT * INTO last_reading
+  FROM public.read_throughs
+  WHERE book_id = NEW.id
+  ORDER BY finished_at DESC NULLS LAST, created_at DESC
+  LIMIT 1;
+
+  IF OLD.status IS DISTINCT FROM 'read' THEN
+    IF FOUND AND last_reading.started_at IS NOT DISTINCT FROM NEW.started_at THEN
+      -- Finishing the latest reading again - no re-read was started
+      UPDATE public.read_throughs
+      SET finished_at = NEW.finished_at,
+          rating = NEW.rating,
+          review = NEW.review
+      WHERE id = last_reading.id;
+    ELSE
+      -- A re-read starts unrated: the last reading's rating and review only carry over if they were changed
+      INSERT INTO public.read_throughs (user_id, book_id, started_at, finished_at, rating, review)
+      VALUES (
+        NEW.user_id,
+        NEW.id,
+        NEW.started_at,
+        NEW.finished_at,
+        CASE WHEN FOUND AND NEW.rating IS NOT DISTINCT FROM last_reading.rating THEN NULL ELSE NEW.rating END,
+        CASE WHEN FOUND AND NEW.review IS NOT DISTINCT FROM last_reading.review THEN NULL ELSE NEW.review END
+      );
+    END IF;
+  ELSIF FOUND AND (NEW.started_at, NEW.finished_at, NEW.rating, NEW.review)
+    IS DISTINCT FROM (OLD.started_at, OLD.finished_at, OLD.rating, OLD.review) THEN
+    UPDATE public.read_throughs
+    SET started_at = NEW.started_at,
+        finished_at = NEW.finished_at,
+        rating = NEW.rating,
+        review = NEW.review
+    WHERE id = last_reading.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Create trigger recording read-throughs after the status dates have been stamped
+CREATE TRIGGER record_books_read_through
+AFTER INSERT OR UPDATE ON public.books
+FOR EACH ROW
+EXECUTE FUNCTION public.record_read_through();
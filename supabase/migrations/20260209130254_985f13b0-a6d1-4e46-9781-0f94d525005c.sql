@@ -0,0 +1,107 @@
+-- Reading statistics, aggregated in the database so the client never loads every row
+-- All functions run with the caller's permissions, so RLS limits them to the caller's own data
+
+-- Readings finished in each month of a year (months with none are included as zero)
+CREATE OR REPLACE FUNCTION public.books_finished_per_month(p_year INTEGER)
+RETURNS TABLE (month INTEGER, finished BIGINT) AS $$
+  SELECT months.month, COUNT(read_throughs.id) AS finished
+  FROM generate_series(1, 12) AS months(month)
+  LEFT JOIN public.read_throughs
+    ON read_throughs.user_id = auth.uid()
+    AND EXTRACT(YEAR FROM read_throughs.finished_at) = p_year
+    AND EXTRACT(MONTH FROM read_throughs.finished_at) = months.month
+  GROUP BY months.month
+  ORDER BY months.month;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Number of readings finished in a year with each star rating (1-5, zero counts included)
+CREATE OR REPLACE FUNCTION public.rating_distribution(p_year INTEGER)
+RETURNS TABLE (rating INTEGER, readings BIGINT) AS $$
+  SELECT stars.rating, COUNT(read_throughs.id) AS readings
+  FROM generate_series(1, 5) AS stars(rating)
+  LEFT JOIN public.read_throughs
+    ON read_throughs.user_id = auth.uid()
+    AND read_throughs.rating = stars.rating
+    AND EXTRACT(YEAR FROM read_throughs.finished_at) = p_year
+  GROUP BY stars.rating
+  ORDER BY stars.rating;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Number of books in the library with each status
+CREATE OR REPLACE FUNCTION public.status_breakdown()
+RETURNS TABLE (status book_status, books BIGINT) AS $$
+  SELECT books.status, COUNT(*) AS books
+  FROM public.books
+  WHERE books.user_id = auth.uid()
+  GROUP BY books.status
+  ORDER BY books.status;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Authors with the most readings finished in a year
+CREATE OR REPLACE FUNCTION public.top_authors(p_year INTEGER, p_limit INTEGER DEFAULT 5)
+RETURNS TABLE (author TEXT, readings BIGINT) AS $$
+  SELECT books.author, COUNT(*) AS readings
+  FROM public.read_throughs
+  JOIN public.books ON books.id = read_throughs.book_id
+  WHERE read_throughs.user_id = auth.uid()
+    AND books.author IS NOT NULL
+    AND EXTRACT(YEAR FROM read_throughs.finished_at) = p_year
+  GROUP BY books.author
+  ORDER BY readings DESC, books.author
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Average number of days from start to finish for readings finished in a year
+-- (only readings with both dates count; a book started and finished on the same day took 1 day)
+CREATE OR REPLACE FUNCTION public.average_days_to_finish(p_year INTEGER)
+RETURNS TABLE (average_days NUMERIC, readings BIGINT) AS $$
+  SELECT
+    ROUND(AVG(read_throughs.finished_at::date - read_throughs.started_at::date + 1), 1) AS average_days,
+    COUNT(*) AS readings
+  FROM public.read_throughs
+  WHERE read_throughs.user_id = auth.uid()
+    AND read_throughs.started_at IS NOT NULL
+    AND EXTRACT(YEAR FROM read_throughs.finished_at) = p_year;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Years in which the user finished at least one reading, newest first
+CREATE OR REPLACE FUNCTION public.reading_years()
+RETURNS TABLE (year INTEGER) AS $$
+  SELECT DISTINCT EXTRACT(YEAR FROM read_throughs.finished_at)::INTEGER AS year
+  FROM public.read_throughs
+  WHERE read_throughs.user_id = auth.uid()
+    AND read_throughs.finished_at IS NOT NULL
+  ORDER BY year DESC;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Headline ratings as the library cards derive them, usable as computed columns for sorting
+-- (select or order by average_rating / latest_rating on books); both fall back to the book's own
+-- rating when no reading has been rated
+CREATE OR REPLACE FUNCTION public.average_rating(public.books)
+RETURNS NUMERIC AS $$
+  SELECT COALESCE(
+    (
+      SELECT ROUND(AVG(read_throughs.rating), 1)
+      FROM public.read_throughs
+      WHERE read_throughs.book_id = $1.id
+        AND read_throughs.rating IS NOT NULL
+    ),
+    $1.rating
+  );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Rating of the most recently finished rated reading (unfinished readings count as oldest)
+CREATE OR REPLACE FUNCTION public.latest_rating(public.books)
+RETURNS NUMERIC AS $$
+  SELECT COALESCE(
+    (
+      SELECT read_throughs.rating
+      FROM public.read_throughs
+      WHERE read_throughs.book_id = $1.id
+        AND read_throughs.rating IS NOT NULL
+      ORDER BY read_throughs.finished_at DESC NULLS LAST, read_throughs.created_at DESC
+      LIMIT 1
+    ),
+    $1.rating
+  );
+$$ LANGUAGE sql STABLE SET search_path = public;
@@ -0,0 +1,71 @@
+-- Create function telling whether a book id is in use by anyone
+-- RLS hides other users' books from the caller, so a restore can't see ids it would clash with
+CREATE OR REPLACE FUNCTION public.book_id_taken(p_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM public.books WHERE id = p_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Restore books from a library backup in a single transaction
+-- p_books is the backup's array of book objects; p_mode is 'merge' (add new books and overwrite
+-- matching ones, keyed on id) or 'replace' (also delete books that are not in the backup)
+-- Runs with the caller's permissions, so RLS keeps the restore inside the caller's own library
+CREATE OR REPLACE FUNCTION public.restore_library(p_books JSONB, p_mode TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF p_mode NOT IN ('merge', 'replace') THEN
+    RAISE EXCEPTION 'Unknown restore mode: %', p_mode;
+  END IF;
+
+  -- In replace mode, remove every book the backup doesn't contain
+  IF p_mode = 'replace' THEN
+    DELETE FROM public.books
+    WHERE user_id = auth.uid()
+      AND id NOT IN (
+        SELECT backup.id
+        FROM jsonb_populate_recordset(NULL::public.books, p_books) AS backup
+        WHERE backup.id IS NOT NULL
+      );
+  END IF;
+
+  -- Overwrite books that are already in the library (columns missing from the backup keep their value)
+  UPDATE public.books SET
+    title = backup.title,
+    author = backup.author,
+    status = COALESCE(backup.status, books.status),
+    rating = backup.rating,
+    review = backup.review,
+    is_favorite = COALESCE(backup.is_favorite, books.is_favorite),
+    page_count = backup.page_count,
+    current_page = COALESCE(backup.current_page, books.current_page),
+    started_at = backup.started_at,
+    finished_at = backup.finished_at,
+    created_at = COALESCE(backup.created_at, books.created_at)
+  FROM jsonb_populate_recordset(NULL::public.books, p_books) AS backup
+  WHERE books.id = backup.id
+    AND books.user_id = auth.uid();
+
+  -- Add the rest as new books owned by the caller (missing columns fall back to the table defaults)
+  -- An id already used by a book the caller can't see (e.g. restoring someone else's backup) gets a new one
+  INSERT INTO public.books (
+    id, user_id, title, author, status, rating, review, is_favorite,
+    page_count, current_page, started_at, finished_at, created_at
+  )
+  SELECT
+    CASE WHEN backup.id IS NULL OR public.book_id_taken(backup.id) THEN gen_random_uuid() ELSE backup.id END,
+    auth.uid(),
+    backup.title,
+    backup.author,
+    COALESCE(backup.status, 'want_to_read'),
+    backup.rating,
+    backup.review,
+    COALESCE(backup.is_favorite, false),
+    backup.page_count,
+    COALESCE(backup.current_page, 0),
+    backup.started_at,
+    backup.finished_at,
+    COALESCE(backup.created_at, now())
+  FROM jsonb_populate_recordset(NULL::public.books, p_books) AS backup
+  WHERE backup.id IS NULL
+    OR NOT EXISTS (SELECT 1 FROM public.books WHERE books.id = backup.id);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
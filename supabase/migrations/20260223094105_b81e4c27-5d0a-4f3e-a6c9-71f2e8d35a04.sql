@@ -0,0 +1,159 @@
+-- Soft delete: deleted books move to the trash instead of being removed
+ALTER TABLE public.books ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- Index the trash so listing and purging it doesn't scan live books
+CREATE INDEX books_deleted_at_idx ON public.books (user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Statistics ignore books in the trash (and the readings of those books)
+CREATE OR REPLACE FUNCTION public.books_finished_per_month(p_year INTEGER)
+RETURNS TABLE (month INTEGER, finished BIGINT) AS $$
+  SELECT months.month, COUNT(books.id) AS finished
+  FROM generate_series(1, 12) AS months(month)
+  LEFT JOIN public.read_throughs
+    ON read_throughs.user_id = auth.uid()
+    AND EXTRACT(YEAR FROM read_throughs.finished_at) = p_year
+    AND EXTRACT(MONTH FROM read_throughs.finished_at) = months.month
+  LEFT JOIN public.books
+    ON books.id = read_throughs.book_id
+    AND books.deleted_at IS NULL
+  GROUP BY months.month
+  ORDER BY months.month;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.rating_distribution(p_year INTEGER)
+RETURNS TABLE (rating INTEGER, readings BIGINT) AS $$
+  SELECT stars.rating, COUNT(books.id) AS readings
+  FROM generate_series(1, 5) AS stars(rating)
+  LEFT JOIN public.read_throughs
+    ON read_throughs.user_id = auth.uid()
+    AND read_throughs.rating = stars.rating
+    AND EXTRACT(YEAR FROM read_throughs.finished_at) = p_year
+  LEFT JOIN public.books
+    ON books.id = read_throughs.book_id
+    AND books.deleted_at IS NULL
+  GROUP BY stars.rating
+  ORDER BY stars.rating;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.status_breakdown()
+RETURNS TABLE (status book_status, books BIGINT) AS $$
+  SELECT books.status, COUNT(*) AS books
+  FROM public.books
+  WHERE books.user_id = auth.uid()
+    AND books.deleted_at IS NULL
+  GROUP BY books.status
+  ORDER BY books.status;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.top_authors(p_year INTEGER, p_limit INTEGER DEFAULT 5)
+RETURNS TABLE (author TEXT, readings BIGINT) AS $$
+  SELECT books.author, COUNT(*) AS readings
+  FROM public.read_throughs
+  JOIN public.books ON books.id = read_throughs.book_id
+  WHERE read_throughs.user_id = auth.uid()
+    AND books.deleted_at IS NULL
+    AND books.author IS NOT NULL
+    AND EXTRACT(YEAR FROM read_throughs.finished_at) = p_year
+  GROUP BY books.author
+  ORDER BY readings DESC, books.author
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.average_days_to_finish(p_year INTEGER)
+RETURNS TABLE (average_days NUMERIC, readings BIGINT) AS $$
+  SELECT
+    ROUND(AVG(read_throughs.finished_at::date - read_throughs.started_at::date + 1), 1) AS average_days,
+    COUNT(*) AS readings
+  FROM public.read_throughs
+  JOIN public.books ON books.id = read_throughs.book_id
+  WHERE read_throughs.user_id = auth.uid()
+    AND books.deleted_at IS NULL
+    AND read_throughs.started_at IS NOT NULL
+    AND EXTRACT(YEAR FROM read_throughs.finished_at) = p_year;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.reading_years()
+RETURNS TABLE (year INTEGER) AS $$
+  SELECT DISTINCT EXTRACT(YEAR FROM read_throughs.finished_at)::INTEGER AS year
+  FROM public.read_throughs
+  JOIN public.books ON books.id = read_throughs.book_id
+  WHERE read_throughs.user_id = auth.uid()
+    AND books.deleted_at IS NULL
+    AND read_throughs.finished_at IS NOT NULL
+  ORDER BY year DESC;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Restoring a backup brings matching books back out of the trash, and replace mode moves
+-- books missing from the backup to the trash rather than deleting them outright
+CREATE OR REPLACE FUNCTION public.restore_library(p_books JSONB, p_mode TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF p_mode NOT IN ('merge', 'replace') THEN
+    RAISE EXCEPTION 'Unknown restore mode: %', p_mode;
+  END IF;
+
+  -- In replace mode, move every book the backup doesn't contain to the trash
+  IF p_mode = 'replace' THEN
+    UPDATE public.books SET deleted_at = now()
+    WHERE user_id = auth.uid()
+      AND deleted_at IS NULL
+      AND id NOT IN (
+        SELECT backup.id
+        FROM jsonb_populate_recordset(NULL::public.books, p_books) AS backup
+        WHERE backup.id IS NOT NULL
+      );
+  END IF;
+
+  -- Overwrite books that are already in the library or the trash
+  -- (columns missing from the backup keep their value)
+  UPDATE public.books SET
+    title = backup.title,
+    author = backup.author,
+    status = COALESCE(backup.status, books.status),
+    rating = backup.rating,
+    review = backup.review,
+    is_favorite = COALESCE(backup.is_favorite, books.is_favorite),
+    page_count = backup.page_count,
+    current_page = COALESCE(backup.current_page, books.current_page),
+    started_at = backup.started_at,
+    finished_at = backup.finished_at,
+    created_at = COALESCE(backup.created_at, books.created_at),
+    deleted_at = NULL
+  FROM jsonb_populate_recordset(NULL::public.books, p_books) AS backup
+  WHERE books.id = backup.id
+    AND books.user_id = auth.uid();
+
+  -- Add the rest as new books owned by the caller (missing columns fall back to the table defaults)
+  -- An id already used by a book the caller can't see (e.g. restoring someone else's backup) gets a new one
+  INSERT INTO public.books (
+    id, user_id, title, author, status, rating, review, is_favorite,
+    page_count, current_page, started_at, finished_at, created_at
+  )
+  SELECT
+    CASE WHEN backup.id IS NULL OR public.book_id_taken(backup.id) THEN gen_random_uuid() ELSE backup.id END,
+    auth.uid(),
+    backup.title,
+    backup.author,
+    COALESCE(backup.status, 'want_to_read'),
+    backup.rating,
+    backup.review,
+    COALESCE(backup.is_favorite, false),
+    backup.page_count,
+    COALESCE(backup.current_page, 0),
+    backup.started_at,
+    backup.finished_at,
+    COALESCE(backup.created_at, now())
+  FROM jsonb_populate_recordset(NULL::public.books, p_books) AS backup
+  WHERE backup.id IS NULL
+    OR NOT EXISTS (SELECT 1 FROM public.books WHERE books.id = backup.id);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Empty the trash of books deleted more than 30 days ago, every night at 03:00 UTC
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+SELECT cron.schedule(
+  'purge-deleted-books',
+  '0 3 * * *',
+  $$DELETE FROM public.books WHERE deleted_at < now() - INTERVAL '30 days'$$
+);
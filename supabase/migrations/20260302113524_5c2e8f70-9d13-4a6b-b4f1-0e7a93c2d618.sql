@@ -0,0 +1,59 @@
+-- Apply the same change to many books in a single request
+-- p_changes may contain any of:
+--   status            new reading status
+--   is_favorite       new favourite flag
+--   deleted           true moves the books to the trash, false restores them
+--   add_shelf_ids     shelves to put the books on
+--   remove_shelf_ids  shelves to take the books off
+-- Each book is updated in its own savepoint, so one failing book doesn't stop the others;
+-- the result has one row per book with the error message (NULL when the book was updated)
+-- Runs with the caller's permissions, so RLS limits it to the caller's own books and shelves
+CREATE OR REPLACE FUNCTION public.bulk_update_books(p_book_ids UUID[], p_changes JSONB)
+RETURNS TABLE (book_id UUID, error TEXT) AS $$
+DECLARE
+  v_book_id UUID;
+BEGIN
+  FOREACH v_book_id IN ARRAY p_book_ids LOOP
+    book_id := v_book_id;
+    error := NULL;
+    BEGIN
+      -- Books that are missing (or belong to someone else) can't be updated
+      IF NOT EXISTS (SELECT 1 FROM public.books WHERE books.id = v_book_id AND books.user_id = auth.uid()) THEN
+        RAISE EXCEPTION 'Book not found';
+      END IF;
+
+      -- Column changes (keys that aren't present keep the current value)
+      IF p_changes ?| ARRAY['status', 'is_favorite', 'deleted'] THEN
+        UPDATE public.books SET
+          status = COALESCE((p_changes->>'status')::book_status, books.status),
+          is_favorite = COALESCE((p_changes->>'is_favorite')::BOOLEAN, books.is_favorite),
+          deleted_at = CASE
+            WHEN NOT p_changes ? 'deleted' THEN books.deleted_at
+            WHEN (p_changes->>'deleted')::BOOLEAN THEN COALESCE(books.deleted_at, now())
+            ELSE NULL
+          END
+        WHERE books.id = v_book_id;
+      END IF;
+
+      -- Shelf assignments
+      IF p_changes ? 'add_shelf_ids' THEN
+        INSERT INTO public.book_shelves (book_id, shelf_id, user_id)
+        SELECT v_book_id, shelf_id::UUID, auth.uid()
+        FROM jsonb_array_elements_text(p_changes->'add_shelf_ids') AS shelf_id
+        ON CONFLICT DO NOTHING;
+      END IF;
+      IF p_changes ? 'remove_shelf_ids' THEN
+        DELETE FROM public.book_shelves
+        WHERE book_shelves.book_id = v_book_id
+          AND book_shelves.shelf_id IN (
+            SELECT shelf_id::UUID FROM jsonb_array_elements_text(p_changes->'remove_shelf_ids') AS shelf_id
+          );
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      -- Roll back this book only and report why
+      error := SQLERRM;
+    END;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
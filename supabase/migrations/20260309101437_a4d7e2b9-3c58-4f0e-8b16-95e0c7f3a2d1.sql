@@ -0,0 +1,6 @@
+-- Indexes for the paginated library queries, which always filter on the owner
+-- Newest/oldest first ordering
+CREATE INDEX books_user_id_created_at_idx ON public.books (user_id, created_at);
+
+-- Status filter
+CREATE INDEX books_user_id_status_idx ON public.books (user_id, status);
@@ -0,0 +1,45 @@
+-- Full-text search across title, author and review
+-- Title matches rank above author matches, which rank above review matches
+ALTER TABLE public.books ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+  setweight(to_tsvector('english', COALESCE(author, '')), 'B') ||
+  setweight(to_tsvector('english', COALESCE(review, '')), 'C')
+) STORED;
+
+-- Index for the @@ match in search_books
+CREATE INDEX books_search_vector_idx ON public.books USING GIN (search_vector);
+
+-- Books matching a search, best match first
+-- Words are matched with web search syntax ("quoted phrases", or, -excluded); partial titles and
+-- authors (e.g. "tolk") still match as substrings, ranked after the full-text matches
+-- Returns whole book rows so the client can filter, embed and page the results like the books table
+-- Runs with the caller's permissions, so RLS limits it to the caller's own books
+CREATE OR REPLACE FUNCTION public.search_books(p_query TEXT)
+RETURNS SETOF public.books AS $$
+  SELECT books.*
+  FROM public.books,
+    websearch_to_tsquery('english', p_query) AS query,
+    -- Escape LIKE wildcards so they match literally
+    replace(replace(replace(p_query, '\', '\\'), '%', '\%'), '_', '\_') AS pattern
+  WHERE books.search_vector @@ query
+    OR books.title ILIKE '%' || pattern || '%'
+    OR books.author ILIKE '%' || pattern || '%'
+  ORDER BY ts_rank(books.search_vector, query) DESC, books.id;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Highlighted extracts of the reviews that match a search, for the given books
+-- Matched words are wrapped in <mark></mark>; the review is not HTML-escaped, so the client must
+-- treat the snippet as text and only interpret the markers
+CREATE OR REPLACE FUNCTION public.search_snippets(p_query TEXT, p_book_ids UUID[])
+RETURNS TABLE (book_id UUID, snippet TEXT) AS $$
+  SELECT books.id AS book_id,
+    ts_headline(
+      'english',
+      books.review,
+      query,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=20, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS snippet
+  FROM public.books, websearch_to_tsquery('english', p_query) AS query
+  WHERE books.id = ANY(p_book_ids)
+    AND to_tsvector('english', COALESCE(books.review, '')) @@ query;
+$$ LANGUAGE sql STABLE SET search_path = public;
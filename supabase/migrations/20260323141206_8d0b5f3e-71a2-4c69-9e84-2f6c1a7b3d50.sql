@@ -0,0 +1,46 @@
+-- Create smart_shelves table for saved, rule-based collections of books
+-- Rules are stored as a JSON group: { "match": "all" | "any", "rules": [rule or group, ...] },
+-- where a rule is { "field": ..., "operator": ..., "value": ... }; the client compiles them
+-- into a books query, so membership is always worked out by the database
+CREATE TABLE public.smart_shelves (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) > 0),
+  rules JSONB NOT NULL CHECK (jsonb_typeof(rules) = 'object' AND jsonb_typeof(rules -> 'rules') = 'array'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Smart shelf names are unique per user, ignoring case
+CREATE UNIQUE INDEX smart_shelves_user_id_name_key
+ON public.smart_shelves (user_id, lower(name));
+
+-- Enable Row Level Security
+ALTER TABLE public.smart_shelves ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: Users can only access their own smart shelves
+CREATE POLICY "Users can view their own smart shelves" 
+ON public.smart_shelves 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own smart shelves" 
+ON public.smart_shelves 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own smart shelves" 
+ON public.smart_shelves 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own smart shelves" 
+ON public.smart_shelves 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates on smart shelves
+CREATE TRIGGER update_smart_shelves_updated_at
+BEFORE UPDATE ON public.smart_shelves
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,7 @@
+-- Broadcast book changes over Realtime, so open tabs and other devices update without a refresh
+-- Realtime checks the books RLS policies, so each user only receives changes to their own books
+ALTER PUBLICATION supabase_realtime ADD TABLE public.books;
+
+-- Send whole rows for deletes too - Realtime can only match a delete to the user_id filter the app
+-- subscribes with when the old row carries user_id (by default it only has the primary key)
+ALTER TABLE public.books REPLICA IDENTITY FULL;
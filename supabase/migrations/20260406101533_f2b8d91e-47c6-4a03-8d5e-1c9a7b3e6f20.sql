@@ -0,0 +1,68 @@
+-- Optimistic concurrency for bulk edits
+-- p_versions maps book IDs to the updated_at the caller last saw; a book that has changed since
+-- isn't touched, and its result row has conflict = TRUE so the caller can offer a merge
+-- The result type changes, so the old function is dropped first
+DROP FUNCTION public.bulk_update_books(UUID[], JSONB);
+
+CREATE FUNCTION public.bulk_update_books(p_book_ids UUID[], p_changes JSONB, p_versions JSONB DEFAULT NULL)
+RETURNS TABLE (book_id UUID, error TEXT, conflict BOOLEAN) AS $$
+DECLARE
+  v_book_id UUID;
+  v_updated_at TIMESTAMPTZ;
+BEGIN
+  FOREACH v_book_id IN ARRAY p_book_ids LOOP
+    book_id := v_book_id;
+    error := NULL;
+    conflict := FALSE;
+    BEGIN
+      -- Books that are missing (or belong to someone else) can't be updated
+      -- The row is locked so it can't change between the version check and the update
+      SELECT books.updated_at INTO v_updated_at
+      FROM public.books
+      WHERE books.id = v_book_id AND books.user_id = auth.uid()
+      FOR UPDATE;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Book not found';
+      END IF;
+
+      -- Books changed since the caller loaded them are left for the caller to merge
+      IF p_versions ? v_book_id::TEXT AND v_updated_at <> (p_versions->>v_book_id::TEXT)::TIMESTAMPTZ THEN
+        conflict := TRUE;
+        RAISE EXCEPTION 'Book was changed somewhere else';
+      END IF;
+
+      -- Column changes (keys that aren't present keep the current value)
+      IF p_changes ?| ARRAY['status', 'is_favorite', 'deleted'] THEN
+        UPDATE public.books SET
+          status = COALESCE((p_changes->>'status')::book_status, books.status),
+          is_favorite = COALESCE((p_changes->>'is_favorite')::BOOLEAN, books.is_favorite),
+          deleted_at = CASE
+            WHEN NOT p_changes ? 'deleted' THEN books.deleted_at
+            WHEN (p_changes->>'deleted')::BOOLEAN THEN COALESCE(books.deleted_at, now())
+            ELSE NULL
+          END
+        WHERE books.id = v_book_id;
+      END IF;
+
+      -- Shelf assignments
+      IF p_changes ? 'add_shelf_ids' THEN
+        INSERT INTO public.book_shelves (book_id, shelf_id, user_id)
+        SELECT v_book_id, shelf_id::UUID, auth.uid()
+        FROM jsonb_array_elements_text(p_changes->'add_shelf_ids') AS shelf_id
+        ON CONFLICT DO NOTHING;
+      END IF;
+      IF p_changes ? 'remove_shelf_ids' THEN
+        DELETE FROM public.book_shelves
+        WHERE book_shelves.book_id = v_book_id
+          AND book_shelves.shelf_id IN (
+            SELECT shelf_id::UUID FROM jsonb_array_elements_text(p_changes->'remove_shelf_ids') AS shelf_id
+          );
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      -- Roll back this book only and report why
+      error := SQLERRM;
+    END;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,75 @@
+-- Create book events table - an audit trail of every change to a book, with the values before and after
+-- book_id has no foreign key so a book's history outlives it (the delete itself is an event)
+CREATE TABLE public.book_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  book_id UUID NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('insert', 'update', 'delete')),
+  old_values JSONB, -- Columns before the change (only the changed ones for updates, NULL for inserts)
+  new_values JSONB, -- Columns after the change (only the changed ones for updates, NULL for deletes)
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Index for listing a book's history, newest first
+CREATE INDEX book_events_book_id_created_at_idx
+ON public.book_events (book_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.book_events ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: Users can only read their own history - it is written by the trigger below and never edited
+CREATE POLICY "Users can view their own book events" 
+ON public.book_events 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+-- Create function recording each insert, update and delete of a book
+-- Bookkeeping columns are left out, and updates that change nothing else aren't recorded
+-- Runs as the table owner, since users can't insert events themselves (and auth.users is checked)
+CREATE OR REPLACE FUNCTION public.record_book_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_row JSONB;
+  new_row JSONB;
+  old_changed JSONB;
+  new_changed JSONB;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    old_row := to_jsonb(OLD) - 'id' - 'user_id' - 'created_at' - 'updated_at' - 'search_vector';
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    new_row := to_jsonb(NEW) - 'id' - 'user_id' - 'created_at' - 'updated_at' - 'search_vector';
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.book_events (user_id, book_id, event_type, new_values)
+    VALUES (NEW.user_id, NEW.id, 'insert', new_row);
+  ELSIF TG_OP = 'DELETE' THEN
+    -- Books deleted along with their owner's account aren't recorded - the event would point at
+    -- a user who no longer exists and fail its foreign key, rolling back the account deletion
+    IF EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id) THEN
+      INSERT INTO public.book_events (user_id, book_id, event_type, old_values)
+      VALUES (OLD.user_id, OLD.id, 'delete', old_row);
+    END IF;
+  ELSE
+    -- Keep just the columns that changed, on both sides
+    SELECT jsonb_object_agg(changed.key, old_row -> changed.key), jsonb_object_agg(changed.key, changed.value)
+    INTO old_changed, new_changed
+    FROM jsonb_each(new_row) AS changed
+    WHERE changed.value IS DISTINCT FROM old_row -> changed.key;
+
+    IF new_changed IS NOT NULL THEN
+      INSERT INTO public.book_events (user_id, book_id, event_type, old_values, new_values)
+      VALUES (NEW.user_id, NEW.id, 'update', old_changed, new_changed);
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create trigger recording the history after the status dates have been stamped
+CREATE TRIGGER record_books_event
+AFTER INSERT OR UPDATE OR DELETE ON public.books
+FOR EACH ROW
+EXECUTE FUNCTION public.record_book_event();
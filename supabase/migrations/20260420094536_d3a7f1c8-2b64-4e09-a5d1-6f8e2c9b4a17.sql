@@ -0,0 +1,110 @@
+-- Create status changes table - when each book entered each reading status
+-- updated_at moves with every edit, so it can't tell when a book was queued, started or finished
+CREATE TABLE public.status_changes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  book_id UUID NOT NULL REFERENCES public.books(id) ON DELETE CASCADE,
+  from_status book_status, -- NULL when the book was added with to_status
+  to_status book_status NOT NULL,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Index for listing a book's status changes in order
+CREATE INDEX status_changes_book_id_changed_at_idx
+ON public.status_changes (book_id, changed_at);
+
+-- Index for queries across the library (e.g. books started in a year)
+CREATE INDEX status_changes_user_id_to_status_changed_at_idx
+ON public.status_changes (user_id, to_status, changed_at);
+
+-- Enable Row Level Security
+ALTER TABLE public.status_changes ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: Users can only read their own status changes - they are written by the trigger below
+CREATE POLICY "Users can view their own status changes" 
+ON public.status_changes 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+-- Create function recording a book's status when it is added and whenever it changes
+-- Runs as the table owner, since users can't insert status changes themselves
+CREATE OR REPLACE FUNCTION public.record_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.status_changes (user_id, book_id, from_status, to_status)
+    VALUES (NEW.user_id, NEW.id, NULL, NEW.status);
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.status_changes (user_id, book_id, from_status, to_status)
+    VALUES (NEW.user_id, NEW.id, OLD.status, NEW.status);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create trigger recording status changes
+CREATE TRIGGER record_books_status_change
+AFTER INSERT OR UPDATE OF status ON public.books
+FOR EACH ROW
+EXECUTE FUNCTION public.record_status_change();
+
+-- Backfill books whose whole life is in the audit trail from it
+INSERT INTO public.status_changes (user_id, book_id, from_status, to_status, changed_at)
+SELECT
+  book_events.user_id,
+  book_events.book_id,
+  (book_events.old_values ->> 'status')::book_status,
+  (book_events.new_values ->> 'status')::book_status,
+  book_events.created_at
+FROM public.book_events
+JOIN public.books ON books.id = book_events.book_id
+WHERE book_events.event_type IN ('insert', 'update')
+  AND book_events.new_values ? 'status'
+  AND EXISTS (
+    SELECT 1 FROM public.book_events AS added
+    WHERE added.book_id = book_events.book_id AND added.event_type = 'insert'
+  );
+
+-- Backfill older books as best their dates allow: queued when added (if they were queued before
+-- being started), started on the start date and finished on the finish date
+INSERT INTO public.status_changes (user_id, book_id, from_status, to_status, changed_at)
+SELECT user_id, id, NULL, 'want_to_read', created_at
+FROM public.books
+WHERE NOT EXISTS (SELECT 1 FROM public.status_changes WHERE status_changes.book_id = books.id)
+  AND (status = 'want_to_read' OR started_at > created_at)
+UNION ALL
+SELECT user_id, id, CASE WHEN status = 'want_to_read' OR started_at > created_at THEN 'want_to_read'::book_status END, 'reading', started_at
+FROM public.books
+WHERE NOT EXISTS (SELECT 1 FROM public.status_changes WHERE status_changes.book_id = books.id)
+  AND status <> 'want_to_read'
+  AND started_at IS NOT NULL
+UNION ALL
+SELECT user_id, id, CASE WHEN started_at IS NOT NULL THEN 'reading'::book_status END, 'read', finished_at
+FROM public.books
+WHERE NOT EXISTS (SELECT 1 FROM public.status_changes WHERE status_changes.book_id = books.id)
+  AND status = 'read'
+  AND finished_at IS NOT NULL;
+
+-- Average number of days books sat in want_to_read before being started, for books started in a year
+-- (each start straight from the queue counts; a book queued and started on the same day took 0 days)
+CREATE OR REPLACE FUNCTION public.average_days_in_queue(p_year INTEGER)
+RETURNS TABLE (average_days NUMERIC, books BIGINT) AS $$
+  SELECT
+    ROUND(AVG(started.changed_at::date - started.queued_at::date), 1) AS average_days,
+    COUNT(*) AS books
+  FROM (
+    SELECT
+      status_changes.to_status,
+      status_changes.changed_at,
+      LAG(status_changes.to_status) OVER book_changes AS previous_status,
+      LAG(status_changes.changed_at) OVER book_changes AS queued_at
+    FROM public.status_changes
+    JOIN public.books ON books.id = status_changes.book_id
+    WHERE status_changes.user_id = auth.uid()
+      AND books.deleted_at IS NULL
+    WINDOW book_changes AS (PARTITION BY status_changes.book_id ORDER BY status_changes.changed_at)
+  ) AS started
+  WHERE started.to_status = 'reading'
+    AND started.previous_status = 'want_to_read'
+    AND EXTRACT(YEAR FROM started.changed_at) = p_year;
+$$ LANGUAGE sql STABLE SET search_path = public;
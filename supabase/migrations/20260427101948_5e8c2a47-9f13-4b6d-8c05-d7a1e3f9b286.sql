@@ -0,0 +1,124 @@
+-- Add cover image to books - the path of the cover in the covers bucket
+-- (a thumbnail is stored next to it, with "-thumb" before the extension)
+ALTER TABLE public.books ADD COLUMN cover_path TEXT;
+
+-- Covers must be in the owner's folder, so a book can't point at someone else's image
+ALTER TABLE public.books ADD CONSTRAINT books_cover_path_owner_check
+CHECK (cover_path IS NULL OR cover_path LIKE user_id::text || '/%');
+
+-- Create private bucket for cover images - one folder per user, read through signed URLs
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('covers', 'covers', false, 2097152, ARRAY['image/jpeg'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Storage RLS Policies: Users can only access covers in their own folder ({user_id}/{book_id}/...)
+CREATE POLICY "Users can view their own covers" 
+ON storage.objects 
+FOR SELECT 
+USING (bucket_id = 'covers' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can upload their own covers" 
+ON storage.objects 
+FOR INSERT 
+WITH CHECK (bucket_id = 'covers' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can update their own covers" 
+ON storage.objects 
+FOR UPDATE 
+USING (bucket_id = 'covers' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their own covers" 
+ON storage.objects 
+FOR DELETE 
+USING (bucket_id = 'covers' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+-- The nightly purge now goes through the purge-deleted-books Edge Function, which removes each book's
+-- covers from storage before deleting it (storage files can't be deleted from SQL)
+-- The job reads the project URL and service role key from Vault secrets named project_url and
+-- service_role_key; rescheduling under the same name replaces the SQL-only job
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'purge-deleted-books',
+  '0 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/purge-deleted-books',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb,
+    timeout_milliseconds := 60000
+  );
+  $$
+);
+
+-- Restoring a backup brings covers back too - only covers in the caller's own folder, since a
+-- backup from another account points at images this account can't read
+CREATE OR REPLACE FUNCTION public.restore_library(p_books JSONB, p_mode TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF p_mode NOT IN ('merge', 'replace') THEN
+    RAISE EXCEPTION 'Unknown restore mode: %', p_mode;
+  END IF;
+
+  -- In replace mode, move every book the backup doesn't contain to the trash
+  IF p_mode = 'replace' THEN
+    UPDATE public.books SET deleted_at = now()
+    WHERE user_id = auth.uid()
+      AND deleted_at IS NULL
+      AND id NOT IN (
+        SELECT backup.id
+        FROM jsonb_populate_recordset(NULL::public.books, p_books) AS backup
+        WHERE backup.id IS NOT NULL
+      );
+  END IF;
+
+  -- Overwrite books that are already in the library or the trash
+  -- (columns missing from the backup keep their value)
+  UPDATE public.books SET
+    title = backup.title,
+    author = backup.author,
+    status = COALESCE(backup.status, books.status),
+    rating = backup.rating,
+    review = backup.review,
+    is_favorite = COALESCE(backup.is_favorite, books.is_favorite),
+    page_count = backup.page_count,
+    current_page = COALESCE(backup.current_page, books.current_page),
+    started_at = backup.started_at,
+    finished_at = backup.finished_at,
+    cover_path = CASE WHEN backup.cover_path LIKE auth.uid()::text || '/%' THEN backup.cover_path END,
+    created_at = COALESCE(backup.created_at, books.created_at),
+    deleted_at = NULL
+  FROM jsonb_populate_recordset(NULL::public.books, p_books) AS backup
+  WHERE books.id = backup.id
+    AND books.user_id = auth.uid();
+
+  -- Add the rest as new books owned by the caller (missing columns fall back to the table defaults)
+  -- An id already used by a book the caller can't see (e.g. restoring someone else's backup) gets a new one
+  INSERT INTO public.books (
+    id, user_id, title, author, status, rating, review, is_favorite,
+    page_count, current_page, started_at, finished_at, cover_path, created_at
+  )
+  SELECT
+    CASE WHEN backup.id IS NULL OR public.book_id_taken(backup.id) THEN gen_random_uuid() ELSE backup.id END,
+    auth.uid(),
+    backup.title,
+    backup.author,
+    COALESCE(backup.status, 'want_to_read'),
+    backup.rating,
+    backup.review,
+    COALESCE(backup.is_favorite, false),
+    backup.page_count,
+    COALESCE(backup.current_page, 0),
+    backup.started_at,
+    backup.finished_at,
+    CASE WHEN backup.cover_path LIKE auth.uid()::text || '/%' THEN backup.cover_path END,
+    COALESCE(backup.created_at, now())
+  FROM jsonb_populate_recordset(NULL::public.books, p_books) AS backup
+  WHERE backup.id IS NULL
+    OR NOT EXISTS (SELECT 1 FROM public.books WHERE books.id = backup.id);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,90 @@
+-- Add publication details to books, filled in by hand or looked up by ISBN
+-- ISBNs are stored as ISBN-13 (ISBN-10s are converted when entered)
+ALTER TABLE public.books ADD COLUMN isbn TEXT;
+ALTER TABLE public.books ADD COLUMN publisher TEXT;
+ALTER TABLE public.books ADD COLUMN published_year INTEGER;
+
+-- ISBN-13s are 13 digits starting with the 978 or 979 "bookland" prefix
+ALTER TABLE public.books ADD CONSTRAINT books_isbn_check
+CHECK (isbn IS NULL OR isbn ~ '^97[89][0-9]{10}$');
+
+-- Years are plain four-digit years
+ALTER TABLE public.books ADD CONSTRAINT books_published_year_check
+CHECK (published_year IS NULL OR published_year BETWEEN 1 AND 9999);
+
+-- Index for finding a book in the user's library by ISBN
+CREATE INDEX books_user_id_isbn_idx ON public.books (user_id, isbn) WHERE isbn IS NOT NULL;
+
+-- Restoring a backup brings the publication details back too
+CREATE OR REPLACE FUNCTION public.restore_library(p_books JSONB, p_mode TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF p_mode NOT IN ('merge', 'replace') THEN
+    RAISE EXCEPTION 'Unknown restore mode: %', p_mode;
+  END IF;
+
+  -- In replace mode, move every book the backup doesn't contain to the trash
+  IF p_mode = 'replace' THEN
+    UPDATE public.books SET deleted_at = now()
+    WHERE user_id = auth.uid()
+      AND deleted_at IS NULL
+      AND id NOT IN (
+        SELECT backup.id
+        FROM jsonb_populate_recordset(NULL::public.books, p_books) AS backup
+        WHERE backup.id IS NOT NULL
+      );
+  END IF;
+
+  -- Overwrite books that are already in the library or the trash
+  -- (columns missing from the backup keep their value)
+  UPDATE public.books SET
+    title = backup.title,
+    author = backup.author,
+    status = COALESCE(backup.status, books.status),
+    rating = backup.rating,
+    review = backup.review,
+    is_favorite = COALESCE(backup.is_favorite, books.is_favorite),
+    page_count = backup.page_count,
+    current_page = COALESCE(backup.current_page, books.current_page),
+    started_at = backup.started_at,
+    finished_at = backup.finished_at,
+    cover_path = CASE WHEN backup.cover_path LIKE auth.uid()::text || '/%' THEN backup.cover_path END,
+    isbn = backup.isbn,
+    publisher = backup.publisher,
+    published_year = backup.published_year,
+    created_at = COALESCE(backup.created_at, books.created_at),
+    deleted_at = NULL
+  FROM jsonb_populate_recordset(NULL::public.books, p_books) AS backup
+  WHERE books.id = backup.id
+    AND books.user_id = auth.uid();
+
+  -- Add the rest as new books owned by the caller (missing columns fall back to the table defaults)
+  -- An id already used by a book the caller can't see (e.g. restoring someone else's backup) gets a new one
+  INSERT INTO public.books (
+    id, user_id, title, author, status, rating, review, is_favorite,
+    page_count, current_page, started_at, finished_at, cover_path, isbn, publisher, published_year,
+    created_at
+  )
+  SELECT
+    CASE WHEN backup.id IS NULL OR public.book_id_taken(backup.id) THEN gen_random_uuid() ELSE backup.id END,
+    auth.uid(),
+    backup.title,
+    backup.author,
+    COALESCE(backup.status, 'want_to_read'),
+    backup.rating,
+    backup.review,
+    COALESCE(backup.is_favorite, false),
+    backup.page_count,
+    COALESCE(backup.current_page, 0),
+    backup.started_at,
+    backup.finished_at,
+    CASE WHEN backup.cover_path LIKE auth.uid()::text || '/%' THEN backup.cover_path END,
+    backup.isbn,
+    backup.publisher,
+    backup.published_year,
+    COALESCE(backup.created_at, now())
+  FROM jsonb_populate_recordset(NULL::public.books, p_books) AS backup
+  WHERE backup.id IS NULL
+    OR NOT EXISTS (SELECT 1 FROM public.books WHERE books.id = backup.id);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
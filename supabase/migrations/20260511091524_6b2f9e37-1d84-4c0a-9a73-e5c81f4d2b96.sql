@@ -0,0 +1,108 @@
+-- Statistics split years (and months and days) in the reader's time zone, as the goal card does,
+-- so a book finished around New Year counts toward the same year on both
+-- The time zone is an IANA name such as 'Europe/London'; callers that don't pass one get UTC
+DROP FUNCTION public.books_finished_per_month(INTEGER);
+DROP FUNCTION public.rating_distribution(INTEGER);
+DROP FUNCTION public.top_authors(INTEGER, INTEGER);
+DROP FUNCTION public.average_days_to_finish(INTEGER);
+DROP FUNCTION public.reading_years();
+DROP FUNCTION public.average_days_in_queue(INTEGER);
+
+CREATE OR REPLACE FUNCTION public.books_finished_per_month(p_year INTEGER, p_time_zone TEXT DEFAULT 'UTC')
+RETURNS TABLE (month INTEGER, finished BIGINT) AS $$
+  SELECT months.month, COUNT(books.id) AS finished
+  FROM generate_series(1, 12) AS months(month)
+  LEFT JOIN public.read_throughs
+    ON read_throughs.user_id = auth.uid()
+    AND EXTRACT(YEAR FROM read_throughs.finished_at AT TIME ZONE p_time_zone) = p_year
+    AND EXTRACT(MONTH FROM read_throughs.finished_at AT TIME ZONE p_time_zone) = months.month
+  LEFT JOIN public.books
+    ON books.id = read_throughs.book_id
+    AND books.deleted_at IS NULL
+  GROUP BY months.month
+  ORDER BY months.month;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.rating_distribution(p_year INTEGER, p_time_zone TEXT DEFAULT 'UTC')
+RETURNS TABLE (rating INTEGER, readings BIGINT) AS $$
+  SELECT stars.rating, COUNT(books.id) AS readings
+  FROM generate_series(1, 5) AS stars(rating)
+  LEFT JOIN public.read_throughs
+    ON read_throughs.user_id = auth.uid()
+    AND read_throughs.rating = stars.rating
+    AND EXTRACT(YEAR FROM read_throughs.finished_at AT TIME ZONE p_time_zone) = p_year
+  LEFT JOIN public.books
+    ON books.id = read_throughs.book_id
+    AND books.deleted_at IS NULL
+  GROUP BY stars.rating
+  ORDER BY stars.rating;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.top_authors(
+  p_year INTEGER,
+  p_limit INTEGER DEFAULT 5,
+  p_time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (author TEXT, readings BIGINT) AS $$
+  SELECT books.author, COUNT(*) AS readings
+  FROM public.read_throughs
+  JOIN public.books ON books.id = read_throughs.book_id
+  WHERE read_throughs.user_id = auth.uid()
+    AND books.deleted_at IS NULL
+    AND books.author IS NOT NULL
+    AND EXTRACT(YEAR FROM read_throughs.finished_at AT TIME ZONE p_time_zone) = p_year
+  GROUP BY books.author
+  ORDER BY readings DESC, books.author
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.average_days_to_finish(p_year INTEGER, p_time_zone TEXT DEFAULT 'UTC')
+RETURNS TABLE (average_days NUMERIC, readings BIGINT) AS $$
+  SELECT
+    ROUND(AVG(
+      (read_throughs.finished_at AT TIME ZONE p_time_zone)::date
+      - (read_throughs.started_at AT TIME ZONE p_time_zone)::date + 1
+    ), 1) AS average_days,
+    COUNT(*) AS readings
+  FROM public.read_throughs
+  JOIN public.books ON books.id = read_throughs.book_id
+  WHERE read_throughs.user_id = auth.uid()
+    AND books.deleted_at IS NULL
+    AND read_throughs.started_at IS NOT NULL
+    AND EXTRACT(YEAR FROM read_throughs.finished_at AT TIME ZONE p_time_zone) = p_year;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.reading_years(p_time_zone TEXT DEFAULT 'UTC')
+RETURNS TABLE (year INTEGER) AS $$
+  SELECT DISTINCT EXTRACT(YEAR FROM read_throughs.finished_at AT TIME ZONE p_time_zone)::INTEGER AS year
+  FROM public.read_throughs
+  JOIN public.books ON books.id = read_throughs.book_id
+  WHERE read_throughs.user_id = auth.uid()
+    AND books.deleted_at IS NULL
+    AND read_throughs.finished_at IS NOT NULL
+  ORDER BY year DESC;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.average_days_in_queue(p_year INTEGER, p_time_zone TEXT DEFAULT 'UTC')
+RETURNS TABLE (average_days NUMERIC, books BIGINT) AS $$
+  SELECT
+    ROUND(AVG(
+      (started.changed_at AT TIME ZONE p_time_zone)::date - (started.queued_at AT TIME ZONE p_time_zone)::date
+    ), 1) AS average_days,
+    COUNT(*) AS books
+  FROM (
+    SELECT
+      status_changes.to_status,
+      status_changes.changed_at,
+      LAG(status_changes.to_status) OVER book_changes AS previous_status,
+      LAG(status_changes.changed_at) OVER book_changes AS queued_at
+    FROM public.status_changes
+    JOIN public.books ON books.id = status_changes.book_id
+    WHERE status_changes.user_id = auth.uid()
+      AND books.deleted_at IS NULL
+    WINDOW book_changes AS (PARTITION BY status_changes.book_id ORDER BY status_changes.changed_at)
+  ) AS started
+  WHERE started.to_status = 'reading'
+    AND started.previous_status = 'want_to_read'
+    AND EXTRACT(YEAR FROM started.changed_at AT TIME ZONE p_time_zone) = p_year;
+$$ LANGUAGE sql STABLE SET search_path = public;